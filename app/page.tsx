@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -10,7 +10,22 @@ import { AlertsNotifications } from "@/components/alerts-notifications"
 import { TouristIdManagement } from "@/components/tourist-id-management"
 import { ReportsAnalytics } from "@/components/reports-analytics"
 import { HighRiskZones } from "@/components/high-risk-zones"
-import { useAuthorityApi } from "@/hooks/useAuthorityApi"
+import { ShiftHandover } from "@/components/shift-handover"
+import { DocumentWatchlist } from "@/components/document-watchlist"
+import { StreamStatusBadge } from "@/components/stream-status-badge"
+import { EmergencyAlarmBanner } from "@/components/emergency-alarm-banner"
+import { AlarmSettingsPopover } from "@/components/alarm-settings-popover"
+import { OutboxStatusPopover } from "@/components/outbox-status-popover"
+import { toast } from "@/components/ui/use-toast"
+import { useAuthorityApi, type Alert, type StreamConnectionState } from "@/hooks/useAuthorityApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { useEmergencyAlarm } from "@/hooks/useEmergencyAlarm"
+import { useOfflineOutbox } from "@/hooks/useOfflineOutbox"
+import { useSlaPolicy } from "@/hooks/useSlaPolicy"
+import { useDocumentWatchlist } from "@/hooks/useDocumentWatchlist"
+import { applyComplaintEvent } from "@/lib/complaint-stream"
+import { summarizeResponseTimes } from "@/lib/complaint-sla"
+import type { QueuedAction } from "@/lib/complaint-outbox"
 import {
   MapPin,
   Users,
@@ -25,6 +40,9 @@ import {
   Moon,
   Settings,
   RefreshCw,
+  Timer,
+  ClipboardList,
+  CalendarClock,
 } from "lucide-react"
 import { useTheme } from "next-themes"
 
@@ -40,52 +58,125 @@ interface DashboardStats {
   resolvedComplaints: number
   resolutionRate: number
   averageResponseTime: number
+  slaComplianceRate: number | null
 }
 
+const RECENT_ALERTS_SHOWN = 4
+
+// Resolved complaints drop out of Recent Alerts, whether loaded or pushed
+const isOpenAlert = (alert: Alert) => alert.status !== "resolved"
+
 export default function TouristSafetyDashboard() {
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [activeSection, setActiveSection] = useState("dashboard")
   const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null)
   const [recentAlerts, setRecentAlerts] = useState<any[]>([])
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const [streamState, setStreamState] = useState<StreamConnectionState>("connecting")
+  const statsRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [responseSample, setResponseSample] = useState<Alert[]>([])
+  const [acknowledgingAlarmId, setAcknowledgingAlarmId] = useState<string | null>(null)
   
   const { theme, setTheme } = useTheme()
+  const { policy: slaPolicy } = useSlaPolicy()
+  const currentOfficer = useCurrentOfficer()
+  const alarm = useEmergencyAlarm(currentOfficer.id)
+  const documentWatchlist = useDocumentWatchlist()
+  const observeAlarmRef = useRef(alarm.observe)
+  observeAlarmRef.current = alarm.observe
+  const outbox = useOfflineOutbox((summary) => {
+    toast({
+      title: "Offline actions sent",
+      description: `${summary.sent} queued action${summary.sent > 1 ? "s" : ""} synced${
+        summary.conflicts ? `, ${summary.conflicts} need review` : ""
+      }`,
+    })
+    loadDashboardData()
+  })
   
   const {
     loading,
     error,
     fetchComplaints,
     fetchComplaintStats,
+    acknowledgeComplaint,
+    subscribeToComplaints,
   } = useAuthorityApi()
 
   // Load dashboard data on component mount
   useEffect(() => {
     loadDashboardData()
-    // Set up auto-refresh every 30 seconds
+  }, [])
+
+  // Open the section named in the URL, e.g. a shared link to filtered alerts
+  useEffect(() => {
+    const section = new URLSearchParams(window.location.search).get("section")
+    if (section && (section === "map" || navigationItems.some((item) => item.id === section))) {
+      setActiveSection(section)
+    }
+  }, [])
+
+  const navigateTo = (section: string) => {
+    if (section === activeSection) return
+    setActiveSection(section)
+    // Section-specific query state (like alert filters) is dropped on the way out
+    window.history.replaceState(
+      null,
+      "",
+      section === "dashboard" ? window.location.pathname : `${window.location.pathname}?section=${section}`
+    )
+  }
+
+  // Push new and changed complaints into the recent alerts panel
+  useEffect(() => {
+    const unsubscribe = subscribeToComplaints((event) => {
+      setRecentAlerts((prev) => applyComplaintEvent(prev, event, isOpenAlert).slice(0, RECENT_ALERTS_SHOWN))
+      setLastRefresh(new Date())
+      observeAlarmRef.current([event.complaint])
+
+      // Refetch the summary figures once a burst of events settles
+      if (statsRefreshTimer.current) clearTimeout(statsRefreshTimer.current)
+      statsRefreshTimer.current = setTimeout(loadDashboardStats, 2000)
+    }, setStreamState)
+
+    return () => {
+      unsubscribe()
+      if (statsRefreshTimer.current) clearTimeout(statsRefreshTimer.current)
+    }
+  }, [subscribeToComplaints])
+
+  // Fall back to auto-refresh every 30 seconds while the live feed is down
+  useEffect(() => {
+    if (streamState === "open") return
     const interval = setInterval(loadDashboardData, 30000)
     return () => clearInterval(interval)
-  }, [])
+  }, [streamState])
+
+  const loadDashboardStats = async () => {
+    // Fetch complaint statistics
+    const statsResponse = await fetchComplaintStats('24h')
+    if (statsResponse.data) {
+      const stats = statsResponse.data.stats
+      setDashboardStats({
+        totalTourists: 2847, // This would come from user API
+        alertsToday: stats.summary.total,
+        missingCases: stats.breakdown.byCategory['missing_person'] || 0,
+        highRiskWarnings: 7, // This would come from high-risk zones API
+        totalComplaints: stats.summary.total,
+        activeComplaints: stats.summary.active,
+        criticalComplaints: stats.summary.critical,
+        emergencyComplaints: stats.summary.emergency,
+        resolvedComplaints: stats.summary.resolved,
+        resolutionRate: stats.summary.resolutionRate,
+        averageResponseTime: stats.summary.averageResponseTime,
+        slaComplianceRate: stats.summary.slaComplianceRate ?? null,
+      })
+    }
+  }
 
   const loadDashboardData = async () => {
     try {
-      // Fetch complaint statistics
-      const statsResponse = await fetchComplaintStats('24h')
-      if (statsResponse.data) {
-        const stats = statsResponse.data.stats
-        setDashboardStats({
-          totalTourists: 2847, // This would come from user API
-          alertsToday: stats.summary.total,
-          missingCases: stats.breakdown.byCategory['missing_person'] || 0,
-          highRiskWarnings: 7, // This would come from high-risk zones API
-          totalComplaints: stats.summary.total,
-          activeComplaints: stats.summary.active,
-          criticalComplaints: stats.summary.critical,
-          emergencyComplaints: stats.summary.emergency,
-          resolvedComplaints: stats.summary.resolved,
-          resolutionRate: stats.summary.resolutionRate,
-          averageResponseTime: stats.summary.averageResponseTime,
-        })
-      }
+      await loadDashboardStats()
 
       // Fetch recent alerts (complaints)
       const alertsResponse = await fetchComplaints({
@@ -96,7 +187,9 @@ export default function TouristSafetyDashboard() {
       })
       
       if (alertsResponse.data) {
-        setRecentAlerts(alertsResponse.data.complaints.slice(0, 4))
+        setRecentAlerts(alertsResponse.data.complaints.filter(isOpenAlert).slice(0, RECENT_ALERTS_SHOWN))
+        setResponseSample(alertsResponse.data.complaints)
+        observeAlarmRef.current(alertsResponse.data.complaints)
       }
       
       setLastRefresh(new Date())
@@ -105,6 +198,39 @@ export default function TouristSafetyDashboard() {
     }
   }
 
+  const handleAlarmAcknowledge = async (alert: Alert) => {
+    setAcknowledgingAlarmId(alert.id)
+    const response = await acknowledgeComplaint(alert.id, currentOfficer.name)
+    setAcknowledgingAlarmId(null)
+
+    if (response.data || response.queued) {
+      alarm.observe([{ ...alert, status: "acknowledged" }])
+      toast({
+        title: response.queued ? "Saved offline" : "Success",
+        description: response.queued
+          ? `Acknowledgement for ${alert.touristName} will be sent when the connection returns`
+          : `Alert from ${alert.touristName} acknowledged`,
+      })
+    } else if (response.error) {
+      toast({
+        title: "Error",
+        description: response.error,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleOutboxRetry = async (action: QueuedAction) => {
+    const outcome = await outbox.retry(action)
+    if (outcome !== "sent") {
+      toast({
+        title: "Action not sent",
+        description: outcome === "offline" ? "The server is still unreachable" : "The server rejected the action",
+        variant: "destructive",
+      })
+    }
+  }
+
   const navigationItems = [
     { id: "dashboard", label: "Dashboard", icon: BarChart3 },
     { id: "clusters", label: "Tourist Clusters", icon: Users },
@@ -112,8 +238,16 @@ export default function TouristSafetyDashboard() {
     { id: "alerts", label: "Alerts & Notifications", icon: AlertTriangle },
     { id: "records", label: "Digital ID Records", icon: FileText },
     { id: "reports", label: "Reports & Analytics", icon: BarChart3 },
+    { id: "handover", label: "Shift Handover", icon: ClipboardList },
+    { id: "watchlist", label: "Document Watchlist", icon: CalendarClock },
   ]
 
+  // Response figures measured against the SLA targets, from the latest complaints
+  const responseSummary = summarizeResponseTimes(responseSample, slaPolicy)
+  const averageResponseTime = dashboardStats?.averageResponseTime || responseSummary.averageResponseMinutes
+  // The server's 24h figure when it has one, otherwise the recent sample
+  const slaComplianceRate = dashboardStats?.slaComplianceRate ?? responseSummary.slaComplianceRate
+
   const quickStats = dashboardStats ? [
     {
       title: "Total Active Tourists",
@@ -147,6 +281,17 @@ export default function TouristSafetyDashboard() {
       color: "text-yellow-600",
       bgColor: "bg-yellow-50 dark:bg-yellow-950",
     },
+    {
+      title: "Avg Response Time",
+      value: averageResponseTime != null ? `${averageResponseTime} min` : "N/A",
+      change: "",
+      note: slaComplianceRate != null
+        ? `${slaComplianceRate}% of ${dashboardStats.slaComplianceRate != null ? "the last 24h's" : "recent"} alerts acknowledged within SLA`
+        : "No recent acknowledgements",
+      icon: Timer,
+      color: "text-blue-600",
+      bgColor: "bg-blue-50 dark:bg-blue-950",
+    },
   ] : []
 
   const formatTimeAgo = (timestamp: string) => {
@@ -196,7 +341,7 @@ export default function TouristSafetyDashboard() {
             return (
               <button
                 key={item.id}
-                onClick={() => setActiveSection(item.id)}
+                onClick={() => navigateTo(item.id)}
                 className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg mb-1 transition-all duration-200 hover-lift ${
                   activeSection === item.id
                     ? "bg-sidebar-primary text-sidebar-primary-foreground shadow-glow"
@@ -242,6 +387,22 @@ export default function TouristSafetyDashboard() {
           </div>
 
           <div className="flex items-center gap-3">
+            <StreamStatusBadge state={streamState} />
+            <OutboxStatusPopover
+              actions={outbox.actions}
+              online={outbox.online}
+              syncing={outbox.syncing}
+              onSync={outbox.replay}
+              onRetry={handleOutboxRetry}
+              onDiscard={outbox.discard}
+            />
+            <AlarmSettingsPopover
+              settings={alarm.settings}
+              snoozed={alarm.snoozed}
+              onUpdateSettings={alarm.updateSettings}
+              onSnooze={alarm.snooze}
+              onRequestPermission={alarm.requestDesktopPermission}
+            />
             <Button 
               variant="ghost" 
               size="sm" 
@@ -262,6 +423,14 @@ export default function TouristSafetyDashboard() {
           </div>
         </header>
 
+        <EmergencyAlarmBanner
+          ringing={alarm.ringing}
+          sounding={alarm.sounding}
+          acknowledgingId={acknowledgingAlarmId}
+          onAcknowledge={handleAlarmAcknowledge}
+          onSnooze={alarm.snooze}
+        />
+
         {/* Dashboard Content */}
         <main className="flex-1 overflow-auto p-6 bg-gradient-to-br from-background to-muted/30">
           {activeSection === "dashboard" && (
@@ -298,7 +467,7 @@ export default function TouristSafetyDashboard() {
 
               {/* Quick Stats */}
               {dashboardStats && (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                   {quickStats.map((stat, index) => {
                     const Icon = stat.icon
                     return (
@@ -311,20 +480,24 @@ export default function TouristSafetyDashboard() {
                         </CardHeader>
                         <CardContent className="pt-4">
                           <div className="text-2xl font-bold text-card-foreground">{stat.value}</div>
-                          <p className="text-xs text-muted-foreground">
-                            <span
-                              className={
-                                stat.change.startsWith("+")
-                                  ? "text-green-600 dark:text-green-400"
-                                  : stat.change === "0"
-                                    ? "text-gray-600 dark:text-gray-400"
-                                    : "text-red-600 dark:text-red-400"
-                              }
-                            >
-                              {stat.change}
-                            </span>{" "}
-                            from yesterday
-                          </p>
+                          {stat.note ? (
+                            <p className="text-xs text-muted-foreground">{stat.note}</p>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">
+                              <span
+                                className={
+                                  stat.change.startsWith("+")
+                                    ? "text-green-600 dark:text-green-400"
+                                    : stat.change === "0"
+                                      ? "text-gray-600 dark:text-gray-400"
+                                      : "text-red-600 dark:text-red-400"
+                                }
+                              >
+                                {stat.change}
+                              </span>{" "}
+                              from yesterday
+                            </p>
+                          )}
                         </CardContent>
                       </Card>
                     )
@@ -332,6 +505,28 @@ export default function TouristSafetyDashboard() {
                 </div>
               )}
 
+              {/* Passport and visa expiries */}
+              {(documentWatchlist.summary.overstays > 0 || documentWatchlist.summary.lapsed > 0 || documentWatchlist.summary.expiringSoon > 0) && (
+                <Card className="shadow-soft">
+                  <CardContent className="flex flex-wrap items-center justify-between gap-4 py-4">
+                    <div className="flex items-center gap-3">
+                      <CalendarClock className="w-5 h-5 text-orange-600" />
+                      <div>
+                        <p className="font-medium text-card-foreground">Document Watchlist</p>
+                        <p className="text-xs text-muted-foreground">
+                          {documentWatchlist.summary.overstays} overstay{documentWatchlist.summary.overstays === 1 ? "" : "s"} ·{" "}
+                          {documentWatchlist.summary.lapsed} lapsed · {documentWatchlist.summary.expiringSoon} expiring within{" "}
+                          {documentWatchlist.windowDays} days
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => navigateTo("watchlist")}>
+                      View Watchlist
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Main Dashboard Grid */}
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <Card className="lg:col-span-2 hover-lift shadow-soft">
@@ -412,10 +607,12 @@ export default function TouristSafetyDashboard() {
           )}
 
           {/* Other Sections with API Integration */}
-          {activeSection === "alerts" && <AlertsNotifications />}
+          {activeSection === "alerts" && <AlertsNotifications onComplaintsObserved={alarm.observe} />}
           {activeSection === "records" && <TouristIdManagement />}
           {activeSection === "reports" && <ReportsAnalytics />}
           {activeSection === "high-risk" && <HighRiskZones />}
+          {activeSection === "handover" && <ShiftHandover />}
+          {activeSection === "watchlist" && <DocumentWatchlist />}
           
           {/* Placeholder sections */}
           {(activeSection === "map" || activeSection === "clusters") && (
@@ -0,0 +1,90 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Bell, BellOff } from "lucide-react"
+import type { AlarmSettings } from "@/hooks/useEmergencyAlarm"
+
+interface AlarmSettingsPopoverProps {
+  settings: AlarmSettings;
+  snoozed: boolean;
+  onUpdateSettings: (updates: Partial<AlarmSettings>) => void;
+  onSnooze: (minutes: number) => void;
+  onRequestPermission: () => void;
+}
+
+export function AlarmSettingsPopover({
+  settings,
+  snoozed,
+  onUpdateSettings,
+  onSnooze,
+  onRequestPermission,
+}: AlarmSettingsPopoverProps) {
+  const permission = typeof Notification === "undefined" ? "denied" : Notification.permission
+  const silenced = settings.soundMuted || snoozed
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="hover-lift" title="Alarm settings">
+          {silenced ? <BellOff className="w-5 h-5 text-muted-foreground" /> : <Bell className="w-5 h-5" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div>
+          <p className="text-sm font-semibold">Emergency Alarm</p>
+          <p className="text-xs text-muted-foreground">Applies to new SOS and critical alerts</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="alarm-sound">Alarm sound</Label>
+          <Switch
+            id="alarm-sound"
+            checked={!settings.soundMuted}
+            onCheckedChange={(checked) => onUpdateSettings({ soundMuted: !checked })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="alarm-desktop">Desktop notifications</Label>
+          <Switch
+            id="alarm-desktop"
+            checked={settings.desktopNotifications && permission === "granted"}
+            onCheckedChange={(checked) =>
+              checked && permission !== "granted"
+                ? onRequestPermission()
+                : onUpdateSettings({ desktopNotifications: checked })
+            }
+          />
+        </div>
+        {permission === "denied" && (
+          <p className="text-xs text-muted-foreground">
+            Notifications are blocked by the browser. Allow them in site settings to enable popups.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label>Snooze sound</Label>
+          {snoozed && settings.snoozedUntil ? (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              Until {new Date(settings.snoozedUntil).toLocaleTimeString()}
+              <Button size="sm" variant="outline" onClick={() => onUpdateSettings({ snoozedUntil: null })}>
+                Resume
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              {[5, 15, 30].map((minutes) => (
+                <Button key={minutes} size="sm" variant="outline" onClick={() => onSnooze(minutes)}>
+                  {minutes} min
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
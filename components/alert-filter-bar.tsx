@@ -0,0 +1,397 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import type { DateRange } from "react-day-picker"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { toast } from "@/components/ui/use-toast"
+import {
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Bookmark,
+  CalendarDays,
+  Filter,
+  Link2,
+  Save,
+  Search,
+  Settings,
+  Timer,
+  Trash2,
+  UserCheck,
+  X,
+} from "lucide-react"
+import type { FilterPreset } from "@/hooks/useFilterPresets"
+import {
+  DEFAULT_ALERT_FILTERS,
+  SORT_OPTIONS,
+  countActiveFilters,
+  type AlertFilterState,
+  type EmergencyFilter,
+} from "@/lib/complaint-filters"
+
+const CATEGORY_OPTIONS = [
+  { value: "panic_button", label: "Panic Button" },
+  { value: "medical_emergency", label: "Medical Emergency" },
+  { value: "lost_tourist", label: "Lost Tourist" },
+  { value: "suspicious_activity", label: "Suspicious Activity" },
+  { value: "theft", label: "Theft" },
+  { value: "accident", label: "Accident" },
+]
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd")
+const fromDay = (day: string) => (day ? new Date(`${day}T00:00:00`) : undefined)
+
+interface AlertFilterBarProps {
+  filters: AlertFilterState
+  onChange: (updates: Partial<AlertFilterState>) => void
+  breachingCount: number
+  onOpenSlaSettings: () => void
+  presets: FilterPreset[]
+  onSavePreset: (name: string) => void
+  onDeletePreset: (name: string) => void
+}
+
+export function AlertFilterBar({
+  filters,
+  onChange,
+  breachingCount,
+  onOpenSlaSettings,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+}: AlertFilterBarProps) {
+  const [presetDialog, setPresetDialog] = useState(false)
+  const [presetName, setPresetName] = useState("")
+
+  const activeCount = countActiveFilters(filters)
+  const dateRange: DateRange | undefined = filters.startDate
+    ? { from: fromDay(filters.startDate), to: fromDay(filters.endDate) }
+    : undefined
+
+  const dateLabel = filters.startDate
+    ? filters.endDate && filters.endDate !== filters.startDate
+      ? `${format(fromDay(filters.startDate)!, "LLL d")} – ${format(fromDay(filters.endDate)!, "LLL d, y")}`
+      : format(fromDay(filters.startDate)!, "LLL d, y")
+    : "Any date"
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast({ title: "Link copied", description: "Anyone with access can open this filtered view" })
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" })
+    }
+  }
+
+  const handleSavePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    onSavePreset(name)
+    setPresetDialog(false)
+    setPresetName("")
+    toast({ title: "Preset saved", description: `"${name}" is available from Presets` })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="w-5 h-5" />
+            Alert Filters
+            {activeCount > 0 && <Badge variant="secondary">{activeCount} active</Badge>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Bookmark className="w-4 h-4 mr-2" />
+                  Presets
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuLabel>Saved filters</DropdownMenuLabel>
+                {presets.length === 0 ? (
+                  <p className="px-2 py-1.5 text-xs text-muted-foreground">No presets saved yet</p>
+                ) : (
+                  presets.map((preset) => (
+                    <DropdownMenuItem
+                      key={preset.name}
+                      onSelect={() => onChange(preset.filters)}
+                      className="flex items-center justify-between"
+                    >
+                      <span className="truncate">{preset.name}</span>
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onDeletePreset(preset.name)
+                        }}
+                        aria-label={`Delete preset ${preset.name}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </DropdownMenuItem>
+                  ))
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => setPresetDialog(true)}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save current filters...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy Link
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(DEFAULT_ALERT_FILTERS)}
+              disabled={activeCount === 0}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div className="flex-1 min-w-64">
+            <Label htmlFor="search">Search Alerts</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="search"
+                placeholder="Search by tourist name, ID, location..."
+                value={filters.search}
+                onChange={(e) => onChange({ search: e.target.value })}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="status-filter">Status</Label>
+            <Select value={filters.status} onValueChange={(status) => onChange({ status })}>
+              <SelectTrigger id="status-filter" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="escalated">Escalated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="severity-filter">Severity</Label>
+            <Select value={filters.severity} onValueChange={(severity) => onChange({ severity })}>
+              <SelectTrigger id="severity-filter" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Severity</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            <Button
+              variant={filters.myAssignments ? "default" : "outline"}
+              onClick={() => onChange({ myAssignments: !filters.myAssignments })}
+            >
+              <UserCheck className="w-4 h-4 mr-2" />
+              My Assignments
+            </Button>
+          </div>
+          <div className="flex items-end gap-2">
+            <Button
+              variant={filters.breachingOnly ? "destructive" : "outline"}
+              onClick={() => onChange({ breachingOnly: !filters.breachingOnly })}
+            >
+              <Timer className="w-4 h-4 mr-2" />
+              Breaching SLA ({breachingCount})
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onOpenSlaSettings} title="SLA targets">
+              <Settings className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <Label htmlFor="category-filter">Category</Label>
+            <Select value={filters.category} onValueChange={(category) => onChange({ category })}>
+              <SelectTrigger id="category-filter" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {CATEGORY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="department-filter">Department</Label>
+            <Input
+              id="department-filter"
+              className="w-48"
+              placeholder="Any department"
+              value={filters.assignedDepartment}
+              onChange={(e) => onChange({ assignedDepartment: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="emergency-filter">Emergency</Label>
+            <Select
+              value={filters.emergency}
+              onValueChange={(emergency) => onChange({ emergency: emergency as EmergencyFilter })}
+            >
+              <SelectTrigger id="emergency-filter" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Alerts</SelectItem>
+                <SelectItem value="sos">SOS Only</SelectItem>
+                <SelectItem value="non_sos">Non-SOS</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Reported</Label>
+            <div className="flex items-center gap-1">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-56 justify-start font-normal">
+                    <CalendarDays className="w-4 h-4 mr-2" />
+                    {dateLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    numberOfMonths={2}
+                    selected={dateRange}
+                    defaultMonth={dateRange?.from}
+                    disabled={{ after: new Date() }}
+                    onSelect={(range) =>
+                      onChange({
+                        startDate: range?.from ? toDay(range.from) : "",
+                        endDate: range?.to ? toDay(range.to) : range?.from ? toDay(range.from) : "",
+                      })
+                    }
+                  />
+                </PopoverContent>
+              </Popover>
+              {filters.startDate && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange({ startDate: "", endDate: "" })}
+                  aria-label="Clear date range"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="sort-filter">Sort by</Label>
+            <div className="flex items-center gap-1">
+              <Select value={filters.sortBy} onValueChange={(sortBy) => onChange({ sortBy })}>
+                <SelectTrigger id="sort-filter" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => onChange({ sortOrder: filters.sortOrder === "desc" ? "asc" : "desc" })}
+                title={filters.sortOrder === "desc" ? "Descending" : "Ascending"}
+              >
+                {filters.sortOrder === "desc" ? (
+                  <ArrowDownWideNarrow className="w-4 h-4" />
+                ) : (
+                  <ArrowUpNarrowWide className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={presetDialog} onOpenChange={setPresetDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Filter Preset</DialogTitle>
+            <DialogDescription>
+              Saving under an existing name replaces that preset
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="preset-name">Preset Name *</Label>
+            <Input
+              id="preset-name"
+              placeholder="e.g. Night shift SOS"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+              maxLength={40}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPresetDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePreset} disabled={!presetName.trim()}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Preset
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
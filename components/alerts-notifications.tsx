@@ -1,12 +1,12 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Dialog,
@@ -24,7 +24,6 @@ import {
   User,
   CheckCircle,
   FileText,
-  Filter,
   Search,
   Bell,
   Zap,
@@ -34,36 +33,82 @@ import {
   Loader2,
   MessageSquare,
   AlertCircle,
+  Eye,
+  UserCheck,
+  X,
+  Timer,
+  ArrowUpCircle,
+  GitMerge,
+  Copy,
+  Keyboard,
+  HelpCircle,
+  Gauge,
+  RotateCcw,
+  CloudOff,
 } from "lucide-react"
-import { useAuthorityApi } from "@/hooks/useAuthorityApi"
-
-// Types (matching the hook)
-interface Alert {
-  id: string;
-  complaintId: string;
-  type: "panic_button" | "medical_emergency" | "lost_tourist" | "suspicious_activity" | "theft" | "accident";
-  severity: "low" | "medium" | "high" | "critical";
-  status: "active" | "acknowledged" | "resolved" | "escalated";
-  touristId: string;
-  touristName: string;
-  touristEmail?: string;
-  touristPhone?: string;
-  location: string;
-  coordinates: { lat: number; lng: number } | null;
-  timestamp: string;
-  description: string;
-  title: string;
-  contactInfo: string;
-  reportedBy: string;
-  assignedOfficer?: string;
-  assignedDepartment?: string;
-  responseTime?: string;
-  notes?: string;
-  isEmergencySOS: boolean;
-  sosActivatedAt?: string;
+import { AlertFilterBar } from "@/components/alert-filter-bar"
+import { AssignOfficerDialog } from "@/components/assign-officer-dialog"
+import { BulkActionSummaryDialog, type BulkActionResult } from "@/components/bulk-action-summary-dialog"
+import { ComplaintDetailSheet } from "@/components/complaint-detail-sheet"
+import { FirEscalationDialog, type FirEscalationSubmission } from "@/components/fir-escalation-dialog"
+import { MergeComplaintsDialog } from "@/components/merge-complaints-dialog"
+import { ReclassifySeverityDialog } from "@/components/reclassify-severity-dialog"
+import { ReopenComplaintDialog } from "@/components/reopen-complaint-dialog"
+import { ResolveComplaintDialog, type ResolutionFormValues } from "@/components/resolve-complaint-dialog"
+import { PriorityScoreBadge } from "@/components/priority-score-badge"
+import { SlaCountdownBadge } from "@/components/sla-countdown-badge"
+import { SlaPolicyDialog } from "@/components/sla-policy-dialog"
+import { StreamStatusBadge } from "@/components/stream-status-badge"
+import { TriageHelpDialog } from "@/components/triage-help-dialog"
+import {
+  useAuthorityApi,
+  type Alert,
+  type ComplaintStreamEvent,
+  type Officer,
+  type StreamConnectionState,
+} from "@/hooks/useAuthorityApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { useFilterPresets } from "@/hooks/useFilterPresets"
+import { useOfflineOutbox } from "@/hooks/useOfflineOutbox"
+import { useSlaPolicy } from "@/hooks/useSlaPolicy"
+import { useZones } from "@/hooks/useZones"
+import { applyComplaintEvent } from "@/lib/complaint-stream"
+import { ACTION_LABELS, canPerformAction, type ComplaintAction } from "@/lib/complaint-state-machine"
+import {
+  DEFAULT_ALERT_FILTERS,
+  filtersFromQuery,
+  filtersToQuery,
+  matchesAlertFilters,
+  toApiFilters,
+  type AlertFilterState,
+} from "@/lib/complaint-filters"
+import { findDuplicateGroups, orderByDuplicateGroups } from "@/lib/complaint-duplicates"
+import { computePriorityScore, type PriorityScore } from "@/lib/complaint-priority"
+import {
+  QUEUED_ACTION_LABELS,
+  QUEUED_NOTICE,
+  applyQueuedActions,
+  groupQueuedActions,
+} from "@/lib/complaint-outbox"
+import { isBreachingSla, summarizeResponseTimes } from "@/lib/complaint-sla"
+
+interface AlertsNotificationsProps {
+  // Lets the page-level emergency alarm see every complaint this view loads or receives
+  onComplaintsObserved?: (alerts: Alert[]) => void;
 }
 
-export function AlertsNotifications() {
+// Single-key actions in triage mode
+const TRIAGE_ACTION_KEYS: Record<string, ComplaintAction> = {
+  a: "acknowledge",
+  r: "resolve",
+  f: "escalate",
+  m: "message",
+  d: "assign",
+  o: "reopen",
+  c: "reclassify",
+};
+
+export function AlertsNotifications({ onComplaintsObserved }: AlertsNotificationsProps = {}) {
   const {
     loading,
     error,
@@ -73,7 +118,17 @@ export function AlertsNotifications() {
     resolveComplaint,
     escalateToFIR,
     addCommunication,
+    mergeComplaints,
+    assignComplaint,
+    reopenComplaint,
+    reclassifyComplaint,
+    subscribeToComplaints,
   } = useAuthorityApi();
+  const currentOfficer = useCurrentOfficer();
+  const { policy: slaPolicy, savePolicy: saveSlaPolicy, resetPolicy: resetSlaPolicy } = useSlaPolicy();
+  const { presets, savePreset, deletePreset } = useFilterPresets(currentOfficer.id);
+  const outbox = useOfflineOutbox(() => loadComplaints(false));
+  const { activeZones, loadZones } = useZones();
 
   // State
   const [alerts, setAlerts] = useState<Alert[]>([]);
@@ -83,6 +138,8 @@ export function AlertsNotifications() {
     critical: 0,
     averageResponseTime: 0,
     resolutionRate: 0,
+    slaComplianceRate: null as number | null,
+    slaBreaching: null as number | null,
   });
   const [pagination, setPagination] = useState({
     total: 0,
@@ -93,40 +150,68 @@ export function AlertsNotifications() {
   });
 
   // Filters
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [severityFilter, setSeverityFilter] = useState("all");
+  // Filters start from the URL so a shared link opens the same view
+  const [filters, setFilters] = useState<AlertFilterState>(() =>
+    typeof window === "undefined"
+      ? DEFAULT_ALERT_FILTERS
+      : filtersFromQuery(new URLSearchParams(window.location.search))
+  );
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
 
   // Dialog states
   const [selectedAlert, setSelectedAlert] = useState<Alert | null>(null);
   const [escalationDialog, setEscalationDialog] = useState(false);
-  const [escalationNotes, setEscalationNotes] = useState("");
   const [communicationDialog, setCommunicationDialog] = useState(false);
   const [communicationMessage, setCommunicationMessage] = useState("");
   const [actionLoading, setActionLoading] = useState(false);
+  const [detailAlert, setDetailAlert] = useState<Alert | null>(null);
+  const [detailSheet, setDetailSheet] = useState(false);
+  const [assignDialog, setAssignDialog] = useState(false);
+  const [assignTargets, setAssignTargets] = useState<Alert[]>([]);
+  const [resolveDialog, setResolveDialog] = useState(false);
+  const [resolveTargets, setResolveTargets] = useState<Alert[]>([]);
+  const [mergeDialog, setMergeDialog] = useState(false);
+  const [mergeCandidates, setMergeCandidates] = useState<Alert[]>([]);
+  const [reopenDialog, setReopenDialog] = useState(false);
+  const [reclassifyDialog, setReclassifyDialog] = useState(false);
+
+  // Bulk selection
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkMessageDialog, setBulkMessageDialog] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState("");
+  const [bulkSummary, setBulkSummary] = useState<{ action: string; results: BulkActionResult[] } | null>(null);
+
+  // Keyboard triage
+  const [triageMode, setTriageMode] = useState(false);
+  const [triageHelp, setTriageHelp] = useState(false);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const triageKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
 
   // Auto-refresh
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [lastRefresh, setLastRefresh] = useState(new Date());
 
+  // SLA clock
+  const [now, setNow] = useState(new Date());
+  const [slaDialog, setSlaDialog] = useState(false);
+
+  // Live feed
+  const [streamState, setStreamState] = useState<StreamConnectionState>("connecting");
+  const streamEventRef = useRef<(event: ComplaintStreamEvent) => void>(() => {});
+  const statsRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   // Load complaints with current filters
   const loadComplaints = useCallback(async (showLoadingState = true) => {
     try {
       if (!showLoadingState) setActionLoading(true);
 
-      const filters = {
+      const response = await fetchComplaints({
         page: currentPage,
         limit: pageSize,
-        ...(statusFilter !== 'all' && { status: statusFilter }),
-        ...(severityFilter !== 'all' && { urgency: severityFilter }),
-        ...(searchTerm && { search: searchTerm }),
-        sortBy: 'createdAt',
-        sortOrder: 'desc' as const,
-      };
-
-      const response = await fetchComplaints(filters);
+        ...toApiFilters(filters, currentOfficer.name),
+      });
       
       if (response.data) {
         setAlerts(response.data.complaints);
@@ -152,7 +237,25 @@ export function AlertsNotifications() {
     } finally {
       if (!showLoadingState) setActionLoading(false);
     }
-  }, [currentPage, pageSize, statusFilter, severityFilter, searchTerm, fetchComplaints]);
+  }, [currentPage, pageSize, filters, currentOfficer.name, fetchComplaints]);
+
+  useEffect(() => {
+    onComplaintsObserved?.(alerts);
+  }, [alerts, onComplaintsObserved]);
+
+  // High-risk zones feed the priority score
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  // Drop selections that are no longer on the current page
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const visible = new Set(alerts.map((alert) => alert.id));
+      const kept = new Set([...prev].filter((id) => visible.has(id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [alerts]);
 
   // Load stats
   const loadStats = useCallback(async () => {
@@ -164,6 +267,8 @@ export function AlertsNotifications() {
           critical: response.data.stats.summary.critical,
           averageResponseTime: response.data.stats.summary.averageResponseTime,
           resolutionRate: response.data.stats.summary.resolutionRate,
+          slaComplianceRate: response.data.stats.summary.slaComplianceRate ?? null,
+          slaBreaching: response.data.stats.summary.slaBreaching ?? null,
         });
       }
     } catch (err) {
@@ -171,15 +276,65 @@ export function AlertsNotifications() {
     }
   }, [fetchComplaintStats]);
 
-  // Initial load
   useEffect(() => {
-    loadComplaints();
     loadStats();
-  }, [loadComplaints, loadStats]);
+  }, [loadStats]);
 
-  // Auto refresh every 30 seconds
+  // Apply pushed complaint changes to the current page without a reload
+  const handleStreamEvent = (event: ComplaintStreamEvent) => {
+    const matchesFilters = (alert: Alert) => matchesAlertFilters(alert, filters, currentOfficer.name);
+    // New complaints only land on the first page; later pages just see the total change
+    const matches = (alert: Alert) =>
+      matchesFilters(alert) && (event.type !== "complaint.created" || currentPage === 1);
+
+    const merge = (prev: Alert[]) => applyComplaintEvent(prev, event, matches).slice(0, pageSize);
+    setAlerts(merge);
+    setFilteredAlerts(merge);
+    if (event.type === "complaint.created" && matchesFilters(event.complaint)) {
+      setPagination((prev) => ({ ...prev, total: prev.total + 1 }));
+    }
+    setLastRefresh(new Date());
+
+    // Breaches are escalated by the server's SLA monitor; tell whoever is watching
+    const previous = alerts.find((alert) => alert.id === event.complaint.id);
+    if (previous && !previous.supervisorEscalatedAt && event.complaint.supervisorEscalatedAt) {
+      toast({
+        title: "SLA breached",
+        description: `${event.complaint.complaintId} (${event.complaint.touristName}) escalated to the supervisor queue`,
+        variant: "destructive",
+      });
+    }
+
+    // SOS alerts already sound the alarm, so only complaints in the current view get a toast
+    if (event.type === "complaint.created" && matchesFilters(event.complaint)) {
+      toast({
+        title: event.complaint.isEmergencySOS ? "New emergency SOS" : "New complaint received",
+        description: `${event.complaint.touristName} • ${event.complaint.location}`,
+        variant: event.complaint.isEmergencySOS ? "destructive" : "default",
+      });
+    }
+
+    // Stats are aggregates, so refetch them once a burst of events settles
+    if (statsRefreshTimer.current) clearTimeout(statsRefreshTimer.current);
+    statsRefreshTimer.current = setTimeout(loadStats, 2000);
+  };
+  streamEventRef.current = handleStreamEvent;
+
+  // Subscribe once; the ref always points at the handler with the latest filters
+  useEffect(() => {
+    const unsubscribe = subscribeToComplaints(
+      (event) => streamEventRef.current(event),
+      setStreamState
+    );
+    return () => {
+      unsubscribe();
+      if (statsRefreshTimer.current) clearTimeout(statsRefreshTimer.current);
+    };
+  }, [subscribeToComplaints]);
+
+  // Fall back to polling every 30 seconds while the live feed is down
   useEffect(() => {
-    if (!autoRefresh) return;
+    if (!autoRefresh || streamState === "open") return;
 
     const interval = setInterval(() => {
       loadComplaints(false);
@@ -187,23 +342,67 @@ export function AlertsNotifications() {
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [autoRefresh, loadComplaints, loadStats]);
+  }, [autoRefresh, streamState, loadComplaints, loadStats]);
+
+  const updateFilters = (updates: Partial<AlertFilterState>) => {
+    setFilters((prev) => ({ ...prev, ...updates }));
+  };
 
   // Handle filter changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, statusFilter, severityFilter]);
+  }, [filters]);
 
-  // Load complaints when filters change
+  // Mirror the active filters into the query string for shareable links
   useEffect(() => {
-    const debounceTimer = setTimeout(() => {
-      if (searchTerm !== '' || statusFilter !== 'all' || severityFilter !== 'all') {
-        loadComplaints();
-      }
-    }, 500);
+    const params = new URLSearchParams({ section: "alerts" });
+    filtersToQuery(filters).forEach((value, key) => params.set(key, value));
+    window.history.replaceState(null, "", `${window.location.pathname}?${params.toString()}`);
+  }, [filters]);
+
+  // Single place complaints are (re)loaded for the page and filters: straight away on
+  // mount, then debounced so typing and the page reset on a filter change load once
+  const initialLoadDone = useRef(false);
+  useEffect(() => {
+    if (!initialLoadDone.current) {
+      initialLoadDone.current = true;
+      loadComplaints();
+      return;
+    }
 
+    const debounceTimer = setTimeout(() => loadComplaints(), 500);
     return () => clearTimeout(debounceTimer);
-  }, [searchTerm, statusFilter, severityFilter, loadComplaints]);
+  }, [loadComplaints]);
+
+  // Tick the SLA countdowns once a second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Actions waiting in the offline outbox show as if they had already gone through
+  const queuedByComplaint = groupQueuedActions(outbox.actions);
+  const queuedAlerts = filteredAlerts.map((alert) => applyQueuedActions(alert, queuedByComplaint.get(alert.id)));
+
+  const priorityScores = new Map<string, PriorityScore>(
+    queuedAlerts.map((alert) => [alert.id, computePriorityScore(alert, activeZones, now)])
+  );
+
+  // Likely duplicates are detected across the whole page and listed together
+  const duplicateGroups = findDuplicateGroups(alerts);
+  const { ordered: visibleAlerts, groupById: duplicateGroupById } = orderByDuplicateGroups(
+    // The API already narrows to breaching complaints; this drops ones acknowledged offline since
+    filters.breachingOnly
+      ? queuedAlerts.filter((alert) => isBreachingSla(alert, slaPolicy, now))
+      : queuedAlerts,
+    duplicateGroups
+  );
+  // The server counts breaches across every page; the page count is only a fallback
+  const breachingCount =
+    stats.slaBreaching ?? queuedAlerts.filter((alert) => isBreachingSla(alert, slaPolicy, now)).length;
+  const responseSummary = summarizeResponseTimes(alerts, slaPolicy);
+  const slaComplianceRate = stats.slaComplianceRate ?? responseSummary.slaComplianceRate;
+  const averageResponseTime = stats.averageResponseTime || responseSummary.averageResponseMinutes;
 
   // Utility functions
   const getSeverityColor = (severity: string) => {
@@ -272,12 +471,12 @@ export function AlertsNotifications() {
   const handleAcknowledge = async (alertId: string) => {
     try {
       setActionLoading(true);
-      const response = await acknowledgeComplaint(alertId, "Police Department");
+      const response = await acknowledgeComplaint(alertId, currentOfficer.name);
       
-      if (response.data) {
+      if (response.data || response.queued) {
         toast({
-          title: "Success",
-          description: "Complaint acknowledged successfully",
+          title: response.queued ? "Saved offline" : "Success",
+          description: response.queued ? QUEUED_NOTICE : "Complaint acknowledged successfully",
         });
         loadComplaints(false);
       } else if (response.error) {
@@ -294,21 +493,89 @@ export function AlertsNotifications() {
     }
   };
 
-  const handleResolve = async (alertId: string) => {
+  const resolveWithValues = (alert: Alert, values: ResolutionFormValues) =>
+    resolveComplaint(
+      alert.id,
+      values.resolutionNotes,
+      values.actionTaken,
+      currentOfficer.name,
+      {
+        outcome: values.outcome,
+        timeSpentMinutes: values.timeSpentMinutes,
+        followUpRequired: values.followUpRequired,
+        ...(values.followUpRequired && { followUpNotes: values.followUpNotes }),
+      }
+    );
+
+  const handleResolve = async (values: ResolutionFormValues) => {
+    if (resolveTargets.length === 0) return;
+
+    if (resolveTargets.length > 1) {
+      setResolveDialog(false);
+      await runBulkAction("Resolve", resolveTargets, (alert) => canPerformAction(alert, "resolve"), (alert) =>
+        resolveWithValues(alert, values)
+      );
+      setResolveTargets([]);
+      return;
+    }
+
     try {
       setActionLoading(true);
-      const response = await resolveComplaint(
-        alertId,
-        "Complaint resolved by authority",
-        "Issue addressed and resolved",
-        "Police Department"
-      );
+      const response = await resolveWithValues(resolveTargets[0], values);
       
+      if (response.data || response.queued) {
+        toast({
+          title: response.queued ? "Saved offline" : "Success",
+          description: response.queued ? QUEUED_NOTICE : "Complaint resolved successfully",
+        });
+        setResolveDialog(false);
+        setResolveTargets([]);
+        loadComplaints(false);
+      } else if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to resolve complaint",
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleAssign = async (officer: Officer, notes: string) => {
+    if (assignTargets.length === 0) return;
+
+    const assignment = {
+      officerId: officer.id,
+      officerName: officer.name,
+      department: officer.department,
+      notes: notes.trim() || undefined,
+    };
+
+    if (assignTargets.length > 1) {
+      setAssignDialog(false);
+      await runBulkAction("Assign", assignTargets, (alert) => canPerformAction(alert, "assign"), (alert) =>
+        assignComplaint(alert.id, assignment, currentOfficer.name)
+      );
+      setAssignTargets([]);
+      return;
+    }
+
+    const [target] = assignTargets;
+    try {
+      setActionLoading(true);
+      const response = await assignComplaint(target.id, assignment, currentOfficer.name);
+
       if (response.data) {
         toast({
           title: "Success",
-          description: "Complaint resolved successfully",
+          description: `Complaint ${target.complaintId} assigned to ${officer.name}`,
         });
+        setAssignDialog(false);
+        setAssignTargets([]);
         loadComplaints(false);
       } else if (response.error) {
         throw new Error(response.error);
@@ -316,7 +583,173 @@ export function AlertsNotifications() {
     } catch (err) {
       toast({
         title: "Error",
-        description: err instanceof Error ? err.message : "Failed to resolve complaint",
+        description: err instanceof Error ? err.message : "Failed to assign complaint",
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Bulk actions run one complaint at a time and refresh the list once at the end.
+  // Complaints that are not eligible for the action are reported as skipped.
+  const runBulkAction = async (
+    action: string,
+    targets: Alert[],
+    isEligible: (alert: Alert) => boolean,
+    perform: (alert: Alert) => Promise<{ data?: unknown; error?: string; queued?: boolean }>
+  ) => {
+    const results: BulkActionResult[] = [];
+
+    setActionLoading(true);
+    for (const alert of targets) {
+      const label = `${alert.complaintId} • ${alert.touristName}`;
+      if (!isEligible(alert)) {
+        results.push({ id: alert.id, label, outcome: "skipped", message: `Not applicable while ${alert.status}` });
+        continue;
+      }
+
+      try {
+        const response = await perform(alert);
+        if (response.error) throw new Error(response.error);
+        results.push({
+          id: alert.id,
+          label,
+          outcome: "success",
+          ...(response.queued && { message: "Queued offline" }),
+        });
+      } catch (err) {
+        results.push({
+          id: alert.id,
+          label,
+          outcome: "failed",
+          message: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    }
+    setActionLoading(false);
+
+    // Keep failed items selected so they can be retried
+    setSelectedIds(new Set(results.filter((result) => result.outcome === "failed").map((result) => result.id)));
+    setBulkSummary({ action, results });
+    loadComplaints(false);
+    loadStats();
+  };
+
+  const selectedAlerts = alerts.filter((alert) => selectedIds.has(alert.id));
+  const allOnPageSelected = alerts.length > 0 && selectedAlerts.length === alerts.length;
+
+  const toggleSelected = (alertId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(alertId);
+      else next.delete(alertId);
+      return next;
+    });
+  };
+
+  // Card buttons and triage keys both go through here
+  const performAction = (alert: Alert, action: ComplaintAction) => {
+    if (!canPerformAction(alert, action)) return;
+
+    switch (action) {
+      case "acknowledge":
+        handleAcknowledge(alert.id);
+        break;
+      case "resolve":
+        setResolveTargets([alert]);
+        setResolveDialog(true);
+        break;
+      case "escalate":
+        setSelectedAlert(alert);
+        setEscalationDialog(true);
+        break;
+      case "message":
+        setSelectedAlert(alert);
+        setCommunicationDialog(true);
+        break;
+      case "assign":
+        setAssignTargets([alert]);
+        setAssignDialog(true);
+        break;
+      case "reopen":
+        setSelectedAlert(alert);
+        setReopenDialog(true);
+        break;
+      case "reclassify":
+        setSelectedAlert(alert);
+        setReclassifyDialog(true);
+        break;
+    }
+  };
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(alerts.map((alert) => alert.id)) : new Set());
+  };
+
+  const handleBulkAcknowledge = () =>
+    runBulkAction("Acknowledge", selectedAlerts, (alert) => canPerformAction(alert, "acknowledge"), (alert) =>
+      acknowledgeComplaint(alert.id, currentOfficer.name)
+    );
+
+  const handleBulkMessage = async () => {
+    if (!bulkMessage.trim()) return;
+    setBulkMessageDialog(false);
+    await runBulkAction("Message", selectedAlerts, (alert) => canPerformAction(alert, "message"), (alert) =>
+      addCommunication(alert.id, bulkMessage, currentOfficer.name)
+    );
+    setBulkMessage("");
+  };
+
+  const handleSlaPolicyChange = async (saving: Promise<string | null>) => {
+    const saveError = await saving;
+    toast(
+      saveError
+        ? { title: "Error", description: saveError, variant: "destructive" }
+        : { title: "SLA targets updated", description: "The new targets apply to every officer" }
+    );
+    if (!saveError) loadStats();
+  };
+
+  const openMergeDialog = (candidates: Alert[]) => {
+    setMergeCandidates(
+      [...candidates].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    );
+    setMergeDialog(true);
+  };
+
+  const handleMerge = async (primary: Alert, duplicates: Alert[], notes: string) => {
+    try {
+      setActionLoading(true);
+      const response = await mergeComplaints(
+        primary.id,
+        duplicates.map((alert) => alert.id),
+        currentOfficer.name,
+        notes || undefined
+      );
+
+      if (response.data) {
+        const { communicationsMerged } = response.data.complaint;
+        toast({
+          title: "Complaints merged",
+          description: `${duplicates.length} duplicate${duplicates.length > 1 ? "s" : ""} linked to ${primary.complaintId}${
+            communicationsMerged ? `, ${communicationsMerged} message${communicationsMerged > 1 ? "s" : ""} carried over` : ""
+          }`,
+        });
+        setMergeDialog(false);
+        setSelectedIds((prev) => {
+          const next = new Set(prev);
+          duplicates.forEach((alert) => next.delete(alert.id));
+          return next;
+        });
+        loadComplaints(false);
+      } else if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to merge complaints",
         variant: "destructive",
       });
     } finally {
@@ -324,24 +757,29 @@ export function AlertsNotifications() {
     }
   };
 
-  const handleEscalateToFIR = async () => {
-    if (!selectedAlert || !escalationNotes.trim()) return;
+  const handleEscalateToFIR = async ({ firNumber, escalationNotes, details }: FirEscalationSubmission) => {
+    if (!selectedAlert) return;
 
     try {
       setActionLoading(true);
       const response = await escalateToFIR(
         selectedAlert.id,
         escalationNotes,
-        "Police Department"
+        currentOfficer.name,
+        firNumber,
+        details
       );
       
-      if (response.data) {
+      if (response.queued) {
+        toast({ title: "Saved offline", description: `FIR ${firNumber}: ${QUEUED_NOTICE}` });
+        setEscalationDialog(false);
+        setSelectedAlert(null);
+      } else if (response.data) {
         toast({
           title: "Success",
           description: `Complaint escalated to FIR: ${response.data.complaint.firNumber}`,
         });
         setEscalationDialog(false);
-        setEscalationNotes("");
         setSelectedAlert(null);
         loadComplaints(false);
       } else if (response.error) {
@@ -358,6 +796,139 @@ export function AlertsNotifications() {
     }
   };
 
+  const handleReopen = async (reason: string) => {
+    if (!selectedAlert) return;
+
+    try {
+      setActionLoading(true);
+      const response = await reopenComplaint(selectedAlert.id, reason, currentOfficer.name);
+
+      if (response.data) {
+        toast({
+          title: "Complaint reopened",
+          description: `${selectedAlert.complaintId} is back in the active queue`,
+        });
+        setReopenDialog(false);
+        setSelectedAlert(null);
+        loadComplaints(false);
+      } else if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to reopen complaint",
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReclassify = async (severity: Alert["severity"], reason: string) => {
+    if (!selectedAlert) return;
+
+    try {
+      setActionLoading(true);
+      const response = await reclassifyComplaint(selectedAlert.id, severity, reason, currentOfficer.name);
+
+      if (response.data) {
+        toast({
+          title: "Severity updated",
+          description: `${selectedAlert.complaintId} reclassified from ${selectedAlert.severity} to ${severity}`,
+        });
+        setReclassifyDialog(false);
+        setSelectedAlert(null);
+        loadComplaints(false);
+      } else if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to reclassify complaint",
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const anyDialogOpen =
+    escalationDialog ||
+    communicationDialog ||
+    detailSheet ||
+    assignDialog ||
+    resolveDialog ||
+    mergeDialog ||
+    reopenDialog ||
+    reclassifyDialog ||
+    bulkMessageDialog ||
+    bulkSummary !== null ||
+    slaDialog ||
+    triageHelp;
+
+  const focusedAlert = triageMode ? visibleAlerts.find((alert) => alert.id === focusedId) ?? null : null;
+
+  // Keep the focus on a visible alert while triaging
+  useEffect(() => {
+    if (!triageMode) return;
+    if (!focusedId || !visibleAlerts.some((alert) => alert.id === focusedId)) {
+      setFocusedId(visibleAlerts[0]?.id ?? null);
+    }
+  }, [triageMode, focusedId, visibleAlerts]);
+
+  useEffect(() => {
+    if (focusedId) cardRefs.current.get(focusedId)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focusedId]);
+
+  triageKeyRef.current = (event: KeyboardEvent) => {
+    if (!triageMode || anyDialogOpen) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+    const index = visibleAlerts.findIndex((alert) => alert.id === focusedId);
+    const moveFocus = (offset: number) => {
+      const next = visibleAlerts[Math.min(Math.max(index + offset, 0), visibleAlerts.length - 1)];
+      if (next) setFocusedId(next.id);
+    };
+
+    const key = event.key;
+    if (key === "j" || key === "ArrowDown") moveFocus(1);
+    else if (key === "k" || key === "ArrowUp") moveFocus(-1);
+    else if (key === "?") setTriageHelp(true);
+    else if (key === "Escape") setTriageMode(false);
+    else if (!focusedAlert) return;
+    else if (key === "Enter" || key === "v") {
+      setDetailAlert(focusedAlert);
+      setDetailSheet(true);
+    } else if (key === "x") {
+      toggleSelected(focusedAlert.id, !selectedIds.has(focusedAlert.id));
+    } else if (TRIAGE_ACTION_KEYS[key]) {
+      const action = TRIAGE_ACTION_KEYS[key];
+      if (actionLoading) return;
+      if (canPerformAction(focusedAlert, action)) {
+        performAction(focusedAlert, action);
+      } else {
+        toast({
+          title: `${ACTION_LABELS[action]} not available`,
+          description: `${focusedAlert.complaintId} is ${focusedAlert.status}`,
+        });
+      }
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => triageKeyRef.current(event);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   const handleAddCommunication = async () => {
     if (!selectedAlert || !communicationMessage.trim()) return;
 
@@ -366,13 +937,13 @@ export function AlertsNotifications() {
       const response = await addCommunication(
         selectedAlert.id,
         communicationMessage,
-        "Police Department"
+        currentOfficer.name
       );
       
-      if (response.data) {
+      if (response.data || response.queued) {
         toast({
-          title: "Success",
-          description: "Message sent successfully",
+          title: response.queued ? "Saved offline" : "Success",
+          description: response.queued ? QUEUED_NOTICE : "Message sent successfully",
         });
         setCommunicationDialog(false);
         setCommunicationMessage("");
@@ -428,6 +999,24 @@ export function AlertsNotifications() {
             <p className="text-xs text-muted-foreground">This week</p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Avg Response Time</CardTitle>
+            <Timer className="w-4 h-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">
+              {averageResponseTime != null ? `${averageResponseTime} min` : "N/A"}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {slaComplianceRate != null
+                ? `${slaComplianceRate}% acknowledged within SLA`
+                : "No acknowledgements yet"}
+              {breachingCount > 0 && ` • ${breachingCount} breaching now`}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Controls */}
@@ -450,67 +1039,22 @@ export function AlertsNotifications() {
             Auto Refresh {autoRefresh ? "ON" : "OFF"}
           </Button>
         </div>
-        <div className="text-sm text-muted-foreground">
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <StreamStatusBadge state={streamState} />
           Last updated: {lastRefresh.toLocaleTimeString()}
         </div>
       </div>
 
       {/* Filters and Search */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Filter className="w-5 h-5" />
-            Alert Filters
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-wrap gap-4">
-            <div className="flex-1 min-w-64">
-              <Label htmlFor="search">Search Alerts</Label>
-              <div className="relative">
-                <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="search"
-                  placeholder="Search by tourist name, ID, location..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-            </div>
-            <div>
-              <Label htmlFor="status-filter">Status</Label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="w-40">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="active">Active</SelectItem>
-                  <SelectItem value="acknowledged">Acknowledged</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
-                  <SelectItem value="escalated">Escalated</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <Label htmlFor="severity-filter">Severity</Label>
-              <Select value={severityFilter} onValueChange={setSeverityFilter}>
-                <SelectTrigger className="w-40">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Severity</SelectItem>
-                  <SelectItem value="critical">Critical</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <AlertFilterBar
+        filters={filters}
+        onChange={updateFilters}
+        breachingCount={breachingCount}
+        onOpenSlaSettings={() => setSlaDialog(true)}
+        presets={presets}
+        onSavePreset={(name) => savePreset(name, filters)}
+        onDeletePreset={deletePreset}
+      />
 
       {/* Error State */}
       {error && (
@@ -530,10 +1074,30 @@ export function AlertsNotifications() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
+              <Checkbox
+                checked={allOnPageSelected}
+                onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                disabled={alerts.length === 0}
+                aria-label="Select all alerts on this page"
+              />
               <Bell className="w-5 h-5" />
               Alert Management ({pagination.total})
             </CardTitle>
             <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant={triageMode ? "default" : "outline"}
+                onClick={() => setTriageMode(!triageMode)}
+                title="Navigate with j/k and act with single keys"
+              >
+                <Keyboard className="w-4 h-4 mr-1" />
+                Triage Mode
+              </Button>
+              {triageMode && (
+                <Button size="icon" variant="ghost" onClick={() => setTriageHelp(true)} title="Keyboard shortcuts (?)">
+                  <HelpCircle className="w-4 h-4" />
+                </Button>
+              )}
               <Select value={pageSize.toString()} onValueChange={(value) => setPageSize(Number(value))}>
                 <SelectTrigger className="w-20">
                   <SelectValue />
@@ -548,6 +1112,57 @@ export function AlertsNotifications() {
               <span className="text-sm text-muted-foreground">per page</span>
             </div>
           </div>
+          {selectedAlerts.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-muted/50 p-2 mt-2">
+              <span className="text-sm font-medium px-2">{selectedAlerts.length} selected</span>
+              <Button size="sm" variant="outline" onClick={handleBulkAcknowledge} disabled={actionLoading}>
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Acknowledge
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setResolveTargets(selectedAlerts)
+                  setResolveDialog(true)
+                }}
+                disabled={actionLoading}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Resolve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setAssignTargets(selectedAlerts)
+                  setAssignDialog(true)
+                }}
+                disabled={actionLoading}
+              >
+                <UserCheck className="w-4 h-4 mr-1" />
+                Assign
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setBulkMessageDialog(true)} disabled={actionLoading}>
+                <MessageSquare className="w-4 h-4 mr-1" />
+                Message
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => openMergeDialog(selectedAlerts.filter((alert) => alert.status !== "resolved"))}
+                disabled={actionLoading || selectedAlerts.filter((alert) => alert.status !== "resolved").length < 2}
+              >
+                <GitMerge className="w-4 h-4 mr-1" />
+                Merge
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => toggleSelectAll(false)} disabled={actionLoading}>
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+              {actionLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -555,59 +1170,143 @@ export function AlertsNotifications() {
               <Loader2 className="w-6 h-6 animate-spin" />
               <span className="ml-2">Loading alerts...</span>
             </div>
-          ) : filteredAlerts.length === 0 ? (
+          ) : visibleAlerts.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               No alerts found matching your criteria
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredAlerts.map((alert) => (
-                <div key={alert.id} className="border border-border rounded-lg p-4 hover:bg-muted/50 transition-colors">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex items-start gap-3 flex-1">
-                      <div className="mt-1">{getTypeIcon(alert.type)}</div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-2">
-                          <h4 className="font-semibold text-card-foreground">{alert.touristName}</h4>
-                          <Badge className={getSeverityColor(alert.severity)}>{alert.severity.toUpperCase()}</Badge>
-                          <Badge variant="outline" className={getStatusColor(alert.status)}>
-                            {alert.status.toUpperCase()}
-                          </Badge>
-                          {alert.isEmergencySOS && (
-                            <Badge variant="destructive" className="text-xs">
-                              EMERGENCY SOS
+              {visibleAlerts.map((alert) => {
+                const duplicateGroup = duplicateGroupById.get(alert.id)
+                const priorityScore = priorityScores.get(alert.id)
+                return (
+                  <div
+                    key={alert.id}
+                    ref={(el) => {
+                      if (el) cardRefs.current.set(alert.id, el)
+                      else cardRefs.current.delete(alert.id)
+                    }}
+                    onClick={() => triageMode && setFocusedId(alert.id)}
+                    className={`border border-border rounded-lg p-4 hover:bg-muted/50 transition-colors ${
+                      duplicateGroup ? "border-l-4 border-l-amber-500" : ""
+                    } ${focusedAlert?.id === alert.id ? "ring-2 ring-primary bg-muted/50" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3 flex-1">
+                        <Checkbox
+                          className="mt-1"
+                          checked={selectedIds.has(alert.id)}
+                          onCheckedChange={(checked) => toggleSelected(alert.id, checked === true)}
+                          aria-label={`Select complaint ${alert.complaintId}`}
+                        />
+                        <div className="mt-1">{getTypeIcon(alert.type)}</div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-2">
+                            <h4 className="font-semibold text-card-foreground">{alert.touristName}</h4>
+                            <Badge className={getSeverityColor(alert.severity)}>{alert.severity.toUpperCase()}</Badge>
+                            <Badge variant="outline" className={getStatusColor(alert.status)}>
+                              {alert.status.toUpperCase()}
                             </Badge>
-                          )}
-                        </div>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-muted-foreground mb-2">
-                          <div className="flex items-center gap-1">
-                            <User className="w-3 h-3" />
-                            ID: {alert.complaintId}
+                            {alert.isEmergencySOS && (
+                              <Badge variant="destructive" className="text-xs">
+                                EMERGENCY SOS
+                              </Badge>
+                            )}
+                            <SlaCountdownBadge alert={alert} policy={slaPolicy} now={now} />
+                            {priorityScore && <PriorityScoreBadge score={priorityScore} />}
+                            {alert.supervisorEscalatedAt && (
+                              <Badge variant="outline" className="text-xs text-purple-700 dark:text-purple-300">
+                                <ArrowUpCircle className="w-3 h-3 mr-1" />
+                                Supervisor
+                              </Badge>
+                            )}
+                            {duplicateGroup && (
+                              <Badge variant="outline" className="text-xs text-amber-700 dark:text-amber-300">
+                                <Copy className="w-3 h-3 mr-1" />
+                                {duplicateGroup.primary.id === alert.id
+                                  ? `${duplicateGroup.duplicates.length} possible duplicate${duplicateGroup.duplicates.length > 1 ? "s" : ""}`
+                                  : `Possible duplicate of ${duplicateGroup.primary.complaintId}`}
+                              </Badge>
+                            )}
+                            {alert.mergedInto && (
+                              <Badge variant="outline" className="text-xs text-muted-foreground">
+                                <GitMerge className="w-3 h-3 mr-1" />
+                                Merged duplicate
+                              </Badge>
+                            )}
+                            {!!alert.mergedComplaintIds?.length && (
+                              <Badge variant="outline" className="text-xs">
+                                <GitMerge className="w-3 h-3 mr-1" />
+                                {alert.mergedComplaintIds.length} merged
+                              </Badge>
+                            )}
+                            {queuedByComplaint.get(alert.id)?.map((action) => (
+                              <Badge
+                                key={action.id}
+                                variant="outline"
+                                className={`text-xs ${action.state === "pending" ? "text-sky-700 dark:text-sky-300" : "text-destructive"}`}
+                              >
+                                <CloudOff className="w-3 h-3 mr-1" />
+                                {QUEUED_ACTION_LABELS[action.type]}:{" "}
+                                {action.state === "pending" ? "pending sync" : action.state === "conflict" ? "sync conflict" : "sync failed"}
+                              </Badge>
+                            ))}
                           </div>
-                          <div className="flex items-center gap-1">
-                            <MapPin className="w-3 h-3" />
-                            {alert.location}
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-muted-foreground mb-2">
+                            <div className="flex items-center gap-1">
+                              <User className="w-3 h-3" />
+                              ID: {alert.complaintId}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <MapPin className="w-3 h-3" />
+                              {alert.location}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {formatTimestamp(alert.timestamp)}
+                            </div>
                           </div>
-                          <div className="flex items-center gap-1">
-                            <Clock className="w-3 h-3" />
-                            {formatTimestamp(alert.timestamp)}
+                          <p className="text-sm text-card-foreground mb-2">{alert.description}</p>
+                          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                            <span>Contact: {alert.contactInfo}</span>
+                            <span>Reported by: {alert.reportedBy}</span>
+                            {alert.assignedOfficer && (
+                              <span>
+                                Assigned to: {alert.assignedOfficer}
+                                {alert.assignedDepartment && ` (${alert.assignedDepartment})`}
+                              </span>
+                            )}
                           </div>
                         </div>
-                        <p className="text-sm text-card-foreground mb-2">{alert.description}</p>
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <span>Contact: {alert.contactInfo}</span>
-                          <span>Reported by: {alert.reportedBy}</span>
-                          {alert.assignedOfficer && <span>Assigned to: {alert.assignedOfficer}</span>}
-                        </div>
                       </div>
-                    </div>
-                    <div className="flex flex-col gap-2">
-                      {alert.status === "active" && (
-                        <>
-                          <Button 
-                            size="sm" 
-                            variant="outline" 
-                            onClick={() => handleAcknowledge(alert.id)}
+                      <div className="flex flex-col gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            setDetailAlert(alert)
+                            setDetailSheet(true)
+                          }}
+                        >
+                          <Eye className="w-4 h-4 mr-1" />
+                          View Details
+                        </Button>
+                        {duplicateGroup?.primary.id === alert.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openMergeDialog([duplicateGroup.primary, ...duplicateGroup.duplicates])}
+                            disabled={actionLoading}
+                          >
+                            <GitMerge className="w-4 h-4 mr-1" />
+                            Merge Duplicates
+                          </Button>
+                        )}
+                        {canPerformAction(alert, "acknowledge") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => performAction(alert, "acknowledge")}
                             disabled={actionLoading}
                           >
                             {actionLoading ? (
@@ -617,89 +1316,94 @@ export function AlertsNotifications() {
                             )}
                             Acknowledge
                           </Button>
+                        )}
+                        {canPerformAction(alert, "resolve") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => performAction(alert, "resolve")}
+                            disabled={actionLoading}
+                          >
+                            {actionLoading ? (
+                              <Loader2 className="w-4 h-4 animate-spin mr-1" />
+                            ) : (
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                            )}
+                            Mark Resolved
+                          </Button>
+                        )}
+                        {canPerformAction(alert, "escalate") && (
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => {
-                              setSelectedAlert(alert)
-                              setEscalationDialog(true)
-                            }}
+                            onClick={() => performAction(alert, "escalate")}
                             disabled={actionLoading}
                           >
                             <FileText className="w-4 h-4 mr-1" />
                             Escalate to FIR
                           </Button>
+                        )}
+                        {canPerformAction(alert, "message") && (
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => {
-                              setSelectedAlert(alert)
-                              setCommunicationDialog(true)
-                            }}
+                            onClick={() => performAction(alert, "message")}
                             disabled={actionLoading}
                           >
                             <MessageSquare className="w-4 h-4 mr-1" />
                             Send Message
                           </Button>
-                        </>
-                      )}
-                      {alert.status === "acknowledged" && (
-                        <>
-                          <Button 
-                            size="sm" 
-                            variant="outline" 
-                            onClick={() => handleResolve(alert.id)}
+                        )}
+                        {canPerformAction(alert, "assign") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => performAction(alert, "assign")}
                             disabled={actionLoading}
                           >
-                            {actionLoading ? (
-                              <Loader2 className="w-4 h-4 animate-spin mr-1" />
-                            ) : (
-                              <CheckCircle className="w-4 h-4 mr-1" />
-                            )}
-                            Mark Resolved
+                            <UserCheck className="w-4 h-4 mr-1" />
+                            {alert.assignedOfficer ? "Reassign" : "Assign"}
                           </Button>
+                        )}
+                        {canPerformAction(alert, "reclassify") && (
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => {
-                              setSelectedAlert(alert)
-                              setEscalationDialog(true)
-                            }}
+                            onClick={() => performAction(alert, "reclassify")}
                             disabled={actionLoading}
                           >
-                            <FileText className="w-4 h-4 mr-1" />
-                            Escalate to FIR
+                            <Gauge className="w-4 h-4 mr-1" />
+                            Reclassify
                           </Button>
+                        )}
+                        {canPerformAction(alert, "reopen") && (
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => {
-                              setSelectedAlert(alert)
-                              setCommunicationDialog(true)
-                            }}
+                            onClick={() => performAction(alert, "reopen")}
                             disabled={actionLoading}
                           >
-                            <MessageSquare className="w-4 h-4 mr-1" />
-                            Send Message
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Reopen
                           </Button>
-                        </>
-                      )}
-                      {alert.status === "resolved" && (
-                        <Badge variant="outline" className="text-green-600">
-                          <CheckCircle className="w-3 h-3 mr-1" />
-                          Resolved
-                        </Badge>
-                      )}
-                      {alert.status === "escalated" && (
-                        <Badge variant="outline" className="text-purple-600">
-                          <FileText className="w-3 h-3 mr-1" />
-                          FIR Created
-                        </Badge>
-                      )}
+                        )}
+                        {alert.status === "resolved" && (
+                          <Badge variant="outline" className="text-green-600">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Resolved
+                          </Badge>
+                        )}
+                        {alert.status === "escalated" && (
+                          <Badge variant="outline" className="text-purple-600">
+                            <FileText className="w-3 h-3 mr-1" />
+                            FIR Created
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                )
+              })}
             </div>
           )}
         </CardContent>
@@ -738,54 +1442,127 @@ export function AlertsNotifications() {
       )}
 
       {/* Escalation Dialog */}
-      <Dialog open={escalationDialog} onOpenChange={setEscalationDialog}>
+      <FirEscalationDialog
+        alert={selectedAlert}
+        open={escalationDialog}
+        onOpenChange={setEscalationDialog}
+        officerName={currentOfficer.name}
+        submitting={actionLoading}
+        onSubmit={handleEscalateToFIR}
+      />
+
+      {/* Merge Dialog */}
+      <MergeComplaintsDialog
+        candidates={mergeCandidates}
+        open={mergeDialog}
+        onOpenChange={setMergeDialog}
+        submitting={actionLoading}
+        onConfirm={handleMerge}
+      />
+
+      {/* Reopen Dialog */}
+      <ReopenComplaintDialog
+        alert={selectedAlert}
+        open={reopenDialog}
+        onOpenChange={setReopenDialog}
+        submitting={actionLoading}
+        onConfirm={handleReopen}
+      />
+
+      {/* Reclassify Dialog */}
+      <ReclassifySeverityDialog
+        alert={selectedAlert}
+        open={reclassifyDialog}
+        onOpenChange={setReclassifyDialog}
+        submitting={actionLoading}
+        onConfirm={handleReclassify}
+      />
+
+      {/* Resolution Dialog */}
+      <ResolveComplaintDialog
+        open={resolveDialog}
+        onOpenChange={setResolveDialog}
+        description={
+          resolveTargets.length > 1
+            ? `The same resolution is recorded for each acknowledged complaint among the ${resolveTargets.length} selected`
+            : `Record how complaint ${resolveTargets[0]?.complaintId ?? ""} was resolved`
+        }
+        submitting={actionLoading}
+        onSubmit={handleResolve}
+      />
+
+      {/* Assignment Dialog */}
+      <AssignOfficerDialog
+        open={assignDialog}
+        onOpenChange={setAssignDialog}
+        description={
+          assignTargets.length > 1
+            ? `Dispatch an officer to ${assignTargets.length} selected complaints`
+            : `Dispatch an officer to complaint ${assignTargets[0]?.complaintId ?? ""}`
+        }
+        currentOfficerName={assignTargets.length === 1 ? assignTargets[0].assignedOfficer : undefined}
+        submitting={actionLoading}
+        onConfirm={handleAssign}
+      />
+
+      {/* Bulk Message Dialog */}
+      <Dialog open={bulkMessageDialog} onOpenChange={setBulkMessageDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Escalate to FIR</DialogTitle>
+            <DialogTitle>Message {selectedAlerts.length} Tourists</DialogTitle>
             <DialogDescription>
-              This will create a formal FIR (First Information Report) for complaint {selectedAlert?.complaintId}
+              The same message is added to each selected complaint
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <Label htmlFor="escalation-notes">Additional Notes *</Label>
-              <Textarea
-                id="escalation-notes"
-                placeholder="Provide additional details for the FIR..."
-                value={escalationNotes}
-                onChange={(e) => setEscalationNotes(e.target.value)}
-                rows={4}
-                required
-              />
-            </div>
-            {selectedAlert && (
-              <div className="p-3 bg-muted rounded-lg">
-                <p className="text-sm font-medium">Alert Details:</p>
-                <p className="text-sm text-muted-foreground">Tourist: {selectedAlert.touristName}</p>
-                <p className="text-sm text-muted-foreground">Location: {selectedAlert.location}</p>
-                <p className="text-sm text-muted-foreground">Description: {selectedAlert.description}</p>
-              </div>
-            )}
+          <div>
+            <Label htmlFor="bulk-message">Message *</Label>
+            <Textarea
+              id="bulk-message"
+              placeholder="Type your message to the tourists..."
+              value={bulkMessage}
+              onChange={(e) => setBulkMessage(e.target.value)}
+              rows={4}
+            />
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setEscalationDialog(false)} disabled={actionLoading}>
+            <Button variant="outline" onClick={() => setBulkMessageDialog(false)}>
               Cancel
             </Button>
-            <Button 
-              onClick={handleEscalateToFIR} 
-              disabled={!escalationNotes.trim() || actionLoading}
-            >
-              {actionLoading ? (
-                <Loader2 className="w-4 h-4 animate-spin mr-2" />
-              ) : (
-                <FileText className="w-4 h-4 mr-2" />
-              )}
-              Create FIR
+            <Button onClick={handleBulkMessage} disabled={!bulkMessage.trim() || actionLoading}>
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Send to {selectedAlerts.length}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      {/* SLA Targets */}
+      <SlaPolicyDialog
+        open={slaDialog}
+        onOpenChange={setSlaDialog}
+        policy={slaPolicy}
+        onSave={(policy) => handleSlaPolicyChange(saveSlaPolicy(policy, currentOfficer.name))}
+        onReset={() => handleSlaPolicyChange(resetSlaPolicy(currentOfficer.name))}
+      />
+
+      {/* Triage Shortcuts */}
+      <TriageHelpDialog open={triageHelp} onOpenChange={setTriageHelp} />
+
+      {/* Bulk Action Summary */}
+      <BulkActionSummaryDialog
+        open={bulkSummary !== null}
+        onOpenChange={(open) => !open && setBulkSummary(null)}
+        action={bulkSummary?.action ?? ""}
+        results={bulkSummary?.results ?? []}
+      />
+
+      {/* Complaint Detail Sheet */}
+      <ComplaintDetailSheet
+        alert={detailAlert}
+        open={detailSheet}
+        onOpenChange={setDetailSheet}
+      />
+
       {/* Communication Dialog */}
       <Dialog open={communicationDialog} onOpenChange={setCommunicationDialog}>
         <DialogContent>
@@ -0,0 +1,194 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, Search, UserCheck, Briefcase } from "lucide-react"
+import { useAuthorityApi, type Officer } from "@/hooks/useAuthorityApi"
+
+interface AssignOfficerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  description: string;
+  currentOfficerName?: string;
+  submitting?: boolean;
+  onConfirm: (officer: Officer, notes: string) => void;
+}
+
+export function AssignOfficerDialog({
+  open,
+  onOpenChange,
+  description,
+  currentOfficerName,
+  submitting = false,
+  onConfirm,
+}: AssignOfficerDialogProps) {
+  const { fetchOfficerRoster } = useAuthorityApi();
+
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [rosterLoading, setRosterLoading] = useState(false);
+  const [rosterError, setRosterError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [showOffShift, setShowOffShift] = useState(false);
+  const [selectedOfficerId, setSelectedOfficerId] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  // Refresh the roster each time the dialog opens so shift and caseload are current
+  useEffect(() => {
+    if (!open) return;
+
+    const loadRoster = async () => {
+      setRosterLoading(true);
+      setRosterError(null);
+      const response = await fetchOfficerRoster();
+      if (response.data) {
+        setOfficers(response.data.officers);
+      } else {
+        setRosterError(response.error || "Failed to load officer roster");
+      }
+      setRosterLoading(false);
+    };
+
+    setSelectedOfficerId(null);
+    setNotes("");
+    setSearch("");
+    loadRoster();
+  }, [open, fetchOfficerRoster]);
+
+  // On-shift officers first, lightest caseload first
+  const visibleOfficers = useMemo(() => {
+    const term = search.toLowerCase();
+    return officers
+      .filter((officer) => showOffShift || officer.onShift)
+      .filter((officer) =>
+        !term ||
+        [officer.name, officer.department, officer.badgeNumber].some((field) => field?.toLowerCase().includes(term))
+      )
+      .sort((a, b) => Number(b.onShift) - Number(a.onShift) || a.activeCases - b.activeCases);
+  }, [officers, search, showOffShift]);
+
+  const selectedOfficer = officers.find((officer) => officer.id === selectedOfficerId) || null;
+
+  const getCaseloadColor = (cases: number) => {
+    if (cases >= 8) return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+    if (cases >= 4) return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200";
+    return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Assign Officer</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {currentOfficerName && (
+            <p className="text-sm text-muted-foreground">
+              Currently assigned to: <span className="font-medium text-card-foreground">{currentOfficerName}</span>
+            </p>
+          )}
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, badge or department..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-off-shift" checked={showOffShift} onCheckedChange={setShowOffShift} />
+              <Label htmlFor="show-off-shift" className="text-sm">Off shift</Label>
+            </div>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {rosterLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                <span className="ml-2 text-sm">Loading roster...</span>
+              </div>
+            ) : rosterError ? (
+              <p className="text-sm text-red-600 py-4 text-center">{rosterError}</p>
+            ) : visibleOfficers.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No officers match</p>
+            ) : (
+              visibleOfficers.map((officer) => (
+                <button
+                  key={officer.id}
+                  type="button"
+                  onClick={() => setSelectedOfficerId(officer.id)}
+                  className={`w-full flex items-center justify-between gap-3 rounded-lg border p-3 text-left transition-colors ${
+                    selectedOfficerId === officer.id
+                      ? "border-primary bg-primary/5"
+                      : "border-border hover:bg-muted/50"
+                  }`}
+                >
+                  <div>
+                    <p className="text-sm font-medium">
+                      {officer.rank ? `${officer.rank} ` : ""}{officer.name}
+                      {officer.badgeNumber && (
+                        <span className="text-xs text-muted-foreground ml-2">#{officer.badgeNumber}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{officer.department}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={officer.onShift ? "default" : "secondary"} className="text-xs">
+                      {officer.onShift ? "On shift" : "Off shift"}
+                    </Badge>
+                    <Badge variant="outline" className={`text-xs ${getCaseloadColor(officer.activeCases)}`}>
+                      <Briefcase className="w-3 h-3 mr-1" />
+                      {officer.activeCases}
+                    </Badge>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="assignment-notes">Dispatch Notes</Label>
+            <Textarea
+              id="assignment-notes"
+              placeholder="Instructions for the assigned officer..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => selectedOfficer && onConfirm(selectedOfficer, notes)}
+            disabled={!selectedOfficer || submitting}
+          >
+            {submitting ? (
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            ) : (
+              <UserCheck className="w-4 h-4 mr-2" />
+            )}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { CheckCircle, MinusCircle, XCircle } from "lucide-react"
+
+export interface BulkActionResult {
+  id: string;
+  label: string;
+  outcome: "success" | "failed" | "skipped";
+  message?: string;
+}
+
+interface BulkActionSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: string;
+  results: BulkActionResult[];
+}
+
+export function BulkActionSummaryDialog({ open, onOpenChange, action, results }: BulkActionSummaryDialogProps) {
+  const succeeded = results.filter((result) => result.outcome === "success").length;
+  const failed = results.filter((result) => result.outcome === "failed").length;
+  const skipped = results.filter((result) => result.outcome === "skipped").length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Bulk {action}: Results</DialogTitle>
+          <DialogDescription>
+            {succeeded} succeeded, {failed} failed, {skipped} skipped
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {results.map((result) => (
+            <div key={result.id} className="flex items-start justify-between gap-3 rounded-lg border border-border p-2">
+              <div className="flex items-start gap-2">
+                {result.outcome === "success" ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600" />
+                ) : result.outcome === "failed" ? (
+                  <XCircle className="w-4 h-4 mt-0.5 text-red-600" />
+                ) : (
+                  <MinusCircle className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="text-sm font-medium">{result.label}</p>
+                  {result.message && <p className="text-xs text-muted-foreground">{result.message}</p>}
+                </div>
+              </div>
+              <Badge variant={result.outcome === "failed" ? "destructive" : "outline"} className="text-xs">
+                {result.outcome.toUpperCase()}
+              </Badge>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
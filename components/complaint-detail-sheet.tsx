@@ -0,0 +1,403 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Separator } from "@/components/ui/separator"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { toast } from "@/components/ui/use-toast"
+import { MiniMap, type MiniMapMarker } from "@/components/mini-map"
+import { NotifyContactsDialog } from "@/components/notify-contacts-dialog"
+import {
+  Clock,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Phone,
+  User,
+  Loader2,
+  Send,
+  History,
+  Users,
+} from "lucide-react"
+import {
+  useAuthorityApi,
+  type Alert,
+  type ComplaintCommunication,
+  type ComplaintDetails,
+} from "@/hooks/useAuthorityApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { useTouristManagementApi, type TouristProfile } from "@/hooks/useTouristManagementApi"
+import { QUEUED_NOTICE } from "@/lib/complaint-outbox"
+import { reasonForAlert, type ContactNotificationRecord } from "@/lib/contact-notifications"
+import { canPerformAction, getTransitionError } from "@/lib/complaint-state-machine"
+
+interface ComplaintDetailSheetProps {
+  alert: Alert | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: () => void;
+}
+
+export function ComplaintDetailSheet({ alert, open, onOpenChange, onUpdated }: ComplaintDetailSheetProps) {
+  const { fetchComplaintDetails, addCommunication, recordContactNotification } = useAuthorityApi();
+  const { fetchTouristProfile } = useTouristManagementApi();
+  const currentOfficer = useCurrentOfficer();
+
+  const [details, setDetails] = useState<ComplaintDetails | null>(null);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [sending, setSending] = useState(false);
+  const [notifyTourist, setNotifyTourist] = useState<TouristProfile | null>(null);
+  const [loadingContacts, setLoadingContacts] = useState(false);
+
+  // Load the full complaint whenever the sheet opens for an alert
+  useEffect(() => {
+    if (!open || !alert) return;
+
+    let cancelled = false;
+    const loadDetails = async () => {
+      setDetailsLoading(true);
+      setDetailsError(null);
+      const response = await fetchComplaintDetails(alert.id);
+      if (cancelled) return;
+
+      if (response.data) {
+        setDetails(response.data.complaint);
+      } else {
+        setDetailsError(response.error || "Failed to load complaint details");
+      }
+      setDetailsLoading(false);
+    };
+
+    setDetails(null);
+    setReply("");
+    loadDetails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, alert, fetchComplaintDetails]);
+
+  // Fall back to the list card data until (or if) the details arrive
+  const complaint: ComplaintDetails | null = details || alert;
+
+  const statusHistory = useMemo(() => {
+    if (!complaint) return [];
+    if (complaint.statusHistory?.length) {
+      return [...complaint.statusHistory].sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    }
+    return [{ status: "active" as const, changedBy: complaint.reportedBy, timestamp: complaint.timestamp }];
+  }, [complaint]);
+
+  const communications = useMemo(
+    () =>
+      [...(complaint?.communications || [])].sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      ),
+    [complaint]
+  );
+
+  const mapMarkers = useMemo<MiniMapMarker[]>(
+    () =>
+      complaint?.coordinates
+        ? [{ id: complaint.id, ...complaint.coordinates, label: complaint.location }]
+        : [],
+    [complaint?.id, complaint?.coordinates?.lat, complaint?.coordinates?.lng]
+  );
+
+  const handleSendReply = async () => {
+    if (!complaint || !reply.trim()) return;
+
+    try {
+      setSending(true);
+      const response = await addCommunication(complaint.id, reply, currentOfficer.name);
+
+      if (response.data || response.queued) {
+        const communication: ComplaintCommunication = response.data?.communication || {
+          from: currentOfficer.name,
+          message: reply,
+          timestamp: new Date().toISOString(),
+        };
+        setDetails((prev) => {
+          const base: ComplaintDetails | null = prev || alert;
+          return base ? { ...base, communications: [...(base.communications || []), communication] } : prev;
+        });
+        setReply("");
+        if (response.queued) toast({ title: "Saved offline", description: QUEUED_NOTICE });
+        onUpdated?.();
+      } else if (response.error) {
+        throw new Error(response.error);
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to send message",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleOpenNotifyContacts = async () => {
+    if (!complaint) return;
+
+    setLoadingContacts(true);
+    try {
+      const response = await fetchTouristProfile(complaint.touristId);
+      setNotifyTourist(response.tourist);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: "Failed to load the tourist's contacts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingContacts(false);
+    }
+  };
+
+  // The delivery log is kept on the complaint's own record, not in the tourist-facing thread
+  const handleRecordContactNotification = async (record: ContactNotificationRecord) => {
+    if (!complaint) return;
+
+    const response = await recordContactNotification(complaint.id, record);
+    if (response.error) {
+      throw new Error(`Messages were sent but could not be logged: ${response.error}`);
+    }
+    onUpdated?.();
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "active":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+      case "acknowledged":
+        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200";
+      case "resolved":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200";
+      case "escalated":
+        return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200";
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+    }
+  };
+
+  const formatDateTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            {complaint?.title || "Complaint"} {complaint && `• ${complaint.complaintId}`}
+          </SheetTitle>
+          <SheetDescription>
+            {complaint ? `Reported ${formatDateTime(complaint.timestamp)}` : "No complaint selected"}
+          </SheetDescription>
+          {complaint && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={getStatusColor(complaint.status)}>
+                {complaint.status.toUpperCase()}
+              </Badge>
+              <Badge variant="outline">{complaint.severity.toUpperCase()}</Badge>
+              {complaint.isEmergencySOS && (
+                <Badge variant="destructive" className="text-xs">
+                  EMERGENCY SOS
+                </Badge>
+              )}
+              {detailsLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            </div>
+          )}
+        </SheetHeader>
+
+        {complaint && (
+          <div className="space-y-6 px-4 pb-6">
+            {detailsError && (
+              <p className="text-sm text-red-600">
+                {detailsError}. Showing summary information only.
+              </p>
+            )}
+
+            <p className="text-sm text-card-foreground">{complaint.description}</p>
+
+            {/* Tourist contact */}
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Tourist</Label>
+              <div className="grid grid-cols-1 gap-2 text-sm text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  {complaint.touristName} ({complaint.touristId})
+                </div>
+                {complaint.touristPhone && (
+                  <div className="flex items-center gap-2">
+                    <Phone className="w-4 h-4" />
+                    <a href={`tel:${complaint.touristPhone}`} className="hover:underline">
+                      {complaint.touristPhone}
+                    </a>
+                  </div>
+                )}
+                {complaint.touristEmail && (
+                  <div className="flex items-center gap-2">
+                    <Mail className="w-4 h-4" />
+                    <a href={`mailto:${complaint.touristEmail}`} className="hover:underline">
+                      {complaint.touristEmail}
+                    </a>
+                  </div>
+                )}
+                <div>Contact: {complaint.contactInfo}</div>
+                <div>Reported by: {complaint.reportedBy}</div>
+                {complaint.assignedOfficer && <div>Assigned to: {complaint.assignedOfficer}</div>}
+              </div>
+              <Button size="sm" variant="outline" onClick={handleOpenNotifyContacts} disabled={loadingContacts}>
+                {loadingContacts ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Users className="w-4 h-4 mr-2" />
+                )}
+                Notify Contacts
+              </Button>
+            </div>
+
+            <Separator />
+
+            {/* Location */}
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Location</Label>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <MapPin className="w-4 h-4" />
+                {complaint.location}
+              </div>
+              {complaint.coordinates ? (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {complaint.coordinates.lat.toFixed(5)}, {complaint.coordinates.lng.toFixed(5)}
+                  </p>
+                  <MiniMap center={complaint.coordinates} markers={mapMarkers} />
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">No coordinates reported</p>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Status history */}
+            <div className="space-y-2">
+              <Label className="text-base font-semibold flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Status History
+              </Label>
+              <ol className="relative border-l border-border ml-2 space-y-3">
+                {statusHistory.map((change, index) => (
+                  <li key={`${change.status}-${change.timestamp}-${index}`} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={getStatusColor(change.status)}>
+                        {change.status.toUpperCase()}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatDateTime(change.timestamp)}
+                      </span>
+                    </div>
+                    {change.changedBy && (
+                      <p className="text-xs text-muted-foreground mt-1">by {change.changedBy}</p>
+                    )}
+                    {change.notes && <p className="text-sm mt-1">{change.notes}</p>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <Separator />
+
+            {/* Communication thread */}
+            <div className="space-y-3">
+              <Label className="text-base font-semibold flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                Communications ({communications.length})
+              </Label>
+              {communications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No messages exchanged yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {communications.map((communication, index) => {
+                    const fromTourist = communication.from === complaint.touristName;
+                    return (
+                      <div
+                        key={`${communication.timestamp}-${index}`}
+                        className={`flex ${fromTourist ? "justify-start" : "justify-end"}`}
+                      >
+                        <div
+                          className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                            fromTourist ? "bg-muted" : "bg-primary text-primary-foreground"
+                          }`}
+                        >
+                          <p className="text-xs font-medium opacity-80">{communication.from}</p>
+                          <p className="whitespace-pre-wrap">{communication.message}</p>
+                          <p className="text-[10px] opacity-70 mt-1">{formatDateTime(communication.timestamp)}</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {canPerformAction(complaint, "message") ? (
+                <div className="space-y-2">
+                  <Label htmlFor="detail-reply">Reply</Label>
+                  <Textarea
+                    id="detail-reply"
+                    placeholder="Type your message to the tourist..."
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    rows={3}
+                  />
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={handleSendReply} disabled={!reply.trim() || sending}>
+                      {sending ? (
+                        <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                      ) : (
+                        <Send className="w-4 h-4 mr-2" />
+                      )}
+                      Send
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {getTransitionError(complaint.status, "message")}. Reopen it to reply to the tourist.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+
+      {complaint && (
+        <NotifyContactsDialog
+          tourist={notifyTourist}
+          open={!!notifyTourist}
+          onOpenChange={(open) => !open && setNotifyTourist(null)}
+          defaultReason={reasonForAlert(complaint)}
+          location={complaint.location}
+          reference={complaint.complaintId}
+          onRecord={handleRecordContactNotification}
+        />
+      )}
+    </Sheet>
+  );
+}
@@ -0,0 +1,223 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "@/components/ui/use-toast"
+import { AlertTriangle, BellRing, CalendarClock, CheckCircle, Flag, Loader2, RefreshCw } from "lucide-react"
+import { useTouristManagementApi } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { useDocumentWatchlist } from "@/hooks/useDocumentWatchlist"
+import {
+  EXPIRY_WINDOW_OPTIONS,
+  formatDaysRemaining,
+  isOverstayFlagged,
+  type DocumentExpiry,
+} from "@/lib/document-expiry"
+import { getTouristDisplayName } from "@/lib/missing-person"
+
+type WatchlistFilter = "all" | "lapsed" | "expiring" | "overstay"
+
+const entryKey = (entry: DocumentExpiry) => `${entry.tourist._id}-${entry.document}`
+
+export function DocumentWatchlist() {
+  const { sendDocumentReminder } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+  const { windowDays, setWindowDays, entries, summary, loading, error, reload } = useDocumentWatchlist((count) =>
+    toast({
+      title: "Overstays flagged",
+      description: `${count} tourist${count === 1 ? "" : "s"} flagged for an expired visa`,
+    })
+  )
+  const [filter, setFilter] = useState<WatchlistFilter>("all")
+  const [sendingReminder, setSendingReminder] = useState<string | null>(null)
+  const [remindedAt, setRemindedAt] = useState<Record<string, string>>({})
+
+  const visibleEntries = entries.filter((entry) => {
+    switch (filter) {
+      case "lapsed":
+        return entry.lapsed
+      case "expiring":
+        return !entry.lapsed
+      case "overstay":
+        return entry.overstay
+      default:
+        return true
+    }
+  })
+
+  const handleSendReminder = async (entry: DocumentExpiry) => {
+    const key = entryKey(entry)
+    setSendingReminder(key)
+    try {
+      const response = await sendDocumentReminder(entry.tourist._id, entry.document, entry.expiresAt, currentOfficer.name)
+      setRemindedAt((prev) => ({ ...prev, [key]: response.reminder?.sentAt ?? new Date().toISOString() }))
+      toast({
+        title: "Reminder sent",
+        description: `${getTouristDisplayName(entry.tourist)} reminded about their ${entry.document} expiry`,
+      })
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to send reminder",
+        variant: "destructive",
+      })
+    } finally {
+      setSendingReminder(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-card-foreground">Document Watchlist</h2>
+          <p className="text-muted-foreground">Passports and visas expiring soon or already lapsed</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_WINDOW_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  Within {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={reload} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Overstays</CardTitle>
+            <Flag className="w-5 h-5 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.overstays}</div>
+            <p className="text-xs text-muted-foreground">Visa expired, still in the country</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Lapsed Documents</CardTitle>
+            <AlertTriangle className="w-5 h-5 text-orange-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.lapsed}</div>
+            <p className="text-xs text-muted-foreground">Passports and visas past expiry</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Expiring Soon</CardTitle>
+            <CalendarClock className="w-5 h-5 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.expiringSoon}</div>
+            <p className="text-xs text-muted-foreground">Within the next {windowDays} days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as WatchlistFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All ({entries.length})</TabsTrigger>
+              <TabsTrigger value="overstay">Overstays ({summary.overstays})</TabsTrigger>
+              <TabsTrigger value="lapsed">Lapsed ({summary.lapsed})</TabsTrigger>
+              <TabsTrigger value="expiring">Expiring ({summary.expiringSoon})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              <span>{error}</span>
+            </div>
+          ) : loading && entries.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No documents on the watchlist</p>
+          ) : (
+            <div className="space-y-2">
+              {visibleEntries.map((entry) => {
+                const key = entryKey(entry)
+                return (
+                  <div key={key} className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3">
+                    <div className="flex-1 min-w-[200px]">
+                      <p className="font-medium text-card-foreground">{getTouristDisplayName(entry.tourist)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {entry.tourist.profile?.nationality || "Nationality unknown"} · {entry.tourist.email}
+                      </p>
+                    </div>
+                    <div className="text-sm">
+                      <p className="capitalize">
+                        {entry.document} {entry.documentNumber && <span className="font-mono">{entry.documentNumber}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Expiry {new Date(entry.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={
+                        entry.lapsed
+                          ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                          : entry.daysRemaining <= 7
+                            ? "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+                            : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+                      }
+                    >
+                      {formatDaysRemaining(entry.daysRemaining)}
+                    </Badge>
+                    {entry.overstay && (
+                      <Badge variant="destructive">
+                        <Flag className="w-3 h-3 mr-1" />
+                        {isOverstayFlagged(entry.tourist) ? "Overstay flagged" : "Overstay"}
+                      </Badge>
+                    )}
+                    {remindedAt[key] ? (
+                      <span className="flex items-center gap-1 text-xs text-green-700 dark:text-green-300">
+                        <CheckCircle className="w-3 h-3" />
+                        Reminded {new Date(remindedAt[key]).toLocaleTimeString()}
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleSendReminder(entry)}
+                        disabled={sendingReminder === key}
+                      >
+                        {sendingReminder === key ? (
+                          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                          <BellRing className="w-4 h-4 mr-1" />
+                        )}
+                        Send Reminder
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
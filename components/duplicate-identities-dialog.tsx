@@ -0,0 +1,129 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ArrowRight, Loader2, RefreshCw, Users } from "lucide-react"
+import type { TouristProfile } from "@/hooks/useTouristManagementApi"
+import { DuplicateMergeView } from "@/components/duplicate-merge-view"
+import { DUPLICATE_REASON_LABELS, type DuplicateCandidate } from "@/lib/duplicate-identity"
+import { getTouristDisplayName } from "@/lib/missing-person"
+
+interface DuplicateIdentitiesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  candidates: DuplicateCandidate[]
+  scanning: boolean
+  error: string | null
+  lastScannedAt: Date | null
+  onRescan: () => void
+  canMerge: boolean
+  onMerged: (tourist: TouristProfile) => void
+}
+
+export function DuplicateIdentitiesDialog({
+  open,
+  onOpenChange,
+  candidates,
+  scanning,
+  error,
+  lastScannedAt,
+  onRescan,
+  canMerge,
+  onMerged,
+}: DuplicateIdentitiesDialogProps) {
+  const [selected, setSelected] = useState<DuplicateCandidate | null>(null)
+
+  useEffect(() => {
+    if (!open) setSelected(null)
+  }, [open])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            {selected ? "Compare Records" : "Possible Duplicate Tourists"}
+          </DialogTitle>
+          <DialogDescription>
+            {selected
+              ? "Choose which record to keep and which values to carry over"
+              : "Records sharing a passport, Aadhaar or phone number, or with a similar name, date of birth and nationality"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {selected ? (
+          <DuplicateMergeView
+            key={selected.key}
+            candidate={selected}
+            canMerge={canMerge}
+            onBack={() => setSelected(null)}
+            onMerged={(tourist) => {
+              setSelected(null)
+              onMerged(tourist)
+            }}
+          />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {lastScannedAt ? `Last checked ${lastScannedAt.toLocaleTimeString()}` : "Not checked yet"}
+              </span>
+              <Button variant="outline" size="sm" onClick={onRescan} disabled={scanning}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${scanning ? "animate-spin" : ""}`} />
+                Check Again
+              </Button>
+            </div>
+
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : scanning && candidates.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No possible duplicates found</p>
+            ) : (
+              <div className="space-y-2">
+                {candidates.map((candidate) => (
+                  <div key={candidate.key} className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3">
+                    <div className="flex-1 min-w-[240px] space-y-1">
+                      <p className="font-medium">
+                        {candidate.tourists.map((tourist) => getTouristDisplayName(tourist)).join(" / ")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {candidate.tourists.map((tourist) => tourist.email).join(" / ")}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {candidate.reasons.map((reason) => (
+                          <Badge key={reason} variant="outline" className="text-xs">
+                            {DUPLICATE_REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <Badge variant={candidate.exact ? "destructive" : "secondary"}>
+                      {candidate.exact ? "Exact match" : `${Math.round(candidate.nameSimilarity * 100)}% name match`}
+                    </Badge>
+                    <Button size="sm" variant="outline" onClick={() => setSelected(candidate)}>
+                      Compare
+                      <ArrowRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
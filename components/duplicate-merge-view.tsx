@@ -0,0 +1,208 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { DialogFooter } from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import { cn } from "@/lib/utils"
+import { ArrowLeft, ArrowLeftRight, GitMerge, Loader2 } from "lucide-react"
+import { useTouristManagementApi, type TouristProfile } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import {
+  DUPLICATE_REASON_LABELS,
+  MERGE_FIELDS,
+  buildMergedRecord,
+  defaultMergeChoices,
+  getMergeGroup,
+  getMergeValues,
+  mergeValuesDiffer,
+  type DuplicateCandidate,
+  type MergeField,
+  type MergeSource,
+} from "@/lib/duplicate-identity"
+import { getTouristDisplayName } from "@/lib/missing-person"
+
+const MIN_MERGE_REASON_LENGTH = 10
+
+interface DuplicateMergeViewProps {
+  candidate: DuplicateCandidate
+  canMerge: boolean
+  onBack: () => void
+  onMerged: (tourist: TouristProfile) => void
+}
+
+export function DuplicateMergeView({ candidate, canMerge, onBack, onMerged }: DuplicateMergeViewProps) {
+  const { mergeTourists } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+
+  const [[primary, duplicate], setOrder] = useState<[TouristProfile, TouristProfile]>(candidate.tourists)
+  const [choices, setChoices] = useState(() => defaultMergeChoices(...candidate.tourists))
+  const [reason, setReason] = useState("")
+  const [merging, setMerging] = useState(false)
+
+  const primaryValues = getMergeValues(primary)
+  const duplicateValues = getMergeValues(duplicate)
+  const merge = buildMergedRecord(primary, duplicate, choices)
+  const trimmedReason = reason.trim()
+
+  const handleSwap = () => {
+    setOrder([duplicate, primary])
+    setChoices(defaultMergeChoices(duplicate, primary))
+  }
+
+  const handleChoose = (field: MergeField, source: MergeSource) => {
+    setChoices((prev) => getMergeGroup(field).reduce((next, name) => ({ ...next, [name]: source }), prev))
+  }
+
+  const handleMerge = async () => {
+    if (!merge.record || trimmedReason.length < MIN_MERGE_REASON_LENGTH) return
+
+    setMerging(true)
+    try {
+      const response = await mergeTourists(primary._id, {
+        duplicateId: duplicate._id,
+        ...merge.record,
+        reason: trimmedReason,
+        mergedBy: currentOfficer.name,
+      })
+      toast({
+        title: "Records merged",
+        description: `${response.result.complaintsMoved} complaints and ${response.result.locationsMoved} location records moved to ${getTouristDisplayName(primary)}`,
+      })
+      onMerged(response.tourist)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to merge tourist records",
+        variant: "destructive",
+      })
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const renderRecordHeader = (tourist: TouristProfile, keep: boolean) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="font-semibold">{getTouristDisplayName(tourist)}</p>
+        <Badge variant={keep ? "default" : "outline"}>{keep ? "Keep" : "Merge into kept"}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">{tourist.email}</p>
+      <p className="text-xs text-muted-foreground">
+        Registered {new Date(tourist.createdAt).toLocaleDateString()} · <span className="capitalize">{tourist.status}</span>
+        {" · "}
+        {tourist.stats?.totalComplaints ?? 0} complaints
+      </p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {candidate.reasons.map((matchReason) => (
+          <Badge key={matchReason} variant={candidate.exact ? "destructive" : "secondary"}>
+            {DUPLICATE_REASON_LABELS[matchReason]}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] items-start gap-3">
+        {renderRecordHeader(primary, true)}
+        <Button variant="ghost" size="sm" onClick={handleSwap} disabled={merging} title="Keep the other record">
+          <ArrowLeftRight className="w-4 h-4" />
+        </Button>
+        {renderRecordHeader(duplicate, false)}
+      </div>
+
+      <div className="rounded-md border divide-y max-h-[40vh] overflow-y-auto">
+        {MERGE_FIELDS.map(({ name, label }) => {
+          const primaryValue = primaryValues[name]
+          const duplicateValue = duplicateValues[name]
+          if (!primaryValue && !duplicateValue) return null
+
+          const differs = mergeValuesDiffer(name, primaryValue, duplicateValue)
+          const renderOption = (source: MergeSource, value: string) => {
+            const selected = choices[name] === source
+            return (
+              <button
+                type="button"
+                disabled={!differs || merging}
+                onClick={() => handleChoose(name, source)}
+                className={cn(
+                  "rounded-md border p-2 text-left text-sm break-words",
+                  differs && selected && "border-primary bg-primary/5",
+                  differs && !selected && "text-muted-foreground line-through",
+                  !differs && "border-transparent"
+                )}
+              >
+                {value || "(empty)"}
+              </button>
+            )
+          }
+
+          return (
+            <div key={name} className="grid grid-cols-[10rem_1fr_1fr] items-center gap-3 p-2">
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                {!differs && <p className="text-xs text-green-700 dark:text-green-300">Same</p>}
+              </div>
+              {renderOption("primary", primaryValue)}
+              {renderOption("duplicate", duplicateValue)}
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click a value to keep it; contact details are kept together. Complaint history and location history of both
+        records are kept on the merged tourist, and the other record is deactivated.
+      </p>
+      {merge.errors.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-2 text-sm text-destructive">
+          <p className="font-medium">The merged profile is not valid</p>
+          <ul className="list-disc pl-5">
+            {merge.errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canMerge ? (
+        <div className="space-y-2">
+          <Label htmlFor="merge-reason">Reason for Merge *</Label>
+          <Textarea
+            id="merge-reason"
+            rows={2}
+            placeholder="e.g. Same passport, registered twice at airport and hotel"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {trimmedReason.length > 0 && trimmedReason.length < MIN_MERGE_REASON_LENGTH && (
+            <p className="text-xs text-destructive">Give a reason of at least {MIN_MERGE_REASON_LENGTH} characters</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Your role cannot merge tourist records</p>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onBack} disabled={merging}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to List
+        </Button>
+        {canMerge && (
+          <Button
+            onClick={handleMerge}
+            disabled={merging || !merge.record || trimmedReason.length < MIN_MERGE_REASON_LENGTH}
+          >
+            {merging ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <GitMerge className="w-4 h-4 mr-2" />}
+            Merge Records
+          </Button>
+        )}
+      </DialogFooter>
+    </div>
+  )
+}
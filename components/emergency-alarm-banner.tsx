@@ -0,0 +1,86 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { BellRing, CheckCircle, Loader2, MapPin, VolumeX } from "lucide-react"
+import type { Alert } from "@/hooks/useAuthorityApi"
+
+interface EmergencyAlarmBannerProps {
+  ringing: Alert[];
+  sounding: boolean;
+  acknowledgingId: string | null;
+  onAcknowledge: (alert: Alert) => void;
+  onSnooze: (minutes: number) => void;
+}
+
+export function EmergencyAlarmBanner({
+  ringing,
+  sounding,
+  acknowledgingId,
+  onAcknowledge,
+  onSnooze,
+}: EmergencyAlarmBannerProps) {
+  if (ringing.length === 0) return null
+
+  return (
+    <div className="border-b border-red-700 bg-red-600 text-white px-4 py-3 space-y-2" role="alert">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 font-semibold">
+          <BellRing className={`w-5 h-5 ${sounding ? "animate-bounce" : ""}`} />
+          {ringing.length} unacknowledged emergency alert{ringing.length > 1 ? "s" : ""}
+          {!sounding && (
+            <Badge variant="outline" className="border-white/60 text-white text-xs">
+              <VolumeX className="w-3 h-3 mr-1" />
+              Sound off
+            </Badge>
+          )}
+        </div>
+        {sounding && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-white/80">Snooze sound:</span>
+            {[5, 15].map((minutes) => (
+              <Button
+                key={minutes}
+                size="sm"
+                variant="outline"
+                className="h-7 border-white/60 bg-transparent text-white hover:bg-white/10 hover:text-white"
+                onClick={() => onSnooze(minutes)}
+              >
+                {minutes} min
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        {ringing.map((alert) => (
+          <div key={alert.id} className="flex items-center justify-between gap-4 rounded-md bg-red-700/60 px-3 py-2">
+            <div className="min-w-0 text-sm">
+              <span className="font-semibold">
+                {alert.isEmergencySOS ? "EMERGENCY SOS" : "CRITICAL"} • {alert.touristName}
+              </span>
+              <span className="ml-2 inline-flex items-center gap-1 text-white/80">
+                <MapPin className="w-3 h-3" />
+                {alert.location}
+              </span>
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="h-7"
+              onClick={() => onAcknowledge(alert)}
+              disabled={acknowledgingId === alert.id}
+            >
+              {acknowledgingId === alert.id ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-1" />
+              ) : (
+                <CheckCircle className="w-4 h-4 mr-1" />
+              )}
+              Acknowledge
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,454 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Separator } from "@/components/ui/separator"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { toast } from "@/components/ui/use-toast"
+import { FileText, Hash, Loader2, Printer } from "lucide-react"
+import { useAuthorityApi, type Alert, type FirDetails } from "@/hooks/useAuthorityApi"
+import { useTouristManagementApi } from "@/hooks/useTouristManagementApi"
+import { LEGAL_SECTIONS, printFirDraft } from "@/lib/fir-draft"
+import { PASSPORT_PATTERN } from "@/lib/tourist-profile-form"
+
+const optionalPhone = z
+  .string()
+  .trim()
+  .refine((value) => value === "" || /^\+?[0-9\s-]{7,20}$/.test(value), "Enter a valid phone number")
+
+const firSchema = z.object({
+  firNumber: z
+    .string()
+    .trim()
+    .min(1, "Enter the FIR number or reserve one")
+    .regex(/^[A-Za-z0-9][A-Za-z0-9/-]{2,29}$/, "Use letters, digits, '/' or '-' (e.g. 0142/2026)"),
+  policeStation: z.string().trim().min(3, "Enter the police station"),
+  legalSections: z.array(z.string()).min(1, "Select at least one section"),
+  complainantName: z.string().trim().min(2, "Enter the complainant's name"),
+  complainantNationality: z.string().trim(),
+  complainantPassport: z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .refine((value) => value === "" || PASSPORT_PATTERN.test(value), "Passport numbers are 6-9 letters or digits"),
+  complainantPhone: optionalPhone,
+  complainantAddress: z.string().trim(),
+  accusedName: z.string().trim().min(1, "Enter the accused's name or 'Unknown'"),
+  accusedDescription: z.string().trim(),
+  escalationNotes: z.string().trim().min(20, "Describe the facts of the case in at least 20 characters"),
+})
+
+type FirFormValues = z.infer<typeof firSchema>
+
+export interface FirEscalationSubmission {
+  firNumber: string
+  escalationNotes: string
+  details: FirDetails
+}
+
+const toFirDetails = (values: FirFormValues): FirDetails => ({
+  policeStation: values.policeStation,
+  legalSections: values.legalSections,
+  complainant: {
+    name: values.complainantName,
+    nationality: values.complainantNationality || undefined,
+    passportNumber: values.complainantPassport || undefined,
+    phone: values.complainantPhone || undefined,
+    address: values.complainantAddress || undefined,
+  },
+  accused: {
+    name: values.accusedName,
+    description: values.accusedDescription || undefined,
+  },
+})
+
+const valuesFromAlert = (alert: Alert | null): FirFormValues => ({
+  firNumber: "",
+  policeStation: alert?.assignedDepartment ?? "",
+  legalSections: [],
+  complainantName: alert?.touristName ?? "",
+  complainantNationality: "",
+  complainantPassport: "",
+  complainantPhone: alert?.touristPhone ?? "",
+  complainantAddress: "",
+  accusedName: "Unknown",
+  accusedDescription: "",
+  escalationNotes: alert?.description ?? "",
+})
+
+interface FirEscalationDialogProps {
+  alert: Alert | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  officerName: string
+  submitting?: boolean
+  onSubmit: (submission: FirEscalationSubmission) => void
+}
+
+export function FirEscalationDialog({
+  alert,
+  open,
+  onOpenChange,
+  officerName,
+  submitting = false,
+  onSubmit,
+}: FirEscalationDialogProps) {
+  const { reserveFIRNumber } = useAuthorityApi()
+  const { fetchTouristProfile } = useTouristManagementApi()
+  const [reserving, setReserving] = useState(false)
+  const [reservedNumber, setReservedNumber] = useState<string | null>(null)
+  const [profileLoading, setProfileLoading] = useState(false)
+
+  const form = useForm<FirFormValues>({
+    resolver: zodResolver(firSchema),
+    defaultValues: valuesFromAlert(null),
+  })
+
+  // Prefill from the complaint, then fill in what the tourist profile knows
+  // without overwriting anything the officer has already typed
+  useEffect(() => {
+    if (!open || !alert) return
+
+    form.reset(valuesFromAlert(alert))
+    setReservedNumber(null)
+
+    let cancelled = false
+    const loadProfile = async () => {
+      setProfileLoading(true)
+      try {
+        const { tourist } = await fetchTouristProfile(alert.touristId)
+        if (cancelled) return
+
+        const profile = tourist.profile
+        const fullName = [profile?.firstName, profile?.lastName].filter(Boolean).join(" ")
+        // The passport number comes masked from the API, so the officer copies it from the document
+        const prefill: Partial<FirFormValues> = {
+          complainantName: fullName || undefined,
+          complainantNationality: profile?.nationality,
+          complainantPhone: tourist.phone,
+          complainantAddress: profile?.localContact?.address,
+        }
+
+        Object.entries(prefill).forEach(([name, value]) => {
+          const field = name as keyof FirFormValues
+          if (value && !form.getFieldState(field).isDirty) {
+            form.setValue(field, value)
+          }
+        })
+      } catch (err) {
+        // The complaint data alone is enough to draft the FIR
+        console.error("[FirEscalationDialog] Failed to load tourist profile:", err)
+      } finally {
+        if (!cancelled) setProfileLoading(false)
+      }
+    }
+
+    loadProfile()
+
+    return () => {
+      cancelled = true
+    }
+    // Refreshed copies of the same complaint must not wipe the form
+  }, [open, alert?.id, form, fetchTouristProfile])
+
+  const handleReserve = async () => {
+    if (!(await form.trigger("policeStation"))) return
+
+    setReserving(true)
+    const response = await reserveFIRNumber(form.getValues("policeStation"), alert?.id)
+    setReserving(false)
+
+    if (response.data) {
+      form.setValue("firNumber", response.data.firNumber, { shouldDirty: true, shouldValidate: true })
+      setReservedNumber(response.data.firNumber)
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to reserve an FIR number",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handlePrint = async () => {
+    if (!alert || !(await form.trigger())) return
+
+    const values = form.getValues()
+    const printed = printFirDraft({
+      ...toFirDetails(values),
+      firNumber: values.firNumber,
+      complaintId: alert.complaintId,
+      incidentType: alert.title || alert.type.replace(/_/g, " "),
+      incidentLocation: alert.location,
+      incidentTime: alert.timestamp,
+      facts: values.escalationNotes,
+      officerName,
+    })
+
+    if (!printed) {
+      toast({
+        title: "Print blocked",
+        description: "Allow popups for this site to print the FIR draft",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSubmit = (values: FirFormValues) =>
+    onSubmit({
+      firNumber: values.firNumber,
+      escalationNotes: values.escalationNotes,
+      details: toFirDetails(values),
+    })
+
+  const firNumber = form.watch("firNumber")
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Escalate to FIR</DialogTitle>
+          <DialogDescription>
+            Record the First Information Report particulars for complaint {alert?.complaintId}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="policeStation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Police Station *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Marina Beach PS" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="firNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>FIR Number *</FormLabel>
+                    <div className="flex gap-2">
+                      <FormControl>
+                        <Input placeholder="e.g. 0142/2026" {...field} />
+                      </FormControl>
+                      <Button type="button" variant="outline" onClick={handleReserve} disabled={reserving}>
+                        {reserving ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <Hash className="w-4 h-4 mr-1" />}
+                        Reserve
+                      </Button>
+                    </div>
+                    {reservedNumber && reservedNumber === firNumber && (
+                      <FormDescription>Reserved in the station register</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="legalSections"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applicable Sections *</FormLabel>
+                  <div className="grid max-h-40 gap-2 overflow-y-auto rounded-md border p-3 md:grid-cols-2">
+                    {LEGAL_SECTIONS.map((section) => (
+                      <label key={section.code} className="flex items-start gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(section.code)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...field.value, section.code]
+                                : field.value.filter((code) => code !== section.code)
+                            )
+                          }
+                        />
+                        <span>
+                          <span className="font-medium">{section.code}</span> – {section.title}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold">Complainant</p>
+              {profileLoading && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Loading tourist profile...
+                </span>
+              )}
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="complainantName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="complainantNationality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nationality</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="complainantPassport"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Passport Number</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="complainantPhone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="complainantAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address in India</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Hotel or local address" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Separator />
+            <p className="text-sm font-semibold">Accused</p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="accusedName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="accusedDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Appearance, vehicle, identifying marks" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Separator />
+            <FormField
+              control={form.control}
+              name="escalationNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Facts of the Case *</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} {...field} />
+                  </FormControl>
+                  <FormDescription>Prefilled from the complaint description</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="button" variant="outline" onClick={handlePrint} disabled={submitting}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print Draft
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <FileText className="w-4 h-4 mr-2" />
+                )}
+                Create FIR
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import { AssignOfficerDialog } from "@/components/assign-officer-dialog"
+import { ComplaintDetailSheet } from "@/components/complaint-detail-sheet"
+import { FirEscalationDialog, type FirEscalationSubmission } from "@/components/fir-escalation-dialog"
+import { ResolveComplaintDialog, type ResolutionFormValues } from "@/components/resolve-complaint-dialog"
+import { AlertTriangle, CheckCircle, Eye, FileText, Loader2, MapPin, UserCheck } from "lucide-react"
+import { useAuthorityApi, type Alert, type Officer } from "@/hooks/useAuthorityApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { QUEUED_NOTICE } from "@/lib/complaint-outbox"
+import { canPerformAction } from "@/lib/complaint-state-machine"
+
+interface MapAlertPanelProps {
+  alert: Alert
+  distanceMeters?: number
+  onClose: () => void
+  onUpdated: () => void
+}
+
+type PanelAction = "acknowledge" | "resolve" | "escalate" | "assign"
+
+// Details and actions for an alert picked on the map
+export function MapAlertPanel({ alert, distanceMeters, onClose, onUpdated }: MapAlertPanelProps) {
+  const { acknowledgeComplaint, resolveComplaint, escalateToFIR, assignComplaint } = useAuthorityApi()
+  const currentOfficer = useCurrentOfficer()
+
+  const [busyAction, setBusyAction] = useState<PanelAction | null>(null)
+  const [detailSheet, setDetailSheet] = useState(false)
+  const [resolveDialog, setResolveDialog] = useState(false)
+  const [escalationDialog, setEscalationDialog] = useState(false)
+  const [assignDialog, setAssignDialog] = useState(false)
+
+  const runAction = async (
+    action: PanelAction,
+    perform: () => Promise<{ data?: unknown; error?: string; queued?: boolean }>,
+    successMessage: string,
+    closeDialog?: () => void
+  ) => {
+    setBusyAction(action)
+    const response = await perform()
+    setBusyAction(null)
+
+    if (response.data || response.queued) {
+      toast(response.queued ? { title: "Saved offline", description: QUEUED_NOTICE } : { title: "Success", description: successMessage })
+      closeDialog?.()
+      onUpdated()
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || `Failed to ${action} complaint`,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleAcknowledge = () =>
+    runAction("acknowledge", () => acknowledgeComplaint(alert.id, currentOfficer.name), "Complaint acknowledged successfully")
+
+  const handleResolve = (values: ResolutionFormValues) =>
+    runAction(
+      "resolve",
+      () =>
+        resolveComplaint(alert.id, values.resolutionNotes, values.actionTaken, currentOfficer.name, {
+          outcome: values.outcome,
+          timeSpentMinutes: values.timeSpentMinutes,
+          followUpRequired: values.followUpRequired,
+          ...(values.followUpRequired && { followUpNotes: values.followUpNotes }),
+        }),
+      "Complaint resolved successfully",
+      () => setResolveDialog(false)
+    )
+
+  const handleEscalate = ({ firNumber, escalationNotes, details }: FirEscalationSubmission) =>
+    runAction(
+      "escalate",
+      () => escalateToFIR(alert.id, escalationNotes, currentOfficer.name, firNumber, details),
+      `Complaint escalated to FIR: ${firNumber}`,
+      () => setEscalationDialog(false)
+    )
+
+  const handleAssign = (officer: Officer, notes: string) =>
+    runAction(
+      "assign",
+      () =>
+        assignComplaint(
+          alert.id,
+          {
+            officerId: officer.id,
+            officerName: officer.name,
+            department: officer.department,
+            notes: notes.trim() || undefined,
+          },
+          currentOfficer.name
+        ),
+      `Complaint ${alert.complaintId} assigned to ${officer.name}`,
+      () => setAssignDialog(false)
+    )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            {alert.title || alert.type.replace(/_/g, " ")}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            ×
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Badge variant="outline">{alert.complaintId}</Badge>
+          <Badge variant={alert.severity === "critical" || alert.severity === "high" ? "destructive" : "secondary"}>
+            {alert.severity.toUpperCase()}
+          </Badge>
+          <Badge variant="outline">{alert.status.toUpperCase()}</Badge>
+          {alert.isEmergencySOS && <Badge variant="destructive">EMERGENCY SOS</Badge>}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label className="text-sm font-medium">Tourist</Label>
+            <p className="text-sm text-muted-foreground">{alert.touristName}</p>
+          </div>
+          <div>
+            <Label className="text-sm font-medium">Location</Label>
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <MapPin className="w-4 h-4" />
+              {alert.location}
+            </p>
+          </div>
+          <div>
+            <Label className="text-sm font-medium">Reported</Label>
+            <p className="text-sm text-muted-foreground">{new Date(alert.timestamp).toLocaleString()}</p>
+          </div>
+          {distanceMeters !== undefined && (
+            <div>
+              <Label className="text-sm font-medium">Distance from search center</Label>
+              <p className="text-sm text-muted-foreground">
+                {distanceMeters < 1000 ? `${Math.round(distanceMeters)} m` : `${(distanceMeters / 1000).toFixed(1)} km`}
+              </p>
+            </div>
+          )}
+          <div>
+            <Label className="text-sm font-medium">Assigned to</Label>
+            <p className="text-sm text-muted-foreground">{alert.assignedOfficer || "Unassigned"}</p>
+          </div>
+          <div>
+            <Label className="text-sm font-medium">Contact</Label>
+            <p className="text-sm text-muted-foreground">{alert.contactInfo}</p>
+          </div>
+        </div>
+        <p className="text-sm text-card-foreground mt-4">{alert.description}</p>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setDetailSheet(true)}>
+            <Eye className="w-4 h-4 mr-2" />
+            View Details
+          </Button>
+          {canPerformAction(alert, "acknowledge") && (
+            <Button size="sm" onClick={handleAcknowledge} disabled={busyAction !== null}>
+              {busyAction === "acknowledge" ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <CheckCircle className="w-4 h-4 mr-2" />
+              )}
+              Acknowledge
+            </Button>
+          )}
+          {canPerformAction(alert, "resolve") && (
+            <Button size="sm" onClick={() => setResolveDialog(true)} disabled={busyAction !== null}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Mark Resolved
+            </Button>
+          )}
+          {canPerformAction(alert, "escalate") && (
+            <Button size="sm" variant="outline" onClick={() => setEscalationDialog(true)} disabled={busyAction !== null}>
+              <FileText className="w-4 h-4 mr-2" />
+              Escalate to FIR
+            </Button>
+          )}
+          {canPerformAction(alert, "assign") && (
+            <Button size="sm" variant="outline" onClick={() => setAssignDialog(true)} disabled={busyAction !== null}>
+              <UserCheck className="w-4 h-4 mr-2" />
+              {alert.assignedOfficer ? "Reassign" : "Assign"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <ComplaintDetailSheet alert={alert} open={detailSheet} onOpenChange={setDetailSheet} onUpdated={onUpdated} />
+      <ResolveComplaintDialog
+        open={resolveDialog}
+        onOpenChange={setResolveDialog}
+        description={`Record how complaint ${alert.complaintId} was resolved`}
+        submitting={busyAction === "resolve"}
+        onSubmit={handleResolve}
+      />
+      <FirEscalationDialog
+        alert={alert}
+        open={escalationDialog}
+        onOpenChange={setEscalationDialog}
+        officerName={currentOfficer.name}
+        submitting={busyAction === "escalate"}
+        onSubmit={handleEscalate}
+      />
+      <AssignOfficerDialog
+        open={assignDialog}
+        onOpenChange={setAssignDialog}
+        description={`Dispatch an officer to complaint ${alert.complaintId}`}
+        currentOfficerName={alert.assignedOfficer}
+        submitting={busyAction === "assign"}
+        onConfirm={handleAssign}
+      />
+    </Card>
+  )
+}
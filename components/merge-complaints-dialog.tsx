@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Clock, GitMerge, Loader2, MapPin, MessageSquare } from "lucide-react"
+import { useAuthorityApi, type Alert } from "@/hooks/useAuthorityApi"
+import { distanceInMeters } from "@/lib/complaint-duplicates"
+
+interface MergeComplaintsDialogProps {
+  candidates: Alert[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  submitting?: boolean
+  onConfirm: (primary: Alert, duplicates: Alert[], notes: string) => void
+}
+
+const describeOffset = (alert: Alert, primary: Alert) => {
+  const minutes = Math.round(
+    Math.abs(new Date(alert.timestamp).getTime() - new Date(primary.timestamp).getTime()) / 60000
+  )
+  const parts = [`${minutes} min apart`]
+  if (alert.coordinates && primary.coordinates) {
+    parts.push(`${Math.round(distanceInMeters(alert.coordinates, primary.coordinates))} m away`)
+  }
+  return parts.join(" • ")
+}
+
+export function MergeComplaintsDialog({
+  candidates,
+  open,
+  onOpenChange,
+  submitting = false,
+  onConfirm,
+}: MergeComplaintsDialogProps) {
+  const { fetchComplaintDetails } = useAuthorityApi()
+  const [primaryId, setPrimaryId] = useState("")
+  const [includedIds, setIncludedIds] = useState<Set<string>>(new Set())
+  const [messageCounts, setMessageCounts] = useState<Record<string, number>>({})
+  const [notes, setNotes] = useState("")
+
+  // Suggest the earliest report as the primary case and include everything else
+  useEffect(() => {
+    if (!open || candidates.length === 0) return
+
+    setPrimaryId(candidates[0].id)
+    setIncludedIds(new Set(candidates.map((alert) => alert.id)))
+    setMessageCounts({})
+    setNotes("")
+
+    let cancelled = false
+    const loadMessageCounts = async () => {
+      const responses = await Promise.all(candidates.map((alert) => fetchComplaintDetails(alert.id)))
+      if (cancelled) return
+
+      const counts: Record<string, number> = {}
+      responses.forEach((response, index) => {
+        if (response.data) {
+          counts[candidates[index].id] = response.data.complaint.communications?.length ?? 0
+        }
+      })
+      setMessageCounts(counts)
+    }
+
+    loadMessageCounts()
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, candidates, fetchComplaintDetails])
+
+  const primary = candidates.find((alert) => alert.id === primaryId)
+  const duplicates = candidates.filter((alert) => alert.id !== primaryId && includedIds.has(alert.id))
+  const carriedMessages = duplicates.reduce((total, alert) => total + (messageCounts[alert.id] ?? 0), 0)
+
+  const toggleIncluded = (id: string, included: boolean) => {
+    setIncludedIds((prev) => {
+      const next = new Set(prev)
+      if (included) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate Complaints</DialogTitle>
+          <DialogDescription>
+            Choose the primary case. The other selected complaints are closed as duplicates and linked to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={primaryId} onValueChange={setPrimaryId} className="space-y-2">
+          {candidates.map((alert) => {
+            const isPrimary = alert.id === primaryId
+            return (
+              <div
+                key={alert.id}
+                className={`flex items-start gap-3 rounded-lg border p-3 ${isPrimary ? "border-primary bg-primary/5" : ""}`}
+              >
+                <RadioGroupItem value={alert.id} id={`primary-${alert.id}`} className="mt-1" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`primary-${alert.id}`} className="font-semibold">
+                      {alert.complaintId}
+                    </Label>
+                    <Badge variant="outline" className="text-xs">
+                      {alert.status.toUpperCase()}
+                    </Badge>
+                    {isPrimary && <Badge className="text-xs">Primary</Badge>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {new Date(alert.timestamp).toLocaleString()}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {alert.location}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="w-3 h-3" />
+                      {messageCounts[alert.id] ?? "…"} messages
+                    </span>
+                    {!isPrimary && primary && <span>{describeOffset(alert, primary)}</span>}
+                  </div>
+                  <p className="text-sm line-clamp-2">{alert.description}</p>
+                </div>
+                {!isPrimary && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`include-${alert.id}`}
+                      checked={includedIds.has(alert.id)}
+                      onCheckedChange={(checked) => toggleIncluded(alert.id, checked === true)}
+                    />
+                    <Label htmlFor={`include-${alert.id}`} className="text-xs">
+                      Merge
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </RadioGroup>
+
+        <div>
+          <Label htmlFor="merge-notes">Notes</Label>
+          <Textarea
+            id="merge-notes"
+            placeholder="Why these reports describe the same incident..."
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        {duplicates.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {duplicates.length} complaint{duplicates.length > 1 ? "s" : ""} will be closed as duplicate
+            {duplicates.length > 1 ? "s" : ""} of {primary?.complaintId}
+            {carriedMessages > 0 && ` and ${carriedMessages} message${carriedMessages > 1 ? "s" : ""} copied onto it`}.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => primary && onConfirm(primary, duplicates, notes.trim())}
+            disabled={!primary || duplicates.length === 0 || submitting}
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <GitMerge className="w-4 h-4 mr-2" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+
+export interface MiniMapMarker {
+  id: string
+  lat: number
+  lng: number
+  color?: string
+  label?: string
+}
+
+interface MiniMapProps {
+  center: { lat: number; lng: number }
+  markers?: MiniMapMarker[]
+  zoom?: number
+  className?: string
+}
+
+const NO_MARKERS: MiniMapMarker[] = []
+
+// Small, non-interactive map for showing a handful of points inline
+export function MiniMap({ center, markers = NO_MARKERS, zoom = 14, className }: MiniMapProps) {
+  const mapContainer = useRef<HTMLDivElement>(null)
+  const map = useRef<any>(null)
+  const mapboxgl = useRef<any>(null)
+  const markerRefs = useRef<any[]>([])
+  const [mapLoaded, setMapLoaded] = useState(false)
+
+  useEffect(() => {
+    if (map.current || !mapContainer.current) return
+
+    const loadMapbox = async () => {
+      try {
+        mapboxgl.current = await import("mapbox-gl")
+
+        if (!document.querySelector('link[href*="mapbox-gl"]')) {
+          const link = document.createElement("link")
+          link.href = "https://api.mapbox.com/mapbox-gl-js/v3.0.1/mapbox-gl.css"
+          link.rel = "stylesheet"
+          document.head.appendChild(link)
+        }
+
+        mapboxgl.current.default.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN
+
+        map.current = new mapboxgl.current.default.Map({
+          container: mapContainer.current!,
+          style: "mapbox://styles/mapbox/streets-v12",
+          center: [center.lng, center.lat],
+          zoom,
+          interactive: false,
+        })
+
+        map.current.on("load", () => setMapLoaded(true))
+      } catch (error) {
+        console.error("Failed to load Mapbox:", error)
+        setMapLoaded(false)
+      }
+    }
+
+    loadMapbox()
+
+    return () => {
+      if (map.current) {
+        map.current.remove()
+        map.current = null
+      }
+    }
+  }, [])
+
+  // Keep the view and markers in sync with props
+  useEffect(() => {
+    if (!mapLoaded || !map.current) return
+
+    map.current.setCenter([center.lng, center.lat])
+
+    markerRefs.current.forEach((marker) => marker.remove())
+    markerRefs.current = markers.map((marker) => {
+      const instance = new mapboxgl.current.default.Marker({ color: marker.color || "#dc2626" })
+        .setLngLat([marker.lng, marker.lat])
+        .addTo(map.current)
+      if (marker.label) {
+        instance.getElement().title = marker.label
+      }
+      return instance
+    })
+  }, [mapLoaded, center.lat, center.lng, markers])
+
+  return (
+    <div className={cn("relative h-40 w-full overflow-hidden rounded-lg border border-border", className)}>
+      <div ref={mapContainer} className="absolute inset-0" />
+      {!mapLoaded && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted/50 text-xs text-muted-foreground">
+          Loading map...
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,546 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { toast } from "@/components/ui/use-toast"
+import { AlertTriangle, CheckCircle, Eye, Loader2, MapPin, Plus, Printer, RefreshCw, Search, UserX } from "lucide-react"
+import {
+  useTouristManagementApi,
+  type MissingPersonCase,
+  type MissingPersonCaseEntry,
+  type MissingPersonOutcome,
+  type TouristProfile,
+} from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import {
+  CASE_ENTRY_LABELS,
+  MISSING_CASE_OUTCOMES,
+  getTouristDisplayName,
+  printLookoutNotice,
+} from "@/lib/missing-person"
+
+const openCaseSchema = z.object({
+  lastSeenAt: z
+    .string()
+    .min(1, "Enter when the tourist was last seen")
+    .refine((value) => new Date(value).getTime() <= Date.now(), "Last seen time cannot be in the future"),
+  lastSeenLocation: z.string().trim().min(3, "Enter where the tourist was last seen"),
+  circumstances: z.string().trim().min(10, "Describe the circumstances in at least 10 characters"),
+  physicalDescription: z.string().trim().min(10, "Describe height, build, hair and distinguishing features"),
+  clothing: z.string().trim().optional(),
+})
+
+type OpenCaseFormValues = z.infer<typeof openCaseSchema>
+
+const ENTRY_ICONS: Record<MissingPersonCaseEntry["type"], typeof Search> = {
+  search_action: Search,
+  sighting: Eye,
+  note: Plus,
+}
+
+interface MissingPersonCaseDialogProps {
+  tourist: TouristProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onStatusChanged: () => void
+}
+
+export function MissingPersonCaseDialog({ tourist, open, onOpenChange, onStatusChanged }: MissingPersonCaseDialogProps) {
+  const {
+    fetchMissingPersonCase,
+    openMissingPersonCase,
+    addMissingPersonCaseEntry,
+    closeMissingPersonCase,
+    updateTouristProfile,
+  } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+
+  const [missingCase, setMissingCase] = useState<MissingPersonCase | null>(null)
+  const [loadingCase, setLoadingCase] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [loadAttempt, setLoadAttempt] = useState(0)
+  const [statusMarked, setStatusMarked] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const [entryType, setEntryType] = useState<MissingPersonCaseEntry["type"]>("search_action")
+  const [entryDescription, setEntryDescription] = useState("")
+  const [entryLocation, setEntryLocation] = useState("")
+
+  const [closing, setClosing] = useState(false)
+  const [outcome, setOutcome] = useState<MissingPersonOutcome | "">("")
+  const [outcomeNotes, setOutcomeNotes] = useState("")
+
+  const form = useForm<OpenCaseFormValues>({
+    resolver: zodResolver(openCaseSchema),
+    defaultValues: { lastSeenAt: "", lastSeenLocation: "", circumstances: "", physicalDescription: "", clothing: "" },
+  })
+
+  useEffect(() => {
+    if (!open || !tourist) return
+
+    setStatusMarked(false)
+    setClosing(false)
+    setOutcome("")
+    setOutcomeNotes("")
+    setEntryDescription("")
+    setEntryLocation("")
+
+    const lastKnown = tourist.profile?.lastKnownLocation
+    form.reset({
+      lastSeenAt: format(lastKnown?.timestamp ? new Date(lastKnown.timestamp) : new Date(), "yyyy-MM-dd'T'HH:mm"),
+      lastSeenLocation: lastKnown?.address || "",
+      circumstances: "",
+      physicalDescription: "",
+      clothing: "",
+    })
+  }, [open, tourist, form])
+
+  // The open form is only offered once the server has confirmed there is no open case
+  useEffect(() => {
+    if (!open || !tourist) return
+
+    let cancelled = false
+    setMissingCase(null)
+    setLoadError(null)
+    setLoadingCase(true)
+    fetchMissingPersonCase(tourist._id)
+      .then((response) => {
+        if (!cancelled) setMissingCase(response.case)
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Failed to load the missing-person case")
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingCase(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, tourist, loadAttempt, fetchMissingPersonCase])
+
+  if (!tourist) return null
+  const name = getTouristDisplayName(tourist)
+  // An open case whose tourist was never marked missing, e.g. because the status update failed
+  const statusPending = missingCase?.status === "open" && tourist.status !== "missing" && !statusMarked
+
+  const markMissing = async () => {
+    try {
+      await updateTouristProfile(tourist._id, { status: "missing" })
+      setStatusMarked(true)
+      onStatusChanged()
+      return true
+    } catch (err) {
+      toast({
+        title: "Could not mark the tourist missing",
+        description: err instanceof Error ? err.message : "Failed to update the tourist's status",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const handleRetryStatus = async () => {
+    setSubmitting(true)
+    await markMissing()
+    setSubmitting(false)
+  }
+
+  const handleOpenCase = async (values: OpenCaseFormValues) => {
+    setSubmitting(true)
+    try {
+      const lastKnown = tourist.profile?.lastKnownLocation
+      const response = await openMissingPersonCase(
+        tourist._id,
+        {
+          lastSeenAt: new Date(values.lastSeenAt).toISOString(),
+          lastSeenLocation: values.lastSeenLocation,
+          ...(lastKnown && values.lastSeenLocation === lastKnown.address && { lastSeenCoordinates: lastKnown.coordinates }),
+          circumstances: values.circumstances,
+          physicalDescription: values.physicalDescription,
+          clothing: values.clothing || undefined,
+        },
+        currentOfficer.name
+      )
+      // Shown straight away so a failed status update cannot lead to a second case
+      setMissingCase(response.case)
+      if (await markMissing()) {
+        toast({
+          title: "Missing-person case opened",
+          description: `${response.case.caseNumber}: ${name} is now marked missing`,
+        })
+      }
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to open missing-person case",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleAddEntry = async () => {
+    if (!missingCase || !entryDescription.trim()) return
+
+    setSubmitting(true)
+    try {
+      const response = await addMissingPersonCaseEntry(missingCase._id, {
+        type: entryType,
+        description: entryDescription.trim(),
+        location: entryLocation.trim() || undefined,
+        reportedBy: currentOfficer.name,
+      })
+      setMissingCase((prev) => (prev ? { ...prev, entries: [...prev.entries, response.entry] } : prev))
+      setEntryDescription("")
+      setEntryLocation("")
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to log entry",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCloseCase = async () => {
+    if (!missingCase || !outcome || outcomeNotes.trim().length < 10) return
+    const selectedOutcome = MISSING_CASE_OUTCOMES.find((option) => option.value === outcome)
+    if (!selectedOutcome) return
+
+    setSubmitting(true)
+    try {
+      await closeMissingPersonCase(missingCase._id, outcome, outcomeNotes.trim(), currentOfficer.name)
+      await updateTouristProfile(tourist._id, { status: selectedOutcome.touristStatus })
+      toast({
+        title: "Case closed",
+        description: `${missingCase.caseNumber}: ${selectedOutcome.label}`,
+      })
+      onStatusChanged()
+      onOpenChange(false)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to close case",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handlePrint = () => {
+    if (missingCase && !printLookoutNotice(tourist, missingCase)) {
+      toast({
+        title: "Print blocked",
+        description: "Allow popups for this site to print the lookout notice",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserX className="w-5 h-5" />
+            {missingCase ? `Missing-Person Case ${missingCase.caseNumber}` : "Report Missing Person"}
+          </DialogTitle>
+          <DialogDescription>
+            {missingCase
+              ? `${name} · opened by ${missingCase.openedBy} on ${new Date(missingCase.openedAt).toLocaleString()}`
+              : `Open a case for ${name}. The tourist will be marked missing.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingCase ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : loadError ? (
+          <div className="space-y-3 py-4 text-center">
+            <p className="text-sm text-destructive">
+              {loadError}. A new case cannot be opened until any existing one has been checked.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setLoadAttempt((attempt) => attempt + 1)}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        ) : !missingCase ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleOpenCase)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="lastSeenAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Seen *</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lastSeenLocation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last Seen Location *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Marina Beach, near lighthouse" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="circumstances"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Circumstances *</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Who reported it, what the tourist was doing, plans..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="physicalDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Physical Description *</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Height, build, hair, distinguishing marks..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clothing"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last Seen Wearing</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Blue t-shirt, khaki shorts, red backpack" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="destructive" disabled={submitting}>
+                  {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <UserX className="w-4 h-4 mr-2" />}
+                  Open Case
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        ) : (
+          <div className="space-y-4">
+            {statusPending && (
+              <div className="flex flex-wrap items-center gap-3 rounded-md border border-destructive/50 p-3 text-sm">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <span className="flex-1">The case is open but {name} is not marked missing yet</span>
+                <Button size="sm" variant="outline" onClick={handleRetryStatus} disabled={submitting}>
+                  {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                  Mark Missing
+                </Button>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <Label>Last Seen</Label>
+                <p className="text-muted-foreground">{new Date(missingCase.lastSeenAt).toLocaleString()}</p>
+              </div>
+              <div>
+                <Label>Location</Label>
+                <p className="text-muted-foreground flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  {missingCase.lastSeenLocation}
+                </p>
+              </div>
+              <div className="col-span-2">
+                <Label>Circumstances</Label>
+                <p className="text-muted-foreground">{missingCase.circumstances}</p>
+              </div>
+              <div className="col-span-2">
+                <Label>Description</Label>
+                <p className="text-muted-foreground">
+                  {missingCase.physicalDescription}
+                  {missingCase.clothing && ` · Wearing: ${missingCase.clothing}`}
+                </p>
+              </div>
+            </div>
+
+            <Button variant="outline" size="sm" onClick={handlePrint}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print Lookout Notice
+            </Button>
+
+            <Separator />
+
+            <div>
+              <Label className="text-base font-semibold">Search Log ({missingCase.entries.length})</Label>
+              <div className="mt-2 space-y-2">
+                {missingCase.entries.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No search actions or sightings logged yet</p>
+                )}
+                {missingCase.entries.map((entry, index) => {
+                  const Icon = ENTRY_ICONS[entry.type]
+                  return (
+                    <div key={entry._id || index} className="rounded-md border p-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={entry.type === "sighting" ? "destructive" : "outline"} className="text-xs">
+                          <Icon className="w-3 h-3 mr-1" />
+                          {CASE_ENTRY_LABELS[entry.type]}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {entry.reportedBy} · {new Date(entry.timestamp).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="mt-1">{entry.description}</p>
+                      {entry.location && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {entry.location}
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              <div className="mt-3 space-y-2 rounded-md bg-muted/50 p-3">
+                <div className="grid grid-cols-3 gap-2">
+                  <Select value={entryType} onValueChange={(value) => setEntryType(value as MissingPersonCaseEntry["type"])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CASE_ENTRY_LABELS) as MissingPersonCaseEntry["type"][]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {CASE_ENTRY_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="col-span-2"
+                    placeholder="Location (optional)"
+                    value={entryLocation}
+                    onChange={(e) => setEntryLocation(e.target.value)}
+                  />
+                </div>
+                <Textarea
+                  rows={2}
+                  placeholder={
+                    entryType === "sighting" ? "Who saw the tourist, when, and what they were doing..." : "What was done..."
+                  }
+                  value={entryDescription}
+                  onChange={(e) => setEntryDescription(e.target.value)}
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleAddEntry} disabled={submitting || !entryDescription.trim()}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Log Entry
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <Separator />
+
+            {closing ? (
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">Close Case</Label>
+                <Select value={outcome} onValueChange={(value) => setOutcome(value as MissingPersonOutcome)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select outcome" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MISSING_CASE_OUTCOMES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  rows={3}
+                  placeholder="Where and how the tourist was found, condition, who was informed..."
+                  value={outcomeNotes}
+                  onChange={(e) => setOutcomeNotes(e.target.value)}
+                />
+                {outcomeNotes.trim().length > 0 && outcomeNotes.trim().length < 10 && (
+                  <p className="text-xs text-destructive">Describe the outcome in at least 10 characters</p>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setClosing(false)} disabled={submitting}>
+                    Back
+                  </Button>
+                  <Button
+                    onClick={handleCloseCase}
+                    disabled={submitting || !outcome || outcomeNotes.trim().length < 10}
+                  >
+                    {submitting ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : (
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                    )}
+                    Close Case
+                  </Button>
+                </DialogFooter>
+              </div>
+            ) : (
+              <DialogFooter>
+                <Button variant="outline" onClick={() => onOpenChange(false)}>
+                  Done
+                </Button>
+                <Button onClick={() => setClosing(true)}>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Close Case
+                </Button>
+              </DialogFooter>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
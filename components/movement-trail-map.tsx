@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { cn } from "@/lib/utils"
+import type { HighRiskZone } from "@/hooks/useZones"
+import type { MovementTrail } from "@/lib/movement-trail"
+
+interface MovementTrailMapProps {
+  trail: MovementTrail
+  className?: string
+}
+
+const TRAIL_SOURCE = "movement-trail"
+const ZONES_SOURCE = "movement-trail-zones"
+
+const ZONE_COLORS: Record<HighRiskZone["severity"], string> = {
+  low: "#eab308",
+  medium: "#f97316",
+  high: "#ef4444",
+  critical: "#991b1b",
+}
+
+// Interactive map of a tourist's recorded positions, oldest to newest
+export function MovementTrailMap({ trail, className }: MovementTrailMapProps) {
+  const mapContainer = useRef<HTMLDivElement>(null)
+  const map = useRef<any>(null)
+  const mapboxgl = useRef<any>(null)
+  const markerRefs = useRef<any[]>([])
+  const [mapLoaded, setMapLoaded] = useState(false)
+
+  useEffect(() => {
+    if (map.current || !mapContainer.current) return
+
+    const loadMapbox = async () => {
+      try {
+        mapboxgl.current = await import("mapbox-gl")
+
+        if (!document.querySelector('link[href*="mapbox-gl"]')) {
+          const link = document.createElement("link")
+          link.href = "https://api.mapbox.com/mapbox-gl-js/v3.0.1/mapbox-gl.css"
+          link.rel = "stylesheet"
+          document.head.appendChild(link)
+        }
+
+        mapboxgl.current.default.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN
+
+        const first = trail.points[0]?.coordinates ?? { lat: 13.0827, lng: 80.2707 }
+        map.current = new mapboxgl.current.default.Map({
+          container: mapContainer.current!,
+          style: "mapbox://styles/mapbox/streets-v12",
+          center: [first.lng, first.lat],
+          zoom: 13,
+        })
+        map.current.addControl(new mapboxgl.current.default.NavigationControl(), "top-right")
+
+        map.current.on("load", () => setMapLoaded(true))
+      } catch (error) {
+        console.error("Failed to load Mapbox:", error)
+        setMapLoaded(false)
+      }
+    }
+
+    loadMapbox()
+
+    return () => {
+      if (map.current) {
+        map.current.remove()
+        map.current = null
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!mapLoaded || !map.current || !mapboxgl.current) return
+
+    const zonesData = {
+      type: "FeatureCollection",
+      features: trail.crossedZones.map((zone) => {
+        const coordinates = zone.coordinates.map((coord) => [coord.lng, coord.lat])
+        coordinates.push(coordinates[0]) // Close the polygon
+        return {
+          type: "Feature",
+          properties: { name: zone.name, color: ZONE_COLORS[zone.severity] },
+          geometry: { type: "Polygon", coordinates: [coordinates] },
+        }
+      }),
+    }
+
+    const trailData = {
+      type: "FeatureCollection",
+      features: trail.segments.map((segment) => ({
+        type: "Feature",
+        properties: { gap: segment.gap },
+        geometry: {
+          type: "LineString",
+          coordinates: [
+            [segment.from.coordinates.lng, segment.from.coordinates.lat],
+            [segment.to.coordinates.lng, segment.to.coordinates.lat],
+          ],
+        },
+      })),
+    }
+
+    if (map.current.getSource(ZONES_SOURCE)) {
+      map.current.getSource(ZONES_SOURCE).setData(zonesData)
+      map.current.getSource(TRAIL_SOURCE).setData(trailData)
+    } else {
+      map.current.addSource(ZONES_SOURCE, { type: "geojson", data: zonesData })
+      map.current.addLayer({
+        id: ZONES_SOURCE,
+        type: "fill",
+        source: ZONES_SOURCE,
+        paint: { "fill-color": ["get", "color"], "fill-opacity": 0.25 },
+      })
+      map.current.addLayer({
+        id: `${ZONES_SOURCE}-border`,
+        type: "line",
+        source: ZONES_SOURCE,
+        paint: { "line-color": ["get", "color"], "line-width": 2 },
+      })
+
+      map.current.addSource(TRAIL_SOURCE, { type: "geojson", data: trailData })
+      map.current.addLayer({
+        id: TRAIL_SOURCE,
+        type: "line",
+        source: TRAIL_SOURCE,
+        filter: ["==", ["get", "gap"], false],
+        paint: { "line-color": "#2563eb", "line-width": 3 },
+      })
+      map.current.addLayer({
+        id: `${TRAIL_SOURCE}-gaps`,
+        type: "line",
+        source: TRAIL_SOURCE,
+        filter: ["==", ["get", "gap"], true],
+        paint: { "line-color": "#f97316", "line-width": 3, "line-dasharray": [2, 2] },
+      })
+    }
+
+    markerRefs.current.forEach((marker) => marker.remove())
+    markerRefs.current = trail.points.map((point, index) => {
+      const isFirst = index === 0
+      const isLast = index === trail.points.length - 1
+      const el = document.createElement("div")
+      el.style.cssText = `
+        width: ${isFirst || isLast ? 22 : 16}px;
+        height: ${isFirst || isLast ? 22 : 16}px;
+        border-radius: 50%;
+        background: ${isLast ? "#dc2626" : isFirst ? "#16a34a" : "#2563eb"};
+        border: 2px solid white;
+        box-shadow: 0 1px 3px rgba(0,0,0,0.4);
+        color: white;
+        font-size: 9px;
+        font-weight: bold;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      `
+      el.textContent = String(index + 1)
+
+      const popup = new mapboxgl.current.default.Popup({ offset: 12 }).setText(
+        `#${index + 1} · ${new Date(point.timestamp).toLocaleString()}${point.address ? ` · ${point.address}` : ""}`
+      )
+
+      return new mapboxgl.current.default.Marker(el)
+        .setLngLat([point.coordinates.lng, point.coordinates.lat])
+        .setPopup(popup)
+        .addTo(map.current)
+    })
+
+    if (trail.points.length === 1) {
+      map.current.setCenter([trail.points[0].coordinates.lng, trail.points[0].coordinates.lat])
+    } else if (trail.points.length > 1) {
+      const bounds = new mapboxgl.current.default.LngLatBounds()
+      trail.points.forEach((point) => bounds.extend([point.coordinates.lng, point.coordinates.lat]))
+      map.current.fitBounds(bounds, { padding: 40, maxZoom: 16, duration: 0 })
+    }
+  }, [mapLoaded, trail])
+
+  return (
+    <div className={cn("relative h-72 w-full overflow-hidden rounded-lg border border-border", className)}>
+      <div ref={mapContainer} className="absolute inset-0" />
+      {!mapLoaded && (
+        <div className="absolute inset-0 flex items-center justify-center bg-muted/50 text-xs text-muted-foreground">
+          Loading map...
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import { CheckCircle, Loader2, Send, Users, XCircle } from "lucide-react"
+import type { TouristProfile } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import {
+  NOTIFICATION_LANGUAGES,
+  NOTIFICATION_REASONS,
+  getNotifiableContacts,
+  renderNotificationMessage,
+  suggestNotificationLanguage,
+  type ContactDelivery,
+  type ContactNotificationRecord,
+  type ContactRecipient,
+  type NotificationLanguage,
+  type NotificationReason,
+} from "@/lib/contact-notifications"
+import { getMessagingProvider, type MessageChannel } from "@/lib/messaging-provider"
+import { getTouristDisplayName } from "@/lib/missing-person"
+
+interface NotifyContactsDialogProps {
+  tourist: TouristProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultReason?: NotificationReason
+  location?: string
+  // Complaint or case ID passed to the provider with each message
+  reference: string
+  // Saves the outcome on the complaint or tourist record
+  onRecord: (record: ContactNotificationRecord) => Promise<void>
+}
+
+const recipientKey = (recipient: ContactRecipient) => recipient.kind
+
+// Stands in for the recipient's name when one message goes to several contacts
+const NOTIFICATION_CONTACT_PLACEHOLDER = "{contact}"
+
+export function NotifyContactsDialog({
+  tourist,
+  open,
+  onOpenChange,
+  defaultReason = "incident",
+  location,
+  reference,
+  onRecord,
+}: NotifyContactsDialogProps) {
+  const currentOfficer = useCurrentOfficer()
+  const contacts = tourist ? getNotifiableContacts(tourist) : []
+
+  const [reason, setReason] = useState<NotificationReason>(defaultReason)
+  const [language, setLanguage] = useState<NotificationLanguage>("en")
+  const [channel, setChannel] = useState<MessageChannel>("sms")
+  const [selected, setSelected] = useState<string[]>([])
+  const [message, setMessage] = useState("")
+  const [sending, setSending] = useState(false)
+  const [deliveries, setDeliveries] = useState<ContactDelivery[] | null>(null)
+
+  const resolvedLocation = location || tourist?.profile?.lastKnownLocation?.address || "an undisclosed location"
+
+  useEffect(() => {
+    if (!open || !tourist) return
+    setReason(defaultReason)
+    setLanguage(suggestNotificationLanguage(tourist.profile?.nationality))
+    setChannel("sms")
+    setSelected(getNotifiableContacts(tourist).filter((contact) => contact.phone).map(recipientKey))
+    setDeliveries(null)
+  }, [open, tourist, defaultReason])
+
+  // Re-render the template when its inputs change; manual edits are replaced
+  useEffect(() => {
+    if (!tourist) return
+    setMessage(
+      renderNotificationMessage(reason, language, {
+        contactName: contacts.length === 1 ? contacts[0].name : NOTIFICATION_CONTACT_PLACEHOLDER,
+        touristName: getTouristDisplayName(tourist),
+        location: resolvedLocation,
+        officerName: currentOfficer.name,
+      })
+    )
+  }, [tourist, reason, language, resolvedLocation, currentOfficer.name, contacts.length])
+
+  if (!tourist) return null
+
+  const canReach = (recipient: ContactRecipient) => (channel === "sms" ? !!recipient.phone : !!recipient.email)
+  const recipients = contacts.filter((contact) => selected.includes(recipientKey(contact)) && canReach(contact))
+
+  const handleSend = async () => {
+    if (recipients.length === 0 || !message.trim()) return
+    // The outcome must be logged, so nothing goes out while the log cannot be written
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      toast({
+        title: "You are offline",
+        description: "Contacts can be notified once the connection is back, so the messages can be logged",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const provider = getMessagingProvider()
+    setSending(true)
+    try {
+      const results = await Promise.all(
+        recipients.map(async (recipient): Promise<ContactDelivery> => {
+          const result = await provider.send({
+            channel,
+            to: { name: recipient.name, phone: recipient.phone, email: recipient.email },
+            subject: channel === "email" ? `Tourist Police: ${getTouristDisplayName(tourist)}` : undefined,
+            body: message.replaceAll(NOTIFICATION_CONTACT_PLACEHOLDER, recipient.name),
+            reference,
+          })
+          return { ...result, recipient, channel, sentAt: new Date().toISOString() }
+        })
+      )
+      setDeliveries(results)
+
+      await onRecord({
+        reason,
+        language,
+        message,
+        provider: provider.name,
+        sentBy: currentOfficer.name,
+        deliveries: results,
+      })
+
+      const failed = results.filter((result) => result.status === "failed").length
+      toast({
+        title: failed ? "Some messages failed" : "Contacts notified",
+        description: `${results.length - failed} of ${results.length} message${results.length === 1 ? "" : "s"} sent`,
+        variant: failed ? "destructive" : undefined,
+      })
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to record the notification",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Notify Contacts
+          </DialogTitle>
+          <DialogDescription>
+            Message the emergency and local contacts of {getTouristDisplayName(tourist)}. The delivery outcome is
+            recorded with your name.
+          </DialogDescription>
+        </DialogHeader>
+
+        {deliveries ? (
+          <div className="space-y-2">
+            {deliveries.map((delivery) => (
+              <div key={recipientKey(delivery.recipient)} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                {delivery.status === "sent" ? (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-600" />
+                )}
+                <span className="font-medium">{delivery.recipient.name}</span>
+                <Badge variant="outline">{delivery.channel.toUpperCase()}</Badge>
+                <span className="text-muted-foreground">
+                  {delivery.status === "sent" ? "Sent" : delivery.error || "Failed"}
+                </span>
+              </div>
+            ))}
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : contacts.length === 0 ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This tourist has no emergency or local contact on file. Add one from their profile first.
+            </p>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-3 space-y-1">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={(value) => setReason(value as NotificationReason)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_REASONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label>Language</Label>
+                <Select value={language} onValueChange={(value) => setLanguage(value as NotificationLanguage)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_LANGUAGES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Channel</Label>
+                <Select value={channel} onValueChange={(value) => setChannel(value as MessageChannel)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sms">SMS</SelectItem>
+                    <SelectItem value="email">Email</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Recipients</Label>
+              {contacts.map((contact) => {
+                const key = recipientKey(contact)
+                const reachable = canReach(contact)
+                return (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={reachable && selected.includes(key)}
+                      disabled={!reachable}
+                      onCheckedChange={(checked) =>
+                        setSelected((prev) => (checked ? [...prev, key] : prev.filter((item) => item !== key)))
+                      }
+                    />
+                    <span className="font-medium">{contact.name}</span>
+                    <span className="text-muted-foreground">
+                      {contact.relationship} · {(channel === "sms" ? contact.phone : contact.email) || `No ${channel === "sms" ? "phone" : "email"}`}
+                    </span>
+                  </label>
+                )
+              })}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="notify-contacts-message">Message</Label>
+              <Textarea
+                id="notify-contacts-message"
+                rows={6}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              {contacts.length > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  {NOTIFICATION_CONTACT_PLACEHOLDER} is replaced with each recipient's name
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+                Cancel
+              </Button>
+              <Button onClick={handleSend} disabled={sending || recipients.length === 0 || !message.trim()}>
+                {sending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+                Send to {recipients.length}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
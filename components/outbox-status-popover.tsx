@@ -0,0 +1,106 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Trash2, Upload } from "lucide-react"
+import { QUEUED_ACTION_LABELS, type QueuedAction } from "@/lib/complaint-outbox"
+
+interface OutboxStatusPopoverProps {
+  actions: QueuedAction[]
+  online: boolean
+  syncing: boolean
+  onSync: () => void
+  onRetry: (action: QueuedAction) => void
+  onDiscard: (id: number) => void
+}
+
+const describeHeld = (action: QueuedAction) =>
+  action.state === "conflict"
+    ? `Complaint is now ${action.serverStatus ?? "changed"} (was ${action.expectedStatus ?? "unknown"})`
+    : action.error || "Rejected by the server"
+
+// Offline indicator and the queue of officer actions waiting to be sent
+export function OutboxStatusPopover({ actions, online, syncing, onSync, onRetry, onDiscard }: OutboxStatusPopoverProps) {
+  if (online && actions.length === 0) return null
+
+  const pending = actions.filter((action) => action.state === "pending")
+  const held = actions.filter((action) => action.state !== "pending")
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="hover-lift gap-1" title="Offline actions">
+          {online ? <Upload className="w-4 h-4" /> : <CloudOff className="w-4 h-4 text-muted-foreground" />}
+          {!online && <span className="text-xs text-muted-foreground">Offline</span>}
+          {pending.length > 0 && <Badge variant="secondary">{pending.length}</Badge>}
+          {held.length > 0 && <Badge variant="destructive">{held.length}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-sm font-semibold">Offline Actions</p>
+            <p className="text-xs text-muted-foreground">
+              {online
+                ? "Pending actions are sent in the order they were taken"
+                : "You are offline. Actions are saved and sent when the connection returns"}
+            </p>
+          </div>
+          {online && pending.length > 0 && (
+            <Button size="sm" variant="outline" onClick={onSync} disabled={syncing}>
+              {syncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          )}
+        </div>
+
+        {actions.length === 0 && <p className="text-sm text-muted-foreground">Nothing waiting to be sent</p>}
+
+        {pending.length > 0 && (
+          <div className="space-y-1">
+            {pending.map((action) => (
+              <div key={action.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {QUEUED_ACTION_LABELS[action.type]}
+                  <span className="ml-1 font-mono text-xs text-muted-foreground">{action.complaintId}</span>
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(action.queuedAt).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {held.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-destructive flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              Needs review
+            </p>
+            {held.map((action) => (
+              <div key={action.id} className="rounded-md border border-destructive/50 p-2 text-sm space-y-2">
+                <div>
+                  <p>
+                    {QUEUED_ACTION_LABELS[action.type]}
+                    <span className="ml-1 font-mono text-xs text-muted-foreground">{action.complaintId}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeHeld(action)}</p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => onDiscard(action.id)}>
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Discard
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onRetry(action)} disabled={!online}>
+                    Send anyway
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
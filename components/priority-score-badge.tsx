@@ -0,0 +1,41 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import { Gauge } from "lucide-react"
+import type { PriorityScore } from "@/lib/complaint-priority"
+
+// Thresholds for the badge colour only; the raw score drives the ordering
+const HIGH_PRIORITY = 60
+const ELEVATED_PRIORITY = 35
+
+export function PriorityScoreBadge({ score }: { score: PriorityScore }) {
+  const className =
+    score.total >= HIGH_PRIORITY
+      ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      : score.total >= ELEVATED_PRIORITY
+        ? "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+        : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`cursor-help ${className}`}>
+          <Gauge className="w-3 h-3 mr-1" />
+          P{score.total}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-semibold mb-1">Priority score {score.total}</p>
+        <ul className="space-y-0.5">
+          {score.factors.map((factor) => (
+            <li key={factor.label} className="flex justify-between gap-4">
+              <span>{factor.label}</span>
+              <span>+{factor.points}</span>
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
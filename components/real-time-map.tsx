@@ -1,12 +1,31 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
-import { MapPin, Users, AlertTriangle, Shield, Eye, Layers, Zap } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { MapAlertPanel } from "@/components/map-alert-panel"
+import {
+  MapPin,
+  Users,
+  AlertTriangle,
+  Shield,
+  Eye,
+  Layers,
+  Zap,
+  Bell,
+  Crosshair,
+  LocateFixed,
+  Loader2,
+  RefreshCw,
+} from "lucide-react"
+import { useAuthorityApi, type Alert } from "@/hooks/useAuthorityApi"
+import { applyComplaintEvent } from "@/lib/complaint-stream"
+import { distanceInMeters } from "@/lib/complaint-duplicates"
 
 interface TouristLocation {
   id: string
@@ -26,15 +45,58 @@ interface SafetyZone {
   description: string
 }
 
+// Marker colours follow the severity badges in the alerts list
+const SEVERITY_MARKER_COLORS: Record<Alert["severity"], string> = {
+  critical: "#dc2626",
+  high: "#ef4444",
+  medium: "#f97316",
+  low: "#eab308",
+}
+
+const SEARCH_RADII = [1000, 2000, 5000, 10000]
+
+const DEFAULT_SEARCH_CENTER = { lat: 13.0827, lng: 80.2707 }
+
+// Approximate the search radius as a 64-sided polygon for the map overlay
+const circlePolygon = (center: { lat: number; lng: number }, radiusMeters: number) => {
+  const latRadius = radiusMeters / 111320
+  const lngRadius = radiusMeters / (111320 * Math.cos((center.lat * Math.PI) / 180))
+  const ring = Array.from({ length: 65 }, (_, i) => {
+    const angle = (i / 64) * 2 * Math.PI
+    return [center.lng + lngRadius * Math.cos(angle), center.lat + latRadius * Math.sin(angle)]
+  })
+
+  return {
+    type: "Feature" as const,
+    properties: {},
+    geometry: { type: "Polygon" as const, coordinates: [ring] },
+  }
+}
+
 export function RealTimeMap() {
+  const { fetchNearbyComplaints, subscribeToComplaints } = useAuthorityApi()
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<any>(null)
+  const mapboxgl = useRef<any>(null)
   const [mapLoaded, setMapLoaded] = useState(false)
   const [heatmapEnabled, setHeatmapEnabled] = useState(false)
   const [showSafetyZones, setShowSafetyZones] = useState(true)
   const [showTouristClusters, setShowTouristClusters] = useState(true)
   const [selectedLocation, setSelectedLocation] = useState<TouristLocation | null>(null)
 
+  // Alerts layer
+  const [showAlerts, setShowAlerts] = useState(true)
+  const [searchCenter, setSearchCenter] = useState(DEFAULT_SEARCH_CENTER)
+  const [searchRadius, setSearchRadius] = useState(5000)
+  const [pickingCenter, setPickingCenter] = useState(false)
+  const [locating, setLocating] = useState(false)
+  const [nearbyAlerts, setNearbyAlerts] = useState<Alert[]>([])
+  const [alertsLoading, setAlertsLoading] = useState(false)
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null)
+  const alertMarkers = useRef<any[]>([])
+  const centerMarker = useRef<any>(null)
+  const pickingCenterRef = useRef(false)
+
   // Mock tourist locations data
   const [touristLocations, setTouristLocations] = useState<TouristLocation[]>([
     {
@@ -116,7 +178,8 @@ export function RealTimeMap() {
     const loadMapbox = async () => {
       try {
         // Load Mapbox GL JS and CSS
-        const mapboxgl = await import("mapbox-gl")
+        const mapbox = await import("mapbox-gl")
+        mapboxgl.current = mapbox
 
         // Add Mapbox CSS
         if (!document.querySelector('link[href*="mapbox-gl"]')) {
@@ -127,10 +190,10 @@ export function RealTimeMap() {
         }
 
         // Set access token (you'll need to add this to your environment variables)
-        mapboxgl.default.accessToken =
+        mapbox.default.accessToken =
           process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN
 
-        map.current = new mapboxgl.default.Map({
+        map.current = new mapbox.default.Map({
           container: mapContainer.current!,
           style: "mapbox://styles/mapbox/streets-v12",
           center: [80.2707, 13.0827], // Chennai coordinates
@@ -142,6 +205,13 @@ export function RealTimeMap() {
           addTouristMarkers()
           addSafetyZones()
         })
+
+        // Clicking the map moves the alert search center while picking
+        map.current.on("click", (e: any) => {
+          if (!pickingCenterRef.current) return
+          setSearchCenter({ lat: e.lngLat.lat, lng: e.lngLat.lng })
+          setPickingCenter(false)
+        })
       } catch (error) {
         console.error("Failed to load Mapbox:", error)
         setMapLoaded(false)
@@ -277,6 +347,152 @@ export function RealTimeMap() {
     }
   }
 
+  useEffect(() => {
+    pickingCenterRef.current = pickingCenter
+    if (map.current) map.current.getCanvas().style.cursor = pickingCenter ? "crosshair" : ""
+  }, [pickingCenter])
+
+  const isInSearchArea = useCallback(
+    (alert: Alert) =>
+      alert.status !== "resolved" &&
+      alert.coordinates !== null &&
+      distanceInMeters(alert.coordinates, searchCenter) <= searchRadius,
+    [searchCenter, searchRadius]
+  )
+
+  const loadNearbyAlerts = useCallback(async () => {
+    if (!showAlerts) return
+
+    setAlertsLoading(true)
+    const response = await fetchNearbyComplaints(searchCenter.lat, searchCenter.lng, searchRadius)
+    setAlertsLoading(false)
+
+    if (response.data) {
+      setNearbyAlerts(response.data.complaints.filter(isInSearchArea))
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to load nearby alerts",
+        variant: "destructive",
+      })
+    }
+  }, [showAlerts, searchCenter, searchRadius, isInSearchArea, fetchNearbyComplaints])
+
+  useEffect(() => {
+    loadNearbyAlerts()
+  }, [loadNearbyAlerts])
+
+  // Read through a ref so moving the search area does not resubscribe
+  const isInSearchAreaRef = useRef(isInSearchArea)
+  isInSearchAreaRef.current = isInSearchArea
+
+  // Keep the layer current with pushed complaint changes inside the search area
+  useEffect(() => {
+    if (!showAlerts) return
+    return subscribeToComplaints((event) => {
+      setNearbyAlerts((prev) => applyComplaintEvent(prev, event, (alert) => isInSearchAreaRef.current(alert)))
+    })
+  }, [showAlerts, subscribeToComplaints])
+
+  const centerOnOfficerLocation = () => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "This browser cannot share its location", variant: "destructive" })
+      return
+    }
+
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false)
+        setSearchCenter({ lat: position.coords.latitude, lng: position.coords.longitude })
+        map.current?.flyTo({ center: [position.coords.longitude, position.coords.latitude], zoom: 13 })
+      },
+      (err) => {
+        setLocating(false)
+        toast({ title: "Location unavailable", description: err.message, variant: "destructive" })
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  }
+
+  // Draw the search radius and one marker per alert
+  useEffect(() => {
+    if (!mapLoaded || !map.current || !mapboxgl.current) return
+
+    alertMarkers.current.forEach((marker) => marker.remove())
+    alertMarkers.current = []
+    centerMarker.current?.remove()
+    centerMarker.current = null
+
+    const radiusVisibility = showAlerts ? "visible" : "none"
+    const radiusData = circlePolygon(searchCenter, searchRadius)
+    if (map.current.getSource("alert-search-radius")) {
+      map.current.getSource("alert-search-radius").setData(radiusData)
+      map.current.setLayoutProperty("alert-search-radius", "visibility", radiusVisibility)
+      map.current.setLayoutProperty("alert-search-radius-border", "visibility", radiusVisibility)
+    } else {
+      map.current.addSource("alert-search-radius", { type: "geojson", data: radiusData })
+      map.current.addLayer({
+        id: "alert-search-radius",
+        type: "fill",
+        source: "alert-search-radius",
+        layout: { visibility: radiusVisibility },
+        paint: { "fill-color": "#3b82f6", "fill-opacity": 0.08 },
+      })
+      map.current.addLayer({
+        id: "alert-search-radius-border",
+        type: "line",
+        source: "alert-search-radius",
+        layout: { visibility: radiusVisibility },
+        paint: { "line-color": "#3b82f6", "line-width": 2, "line-dasharray": [2, 2] },
+      })
+    }
+
+    if (!showAlerts) return
+
+    const centerEl = document.createElement("div")
+    centerEl.style.cssText = `
+      width: 12px;
+      height: 12px;
+      background: #3b82f6;
+      border: 2px solid white;
+      border-radius: 50%;
+      box-shadow: 0 0 0 4px rgba(59,130,246,0.3);
+    `
+    centerMarker.current = new mapboxgl.current.default.Marker(centerEl)
+      .setLngLat([searchCenter.lng, searchCenter.lat])
+      .addTo(map.current)
+
+    nearbyAlerts.forEach((alert) => {
+      if (!alert.coordinates) return
+
+      const el = document.createElement("div")
+      const size = alert.isEmergencySOS ? 22 : 16
+      el.style.cssText = `
+        width: ${size}px;
+        height: ${size}px;
+        background: ${SEVERITY_MARKER_COLORS[alert.severity]};
+        border: 3px solid ${alert.id === selectedAlertId ? "#111827" : "white"};
+        border-radius: 50%;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        cursor: pointer;
+      `
+      el.title = `${alert.complaintId} • ${alert.touristName} • ${alert.severity.toUpperCase()}`
+      el.addEventListener("click", (e) => {
+        e.stopPropagation()
+        setSelectedAlertId(alert.id)
+      })
+
+      alertMarkers.current.push(
+        new mapboxgl.current.default.Marker(el)
+          .setLngLat([alert.coordinates.lng, alert.coordinates.lat])
+          .addTo(map.current)
+      )
+    })
+  }, [mapLoaded, showAlerts, nearbyAlerts, searchCenter, searchRadius, selectedAlertId])
+
+  const selectedAlert = nearbyAlerts.find((alert) => alert.id === selectedAlertId) || null
+
   // Simulate real-time updates
   useEffect(() => {
     const interval = setInterval(() => {
@@ -332,7 +548,61 @@ export function RealTimeMap() {
                 Tourist Clusters
               </Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="alerts-layer" checked={showAlerts} onCheckedChange={setShowAlerts} />
+              <Label htmlFor="alerts-layer" className="flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                Active Alerts
+              </Label>
+            </div>
           </div>
+          {showAlerts && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm text-muted-foreground">Search within</span>
+              <Select value={String(searchRadius)} onValueChange={(value) => setSearchRadius(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEARCH_RADII.map((radius) => (
+                    <SelectItem key={radius} value={String(radius)}>
+                      {radius / 1000} km
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                of {searchCenter.lat.toFixed(4)}, {searchCenter.lng.toFixed(4)}
+              </span>
+              <Button
+                size="sm"
+                variant={pickingCenter ? "default" : "outline"}
+                onClick={() => setPickingCenter((prev) => !prev)}
+              >
+                <Crosshair className="w-4 h-4 mr-1" />
+                {pickingCenter ? "Click on the map..." : "Pick on map"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={centerOnOfficerLocation} disabled={locating}>
+                {locating ? <Loader2 className="w-4 h-4 animate-spin mr-1" /> : <LocateFixed className="w-4 h-4 mr-1" />}
+                My location
+              </Button>
+              <Button size="sm" variant="ghost" onClick={loadNearbyAlerts} disabled={alertsLoading}>
+                <RefreshCw className={`w-4 h-4 mr-1 ${alertsLoading ? "animate-spin" : ""}`} />
+                {nearbyAlerts.length} alert{nearbyAlerts.length === 1 ? "" : "s"}
+              </Button>
+              <div className="flex items-center gap-3 ml-auto text-xs text-muted-foreground">
+                {(Object.keys(SEVERITY_MARKER_COLORS) as Alert["severity"][]).map((severity) => (
+                  <span key={severity} className="flex items-center gap-1">
+                    <span
+                      className="inline-block w-3 h-3 rounded-full"
+                      style={{ background: SEVERITY_MARKER_COLORS[severity] }}
+                    />
+                    {severity}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -366,6 +636,16 @@ export function RealTimeMap() {
         </CardContent>
       </Card>
 
+      {/* Alert Details Panel */}
+      {selectedAlert && (
+        <MapAlertPanel
+          alert={selectedAlert}
+          distanceMeters={selectedAlert.coordinates ? distanceInMeters(selectedAlert.coordinates, searchCenter) : undefined}
+          onClose={() => setSelectedAlertId(null)}
+          onUpdated={loadNearbyAlerts}
+        />
+      )}
+
       {/* Location Details Panel */}
       {selectedLocation && (
         <Card>
@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Gauge, Loader2 } from "lucide-react"
+import type { Alert } from "@/hooks/useAuthorityApi"
+
+const SEVERITIES: Alert["severity"][] = ["critical", "high", "medium", "low"]
+
+interface ReclassifySeverityDialogProps {
+  alert: Alert | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  submitting?: boolean
+  onConfirm: (severity: Alert["severity"], reason: string) => void
+}
+
+export function ReclassifySeverityDialog({
+  alert,
+  open,
+  onOpenChange,
+  submitting = false,
+  onConfirm,
+}: ReclassifySeverityDialogProps) {
+  const [severity, setSeverity] = useState<Alert["severity"]>("medium")
+  const [reason, setReason] = useState("")
+
+  useEffect(() => {
+    if (open && alert) {
+      setSeverity(alert.severity)
+      setReason("")
+    }
+  }, [open, alert])
+
+  const trimmed = reason.trim()
+  const unchanged = severity === alert?.severity
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reclassify Severity</DialogTitle>
+          <DialogDescription>
+            Complaint {alert?.complaintId} is currently {alert?.severity.toUpperCase()}. SLA targets follow the new
+            severity.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="new-severity">New Severity *</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as Alert["severity"])}>
+              <SelectTrigger id="new-severity" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="reclassify-reason">Reason *</Label>
+            <Textarea
+              id="reclassify-reason"
+              placeholder="Why the severity should change..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(severity, trimmed)} disabled={unchanged || !trimmed || submitting}>
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Gauge className="w-4 h-4 mr-2" />}
+            Reclassify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, RotateCcw } from "lucide-react"
+import type { Alert } from "@/hooks/useAuthorityApi"
+
+const MIN_REASON_LENGTH = 10
+
+interface ReopenComplaintDialogProps {
+  alert: Alert | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  submitting?: boolean
+  onConfirm: (reason: string) => void
+}
+
+export function ReopenComplaintDialog({
+  alert,
+  open,
+  onOpenChange,
+  submitting = false,
+  onConfirm,
+}: ReopenComplaintDialogProps) {
+  const [reason, setReason] = useState("")
+
+  useEffect(() => {
+    if (open) setReason("")
+  }, [open])
+
+  const trimmed = reason.trim()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reopen Complaint</DialogTitle>
+          <DialogDescription>
+            Complaint {alert?.complaintId} is {alert?.status}. Reopening returns it to the active queue.
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="reopen-reason">Reason *</Label>
+          <Textarea
+            id="reopen-reason"
+            placeholder="What changed since the case was closed..."
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+          />
+          {trimmed.length > 0 && trimmed.length < MIN_REASON_LENGTH && (
+            <p className="text-xs text-destructive mt-1">Give a reason of at least {MIN_REASON_LENGTH} characters</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(trimmed)} disabled={trimmed.length < MIN_REASON_LENGTH || submitting}>
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            Reopen
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
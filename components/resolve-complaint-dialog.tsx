@@ -0,0 +1,228 @@
+"use client"
+
+import { useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { CheckCircle, Loader2 } from "lucide-react"
+
+export const RESOLUTION_OUTCOMES = [
+  { value: "recovered_property", label: "Recovered property" },
+  { value: "medical_handover", label: "Medical handover" },
+  { value: "tourist_located", label: "Tourist located" },
+  { value: "dispute_settled", label: "Dispute settled" },
+  { value: "referred_to_agency", label: "Referred to other agency" },
+  { value: "advice_given", label: "Advice given" },
+  { value: "false_alarm", label: "False alarm" },
+  { value: "other", label: "Other" },
+] as const
+
+const resolutionSchema = z
+  .object({
+    outcome: z.enum(
+      RESOLUTION_OUTCOMES.map((outcome) => outcome.value) as [
+        (typeof RESOLUTION_OUTCOMES)[number]["value"],
+        ...(typeof RESOLUTION_OUTCOMES)[number]["value"][],
+      ],
+      { required_error: "Select an outcome" }
+    ),
+    resolutionNotes: z.string().trim().min(10, "Describe the resolution in at least 10 characters"),
+    actionTaken: z.string().trim().min(5, "Describe the action taken"),
+    timeSpentMinutes: z.coerce
+      .number({ invalid_type_error: "Enter the time spent in minutes" })
+      .int("Use whole minutes")
+      .min(1, "Time spent must be at least 1 minute")
+      .max(1440, "Time spent cannot exceed 24 hours"),
+    followUpRequired: z.boolean(),
+    followUpNotes: z.string().trim().optional(),
+  })
+  .refine((values) => !values.followUpRequired || (values.followUpNotes?.length ?? 0) >= 5, {
+    message: "Describe the follow-up required",
+    path: ["followUpNotes"],
+  })
+
+export type ResolutionFormValues = z.infer<typeof resolutionSchema>
+
+const DEFAULT_VALUES: Partial<ResolutionFormValues> = {
+  resolutionNotes: "",
+  actionTaken: "",
+  followUpRequired: false,
+  followUpNotes: "",
+}
+
+interface ResolveComplaintDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  description: string
+  submitting?: boolean
+  onSubmit: (values: ResolutionFormValues) => void
+}
+
+export function ResolveComplaintDialog({
+  open,
+  onOpenChange,
+  description,
+  submitting = false,
+  onSubmit,
+}: ResolveComplaintDialogProps) {
+  const form = useForm<ResolutionFormValues>({
+    resolver: zodResolver(resolutionSchema),
+    defaultValues: DEFAULT_VALUES,
+  })
+
+  // Start every resolution from a blank form
+  useEffect(() => {
+    if (open) form.reset(DEFAULT_VALUES)
+  }, [open, form])
+
+  const followUpRequired = form.watch("followUpRequired")
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resolve Complaint</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="outcome"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Outcome *</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select outcome" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {RESOLUTION_OUTCOMES.map((outcome) => (
+                        <SelectItem key={outcome.value} value={outcome.value}>
+                          {outcome.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="actionTaken"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Action Taken *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Escorted tourist to hotel, returned wallet" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="resolutionNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Resolution Notes *</FormLabel>
+                  <FormControl>
+                    <Textarea rows={4} placeholder="What happened and how it was resolved..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="timeSpentMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Time Spent (minutes) *</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="followUpRequired"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start gap-3">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Follow-up required</FormLabel>
+                    <FormDescription>Flag the case for a later check-in with the tourist</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {followUpRequired && (
+              <FormField
+                control={form.control}
+                name="followUpNotes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow-up Details *</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="What needs to happen and when..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Resolve
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, RefreshCw, ShieldCheck } from "lucide-react"
+import { useTouristManagementApi, type RevealAuditEntry } from "@/hooks/useTouristManagementApi"
+import { SENSITIVE_FIELD_LABELS } from "@/lib/sensitive-fields"
+
+interface RevealAuditDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function RevealAuditDialog({ open, onOpenChange }: RevealAuditDialogProps) {
+  const { fetchRevealAudit } = useTouristManagementApi()
+  const [entries, setEntries] = useState<RevealAuditEntry[]>([])
+  const [loadingEntries, setLoadingEntries] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+
+  const loadEntries = async () => {
+    setLoadingEntries(true)
+    setLoadError(null)
+    try {
+      const response = await fetchRevealAudit()
+      setEntries(response.entries || [])
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : "Failed to load reveal audit log")
+    } finally {
+      setLoadingEntries(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) loadEntries()
+  }, [open])
+
+  const query = search.trim().toLowerCase()
+  const visibleEntries = query
+    ? entries.filter((entry) =>
+        [entry.officerName, entry.touristName, entry.touristId, entry.reason, SENSITIVE_FIELD_LABELS[entry.field]]
+          .filter(Boolean)
+          .some((value) => value!.toLowerCase().includes(query))
+      )
+    : entries
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Reveal Audit Log
+          </DialogTitle>
+          <DialogDescription>Every reveal of a protected tourist field, newest first</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Filter by officer, tourist, field or reason..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Button variant="outline" onClick={loadEntries} disabled={loadingEntries}>
+            <RefreshCw className={`w-4 h-4 ${loadingEntries ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {loadingEntries && entries.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : visibleEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No reveals recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleEntries.map((entry) => (
+              <div key={entry._id} className="rounded-md border p-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{entry.officerName}</span>
+                  <Badge variant="outline" className="capitalize">
+                    {entry.officerRole}
+                  </Badge>
+                  <span className="text-muted-foreground">revealed</span>
+                  <Badge variant="secondary">{SENSITIVE_FIELD_LABELS[entry.field] || entry.field}</Badge>
+                  <span className="text-muted-foreground">of {entry.touristName || entry.touristId}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {new Date(entry.revealedAt).toLocaleString()}
+                  </span>
+                </div>
+                <p className="mt-1 text-muted-foreground">{entry.reason}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
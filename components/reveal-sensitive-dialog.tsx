@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Eye, Loader2 } from "lucide-react"
+import {
+  MIN_REVEAL_REASON_LENGTH,
+  REVEAL_DURATION_MS,
+  SENSITIVE_FIELD_LABELS,
+  type SensitiveField,
+} from "@/lib/sensitive-fields"
+
+interface RevealSensitiveDialogProps {
+  field: SensitiveField | null
+  touristName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  submitting: boolean
+  onConfirm: (reason: string) => void
+}
+
+export function RevealSensitiveDialog({
+  field,
+  touristName,
+  open,
+  onOpenChange,
+  submitting,
+  onConfirm,
+}: RevealSensitiveDialogProps) {
+  const [reason, setReason] = useState("")
+
+  useEffect(() => {
+    if (open) setReason("")
+  }, [open])
+
+  const trimmed = reason.trim()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            Reveal {field ? SENSITIVE_FIELD_LABELS[field] : "Field"}
+          </DialogTitle>
+          <DialogDescription>
+            Viewing protected details of {touristName} is logged with your name and reason, and is visible to
+            supervisors. The value is hidden again after {Math.round(REVEAL_DURATION_MS / 60000)} minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="reveal-reason">Reason *</Label>
+          <Textarea
+            id="reveal-reason"
+            rows={3}
+            placeholder="e.g. Verifying passport at hospital admission, case CMP-1234"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          {trimmed.length > 0 && trimmed.length < MIN_REVEAL_REASON_LENGTH && (
+            <p className="text-xs text-destructive">Give a reason of at least {MIN_REVEAL_REASON_LENGTH} characters</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(trimmed)} disabled={submitting || trimmed.length < MIN_REVEAL_REASON_LENGTH}>
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+            Reveal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Eye, Lock } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface SensitiveValueProps {
+  value: string
+  revealedValue?: string
+  canReveal: boolean
+  onReveal: () => void
+  className?: string
+}
+
+// Shows the masked value from the API until the caller has revealed it through the audited endpoint
+export function SensitiveValue({ value, revealedValue, canReveal, onReveal, className }: SensitiveValueProps) {
+  if (revealedValue !== undefined) {
+    return <span className={className}>{revealedValue}</span>
+  }
+
+  return (
+    <span className={cn("inline-flex items-center gap-1", className)}>
+      <span className="font-mono tracking-wider">{value}</span>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        className="h-6 px-1"
+        onClick={onReveal}
+        disabled={!canReveal}
+        title={canReveal ? "Reveal (requires a reason and is logged)" : "Your role cannot reveal this field"}
+      >
+        {canReveal ? <Eye className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+      </Button>
+    </span>
+  )
+}
@@ -0,0 +1,452 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import {
+  AlertTriangle,
+  CheckCircle,
+  ClipboardList,
+  Clock,
+  Eye,
+  Loader2,
+  Printer,
+  RefreshCw,
+  Send,
+  Shield,
+  Users,
+} from "lucide-react"
+import { useAuthorityApi, type Alert, type ShiftHandover as ShiftHandoverRecord } from "@/hooks/useAuthorityApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { useTouristManagementApi, type TouristProfile } from "@/hooks/useTouristManagementApi"
+import { useZones } from "@/hooks/useZones"
+import {
+  compileHandover,
+  getHandoverPeriodStart,
+  printHandover,
+  type HandoverDocument,
+} from "@/lib/shift-handover"
+
+// Largest page the complaints and tourists endpoints serve; the handover pages through all of them
+const HANDOVER_PAGE_SIZE = 100
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : "—")
+
+function HandoverSections({ handover }: { handover: HandoverDocument }) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2 mb-2">
+          <AlertTriangle className="w-4 h-4" />
+          Open Complaints ({handover.openComplaints.length})
+        </h4>
+        {handover.openComplaints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open complaints</p>
+        ) : (
+          <div className="space-y-2">
+            {handover.openComplaints.map((complaint) => (
+              <div key={complaint.id} className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm">
+                <Badge variant="outline">{complaint.complaintId}</Badge>
+                <Badge
+                  variant={complaint.severity === "critical" || complaint.severity === "high" ? "destructive" : "secondary"}
+                >
+                  {complaint.severity.toUpperCase()}
+                </Badge>
+                <Badge variant="outline">{complaint.status.toUpperCase()}</Badge>
+                <span className="font-medium">{complaint.title}</span>
+                <span className="text-muted-foreground">
+                  {complaint.touristName} · {complaint.location} · {complaint.assignedOfficer || "Unassigned"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold flex items-center gap-2 mb-2">
+          <Shield className="w-4 h-4" />
+          New High-Risk Zones ({handover.zoneChanges.length})
+        </h4>
+        {handover.zoneChanges.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No new zones this shift</p>
+        ) : (
+          <div className="space-y-2">
+            {handover.zoneChanges.map((zone) => (
+              <div key={`${zone.zoneName}-${zone.timestamp}`} className="rounded-md border p-2 text-sm">
+                <span className="font-medium">{zone.zoneName}</span>
+                <span className="text-muted-foreground"> · {zone.details}</span>
+                <p className="text-xs text-muted-foreground">
+                  {zone.officer} · {formatDateTime(zone.timestamp)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold flex items-center gap-2 mb-2">
+          <Users className="w-4 h-4" />
+          Missing and Flagged Tourists ({handover.touristsOfConcern.length})
+        </h4>
+        {handover.touristsOfConcern.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No missing or flagged tourists</p>
+        ) : (
+          <div className="space-y-2">
+            {handover.touristsOfConcern.map((tourist) => (
+              <div key={tourist.id} className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm">
+                <Badge variant={tourist.status === "missing" ? "destructive" : "secondary"}>
+                  {tourist.status.toUpperCase()}
+                </Badge>
+                <span className="font-medium">{tourist.name}</span>
+                <span className="text-muted-foreground">
+                  {[tourist.nationality, tourist.phone, tourist.lastKnownLocation].filter(Boolean).join(" · ")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {handover.notes && (
+        <div>
+          <h4 className="font-semibold mb-2">Officer Notes</h4>
+          <p className="text-sm whitespace-pre-wrap">{handover.notes}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ShiftHandover() {
+  const { fetchComplaints, fetchHandovers, submitHandover, acknowledgeHandover } = useAuthorityApi()
+  const { fetchTourists } = useTouristManagementApi()
+  const { logs: zoneLogs, loadZones } = useZones()
+  const currentOfficer = useCurrentOfficer()
+
+  const [handovers, setHandovers] = useState<ShiftHandoverRecord[]>([])
+  const [historyLoading, setHistoryLoading] = useState(true)
+  const [draft, setDraft] = useState<HandoverDocument | null>(null)
+  const [notes, setNotes] = useState("")
+  const [compiling, setCompiling] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [viewing, setViewing] = useState<ShiftHandoverRecord | null>(null)
+  const [acknowledging, setAcknowledging] = useState(false)
+
+  const loadHandovers = useCallback(async () => {
+    setHistoryLoading(true)
+    const response = await fetchHandovers()
+    if (response.data) {
+      setHandovers(response.data.handovers)
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to load handover history",
+        variant: "destructive",
+      })
+    }
+    setHistoryLoading(false)
+  }, [fetchHandovers])
+
+  useEffect(() => {
+    loadHandovers()
+    loadZones()
+  }, [loadHandovers, loadZones])
+
+  // Handovers from other officers that nobody has signed for yet
+  const pending = handovers.filter(
+    (handover) => !handover.acknowledgedAt && handover.preparedBy !== currentOfficer.name
+  )
+
+  const fetchAllComplaints = async (status: string) => {
+    const complaints: Alert[] = []
+    let page = 1
+    let hasNext = true
+    while (hasNext) {
+      const response = await fetchComplaints({ status, page, limit: HANDOVER_PAGE_SIZE })
+      if (!response.data) throw new Error(response.error || "Failed to load open complaints")
+      complaints.push(...response.data.complaints)
+      hasNext = response.data.pagination.hasNext
+      page++
+    }
+    return complaints
+  }
+
+  const fetchAllTourists = async (status: string) => {
+    const tourists: TouristProfile[] = []
+    let page = 1
+    let hasNext = true
+    while (hasNext) {
+      const response = await fetchTourists({ status, page, limit: HANDOVER_PAGE_SIZE })
+      tourists.push(...response.tourists)
+      hasNext = response.pagination.hasNext
+      page++
+    }
+    return tourists
+  }
+
+  const prepareHandover = async () => {
+    setCompiling(true)
+    try {
+      const [active, acknowledged, missing, flagged] = await Promise.all([
+        fetchAllComplaints("active"),
+        fetchAllComplaints("acknowledged"),
+        fetchAllTourists("missing"),
+        fetchAllTourists("flagged"),
+      ])
+
+      setDraft(
+        compileHandover({
+          complaints: [...active, ...acknowledged],
+          zoneLogs,
+          tourists: [...missing, ...flagged],
+          periodStart: getHandoverPeriodStart(handovers[0]),
+          preparedBy: currentOfficer.name,
+          notes: "",
+        })
+      )
+    } catch (err) {
+      toast({
+        title: "Could not compile handover",
+        description: err instanceof Error ? err.message : "Failed to load handover data",
+        variant: "destructive",
+      })
+    } finally {
+      setCompiling(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!draft) return
+
+    setSubmitting(true)
+    const response = await submitHandover({ ...draft, notes: notes.trim() })
+    setSubmitting(false)
+
+    if (response.data) {
+      toast({ title: "Handover submitted", description: "The incoming shift has to acknowledge it" })
+      setDraft(null)
+      setNotes("")
+      loadHandovers()
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to submit handover",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleAcknowledge = async () => {
+    if (!viewing) return
+
+    setAcknowledging(true)
+    const response = await acknowledgeHandover(viewing.id, currentOfficer.name)
+    setAcknowledging(false)
+
+    if (response.data) {
+      toast({ title: "Handover acknowledged", description: `Shift taken over from ${viewing.preparedBy}` })
+      setViewing(null)
+      loadHandovers()
+    } else {
+      toast({
+        title: "Error",
+        description: response.error || "Failed to acknowledge handover",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handlePrint = (handover: HandoverDocument) => {
+    if (!printHandover(handover)) {
+      toast({
+        title: "Print blocked",
+        description: "Allow popups for this site to print the handover",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const canAcknowledge =
+    viewing !== null && !viewing.acknowledgedAt && viewing.preparedBy !== currentOfficer.name
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-card-foreground">Shift Handover</h2>
+          <p className="text-muted-foreground">Brief the incoming shift on open cases, new zones and tourists of concern</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadHandovers} disabled={historyLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${historyLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button onClick={prepareHandover} disabled={compiling || draft !== null}>
+            {compiling ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ClipboardList className="w-4 h-4 mr-2" />}
+            Prepare Handover
+          </Button>
+        </div>
+      </div>
+
+      {pending.length > 0 && (
+        <Card className="border-amber-500">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-600">
+              <Clock className="w-5 h-5" />
+              Awaiting Acknowledgement
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pending.map((handover) => (
+              <div key={handover.id} className="flex items-center justify-between rounded-md border p-3">
+                <div className="text-sm">
+                  <p className="font-medium">From {handover.preparedBy}</p>
+                  <p className="text-muted-foreground">
+                    {formatDateTime(handover.preparedAt)} · {handover.openComplaints.length} open complaints ·{" "}
+                    {handover.touristsOfConcern.length} tourists of concern
+                  </p>
+                </div>
+                <Button size="sm" onClick={() => setViewing(handover)}>
+                  <Eye className="w-4 h-4 mr-2" />
+                  Review
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Handover Draft</span>
+              <span className="text-sm font-normal text-muted-foreground">
+                {formatDateTime(draft.periodStart)} to {formatDateTime(draft.periodEnd)}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <HandoverSections handover={draft} />
+            <div>
+              <Label htmlFor="handover-notes">Officer Notes</Label>
+              <Textarea
+                id="handover-notes"
+                placeholder="Pending callbacks, ongoing searches, anything the next shift should watch..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={4}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={submitting}>
+                Discard
+              </Button>
+              <Button variant="outline" onClick={() => handlePrint({ ...draft, notes: notes.trim() })}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                Submit Handover
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Handover History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {historyLoading && handovers.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : handovers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No handovers recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {handovers.map((handover) => (
+                <div key={handover.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      {formatDateTime(handover.preparedAt)} · {handover.preparedBy}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {handover.openComplaints.length} open complaints · {handover.zoneChanges.length} new zones ·{" "}
+                      {handover.touristsOfConcern.length} tourists of concern
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {handover.acknowledgedAt ? (
+                      <Badge variant="outline" className="text-green-600">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        {handover.acknowledgedBy}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-amber-600">
+                        Unacknowledged
+                      </Badge>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => setViewing(handover)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handlePrint(handover)}>
+                      <Printer className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={viewing !== null} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Shift Handover from {viewing?.preparedBy}</DialogTitle>
+            <DialogDescription>
+              {formatDateTime(viewing?.periodStart)} to {formatDateTime(viewing?.periodEnd)}
+              {viewing?.acknowledgedAt &&
+                ` · Acknowledged by ${viewing.acknowledgedBy} at ${formatDateTime(viewing.acknowledgedAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && <HandoverSections handover={viewing} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => viewing && handlePrint(viewing)}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </Button>
+            {canAcknowledge && (
+              <Button onClick={handleAcknowledge} disabled={acknowledging}>
+                {acknowledging ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Acknowledge Handover
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
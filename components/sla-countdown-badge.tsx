@@ -0,0 +1,49 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Timer, TimerOff, CheckCircle } from "lucide-react"
+import type { Alert } from "@/hooks/useAuthorityApi"
+import { formatSlaRemaining, getSlaStatus, type SlaPolicy } from "@/lib/complaint-sla"
+
+interface SlaCountdownBadgeProps {
+  alert: Alert;
+  policy: SlaPolicy;
+  now: Date;
+}
+
+export function SlaCountdownBadge({ alert, policy, now }: SlaCountdownBadgeProps) {
+  const sla = getSlaStatus(alert, policy, now);
+
+  if (alert.status !== "active") {
+    if (sla.met === null) return null;
+    return (
+      <Badge
+        variant="outline"
+        className={sla.met ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}
+        title={`Acknowledgement target: ${sla.targetMinutes} min`}
+      >
+        <CheckCircle className="w-3 h-3 mr-1" />
+        {sla.met ? "SLA met" : "SLA missed"}
+      </Badge>
+    );
+  }
+
+  // Amber once less than a quarter of the window is left
+  const warning = !sla.breached && sla.remainingMs < sla.targetMinutes * 60000 * 0.25;
+  const className = sla.breached
+    ? "bg-red-600 text-white animate-pulse"
+    : warning
+      ? "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+      : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200";
+
+  return (
+    <Badge
+      variant="outline"
+      className={`font-mono ${className}`}
+      title={`Acknowledge by ${sla.deadline.toLocaleTimeString()} (${sla.targetMinutes} min target)`}
+    >
+      {sla.breached ? <TimerOff className="w-3 h-3 mr-1" /> : <Timer className="w-3 h-3 mr-1" />}
+      {sla.breached ? `SLA ${formatSlaRemaining(sla.remainingMs)}` : formatSlaRemaining(sla.remainingMs)}
+    </Badge>
+  );
+}
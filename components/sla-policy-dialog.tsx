@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { Alert } from "@/hooks/useAuthorityApi"
+import type { SlaPolicy } from "@/lib/complaint-sla"
+
+const SEVERITIES: Alert["severity"][] = ["critical", "high", "medium", "low"]
+const TYPES: Alert["type"][] = [
+  "panic_button",
+  "medical_emergency",
+  "lost_tourist",
+  "suspicious_activity",
+  "theft",
+  "accident",
+]
+
+interface SlaPolicyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: SlaPolicy;
+  onSave: (policy: SlaPolicy) => void;
+  onReset: () => void;
+}
+
+export function SlaPolicyDialog({ open, onOpenChange, policy, onSave, onReset }: SlaPolicyDialogProps) {
+  const [severityTargets, setSeverityTargets] = useState<Record<string, string>>({});
+  const [typeTargets, setTypeTargets] = useState<Record<string, string>>({});
+
+  // Edit a string copy so fields can be cleared while typing
+  useEffect(() => {
+    if (!open) return;
+    setSeverityTargets(
+      Object.fromEntries(SEVERITIES.map((severity) => [severity, String(policy.bySeverity[severity])]))
+    );
+    setTypeTargets(
+      Object.fromEntries(TYPES.map((type) => [type, policy.byType[type]?.toString() ?? ""]))
+    );
+  }, [open, policy]);
+
+  const severityValid = SEVERITIES.every((severity) => Number(severityTargets[severity]) > 0);
+  const typeValid = TYPES.every((type) => typeTargets[type] === "" || Number(typeTargets[type]) > 0);
+
+  const handleSave = () => {
+    onSave({
+      bySeverity: Object.fromEntries(
+        SEVERITIES.map((severity) => [severity, Number(severityTargets[severity])])
+      ) as SlaPolicy["bySeverity"],
+      byType: Object.fromEntries(
+        TYPES.filter((type) => typeTargets[type] !== "").map((type) => [type, Number(typeTargets[type])])
+      ),
+    });
+    onOpenChange(false);
+  };
+
+  const formatLabel = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>SLA Targets</DialogTitle>
+          <DialogDescription>
+            Minutes allowed to acknowledge a complaint. When a type target is set, the stricter of the type and
+            severity targets applies. Targets are shared by every officer, and active complaints that miss them are
+            escalated to the supervisor queue automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label className="text-base font-semibold">By Severity</Label>
+            <div className="grid grid-cols-2 gap-3 mt-2">
+              {SEVERITIES.map((severity) => (
+                <div key={severity}>
+                  <Label htmlFor={`sla-${severity}`}>{formatLabel(severity)}</Label>
+                  <Input
+                    id={`sla-${severity}`}
+                    type="number"
+                    min={1}
+                    value={severityTargets[severity] ?? ""}
+                    onChange={(e) => setSeverityTargets({ ...severityTargets, [severity]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label className="text-base font-semibold">By Type (optional)</Label>
+            <div className="grid grid-cols-2 gap-3 mt-2">
+              {TYPES.map((type) => (
+                <div key={type}>
+                  <Label htmlFor={`sla-${type}`}>{formatLabel(type)}</Label>
+                  <Input
+                    id={`sla-${type}`}
+                    type="number"
+                    min={1}
+                    placeholder="No override"
+                    value={typeTargets[type] ?? ""}
+                    onChange={(e) => setTypeTargets({ ...typeTargets, [type]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              onReset()
+              onOpenChange(false)
+            }}
+          >
+            Reset to Defaults
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!severityValid || !typeValid}>
+            Save Targets
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Loader2, RefreshCw, Wifi, WifiOff } from "lucide-react"
+import type { StreamConnectionState } from "@/hooks/useAuthorityApi"
+
+const STATE_DISPLAY: Record<StreamConnectionState, { label: string; className: string }> = {
+  open: {
+    label: "Live",
+    className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  },
+  connecting: {
+    label: "Connecting",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  },
+  reconnecting: {
+    label: "Reconnecting",
+    className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  },
+  polling: {
+    label: "Polling every 30s",
+    className: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  },
+  closed: {
+    label: "Offline",
+    className: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+  },
+}
+
+export function StreamStatusBadge({ state }: { state: StreamConnectionState }) {
+  const { label, className } = STATE_DISPLAY[state]
+
+  const icon =
+    state === "open" ? (
+      <Wifi className="w-3 h-3 mr-1" />
+    ) : state === "connecting" || state === "reconnecting" ? (
+      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+    ) : state === "polling" ? (
+      <RefreshCw className="w-3 h-3 mr-1" />
+    ) : (
+      <WifiOff className="w-3 h-3 mr-1" />
+    )
+
+  return (
+    <Badge variant="outline" className={className} title={`Live complaint feed: ${label}`}>
+      {icon}
+      {label}
+    </Badge>
+  )
+}
@@ -0,0 +1,190 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import { Download, Loader2 } from "lucide-react"
+import { format } from "date-fns"
+import { useTouristManagementApi, type TouristFilters, type TouristProfile } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { MIN_REVEAL_REASON_LENGTH, canRevealSensitive } from "@/lib/sensitive-fields"
+import { EXPORT_HEADERS, buildCsv, buildXlsx, downloadBlob, toExportRows } from "@/lib/tourist-spreadsheet"
+
+type ExportFormat = "csv" | "xlsx"
+
+// Largest page the tourists endpoint serves
+const EXPORT_PAGE_SIZE = 100
+
+interface TouristExportDialogProps {
+  filters: TouristFilters
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function TouristExportDialog({ filters, open, onOpenChange }: TouristExportDialogProps) {
+  const { fetchTourists, exportTourists } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+  // Officers who cannot reveal protected fields only get redacted exports
+  const canExportUnredacted = canRevealSensitive(currentOfficer.role)
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv")
+  const [redact, setRedact] = useState(true)
+  const [reason, setReason] = useState("")
+  const [exporting, setExporting] = useState(false)
+  const [fetched, setFetched] = useState(0)
+
+  useEffect(() => {
+    if (open) {
+      setRedact(true)
+      setReason("")
+      setFetched(0)
+    }
+  }, [open])
+
+  const redacted = redact || !canExportUnredacted
+  const trimmedReason = reason.trim()
+  const reasonMissing = !redacted && trimmedReason.length < MIN_REVEAL_REASON_LENGTH
+
+  const handleExport = async () => {
+    if (reasonMissing) return
+
+    setExporting(true)
+    setFetched(0)
+    try {
+      const tourists: TouristProfile[] = []
+      let page = 1
+      let hasNext = true
+      while (hasNext) {
+        // Unredacted pages come from the export endpoint, which records the export like a reveal
+        const pageFilters = { ...filters, page, limit: EXPORT_PAGE_SIZE }
+        const response = redacted
+          ? await fetchTourists(pageFilters)
+          : await exportTourists(pageFilters, trimmedReason)
+        tourists.push(...response.tourists)
+        setFetched(tourists.length)
+        hasNext = response.pagination.hasNext
+        page++
+      }
+
+      if (tourists.length === 0) {
+        toast({ title: "Nothing to export", description: "No tourists match the current filters" })
+        return
+      }
+
+      const rows = toExportRows(tourists, redacted)
+      const blob =
+        exportFormat === "xlsx" ? await buildXlsx(EXPORT_HEADERS, rows, "Tourists") : buildCsv(EXPORT_HEADERS, rows)
+      downloadBlob(blob, `tourists-${format(new Date(), "yyyy-MM-dd-HHmm")}.${exportFormat}`)
+
+      toast({
+        title: "Export ready",
+        description: `${tourists.length} tourist${tourists.length === 1 ? "" : "s"} exported`,
+      })
+      onOpenChange(false)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to export tourists",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !exporting && onOpenChange(next)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="w-5 h-5" />
+            Export Tourists
+          </DialogTitle>
+          <DialogDescription>
+            Exports every tourist matching the current search, status filter and sort order
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="export-format-csv" />
+                <Label htmlFor="export-format-csv" className="font-normal">
+                  CSV
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="xlsx" id="export-format-xlsx" />
+                <Label htmlFor="export-format-xlsx" className="font-normal">
+                  Excel (.xlsx)
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-redact"
+                checked={redacted}
+                disabled={!canExportUnredacted}
+                onCheckedChange={(checked) => setRedact(checked === true)}
+              />
+              <Label htmlFor="export-redact" className="font-normal">
+                Redact personal data
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {canExportUnredacted
+                ? "Masks document numbers and medical details, and removes contact details and dates of birth"
+                : "Your role can only export redacted data"}
+            </p>
+          </div>
+
+          {!redacted && (
+            <div className="space-y-2">
+              <Label htmlFor="export-reason">Reason for Unredacted Export *</Label>
+              <Textarea
+                id="export-reason"
+                rows={2}
+                placeholder="e.g. Passenger list requested by the embassy, letter ref 2026/114"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Logged with your name and visible to supervisors</p>
+              {trimmedReason.length > 0 && trimmedReason.length < MIN_REVEAL_REASON_LENGTH && (
+                <p className="text-xs text-destructive">
+                  Give a reason of at least {MIN_REVEAL_REASON_LENGTH} characters
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || reasonMissing}>
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+            {exporting ? `Fetched ${fetched}...` : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
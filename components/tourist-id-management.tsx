@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -37,16 +37,62 @@ import {
   Loader2,
   Flag,
   RefreshCw,
+  UserX,
+  Send,
+  ShieldCheck,
+  Upload,
+  Download,
+  Copy,
 } from "lucide-react"
 
 // Import the custom hook
-import { useTouristManagementApi } from "@/hooks/useTouristManagementApi"
+import { useTouristManagementApi, type TouristFilters } from "@/hooks/useTouristManagementApi"
+import { MissingPersonCaseDialog } from "@/components/missing-person-case-dialog"
+import { TouristProfileEditForm } from "@/components/tourist-profile-edit-form"
+import { TouristMovementTab } from "@/components/tourist-movement-tab"
+import { TrackLocationDialog } from "@/components/track-location-dialog"
+import { NotifyContactsDialog } from "@/components/notify-contacts-dialog"
+import { SensitiveValue } from "@/components/sensitive-value"
+import { RevealSensitiveDialog } from "@/components/reveal-sensitive-dialog"
+import { RevealAuditDialog } from "@/components/reveal-audit-dialog"
+import { TouristImportWizard } from "@/components/tourist-import-wizard"
+import { TouristExportDialog } from "@/components/tourist-export-dialog"
+import { DuplicateIdentitiesDialog } from "@/components/duplicate-identities-dialog"
+import { useDuplicateIdentities } from "@/hooks/useDuplicateIdentities"
+import { canWriteTourists, useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import {
+  REVEAL_DURATION_MS,
+  SENSITIVE_FIELDS,
+  canRevealSensitive,
+  canViewRevealAudit,
+  revealKey,
+  type SensitiveField,
+} from "@/lib/sensitive-fields"
+import { summarizeContactNotification, type ContactNotificationRecord } from "@/lib/contact-notifications"
+import { getTouristDisplayName } from "@/lib/missing-person"
 
 export function TouristIdManagement() {
   const [searchTerm, setSearchTerm] = useState("")
   const [searchFilter, setSearchFilter] = useState("all")
   const [selectedTourist, setSelectedTourist] = useState<any>(null)
   const [profileDialog, setProfileDialog] = useState(false)
+  const [editingProfile, setEditingProfile] = useState(false)
+  const [missingCaseTourist, setMissingCaseTourist] = useState<any>(null)
+  const [trackingTourist, setTrackingTourist] = useState<any>(null)
+  const [trackingSubmitting, setTrackingSubmitting] = useState(false)
+  const [notifyContactsOpen, setNotifyContactsOpen] = useState(false)
+  const [revealedValues, setRevealedValues] = useState<Record<string, string>>({})
+  const [revealRequest, setRevealRequest] = useState<{ tourist: any; field: SensitiveField } | null>(null)
+  const [revealSubmitting, setRevealSubmitting] = useState(false)
+  const [revealAuditOpen, setRevealAuditOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false)
+  const duplicateCheck = useDuplicateIdentities()
+  const remaskTimers = useRef<ReturnType<typeof setTimeout>[]>([])
+  const currentOfficer = useCurrentOfficer()
+  const canReveal = canRevealSensitive(currentOfficer.role)
+  const canWrite = canWriteTourists(currentOfficer.role)
   const [currentPage, setCurrentPage] = useState(1)
   const [sortBy, setSortBy] = useState("createdAt")
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
@@ -61,6 +107,10 @@ export function TouristIdManagement() {
     flagTourist,
     trackLocation,
     fetchTouristStats,
+    recordContactNotification,
+    fetchMissingPersonCase,
+    addMissingPersonCaseEntry,
+    revealSensitiveField,
   } = useTouristManagementApi()
 
   // State for data
@@ -68,6 +118,14 @@ export function TouristIdManagement() {
   const [pagination, setPagination] = useState<any>({})
   const [stats, setStats] = useState<any>({})
 
+  // Shared by the list and the export so both see the same tourists
+  const listFilters: TouristFilters = {
+    search: searchTerm,
+    status: searchFilter === "all" ? undefined : searchFilter,
+    sortBy,
+    sortOrder,
+  }
+
   // Load initial data
   useEffect(() => {
     loadTourists()
@@ -87,14 +145,7 @@ export function TouristIdManagement() {
 
   const loadTourists = async () => {
     try {
-      const response = await fetchTourists({
-        page: currentPage,
-        limit: 20,
-        search: searchTerm,
-        status: searchFilter === "all" ? undefined : searchFilter,
-        sortBy,
-        sortOrder,
-      })
+      const response = await fetchTourists({ ...listFilters, page: currentPage, limit: 20 })
       setTourists(response.tourists || [])
       setPagination(response.pagination || {})
     } catch (err) {
@@ -119,6 +170,7 @@ export function TouristIdManagement() {
     try {
       const response = await fetchTouristProfile(touristId)
       setSelectedTourist(response.tourist)
+      setEditingProfile(false)
       setProfileDialog(true)
     } catch (err) {
       toast({
@@ -146,13 +198,20 @@ export function TouristIdManagement() {
     }
   }
 
-  const handleTrackLocation = async (touristId: string, coordinates: { lat: number; lng: number }, address: string) => {
+  const handleTrackLocation = async (
+    touristId: string,
+    coordinates: { lat: number; lng: number },
+    address: string,
+    notes: string
+  ) => {
+    setTrackingSubmitting(true)
     try {
-      await trackLocation(touristId, coordinates, address, "Location tracked by authority")
+      await trackLocation(touristId, coordinates, address, notes || "Location tracked by authority")
       toast({
         title: "Success",
         description: "Location tracked successfully",
       })
+      setTrackingTourist(null)
       loadTourists() // Refresh the list
     } catch (err) {
       toast({
@@ -160,9 +219,79 @@ export function TouristIdManagement() {
         description: "Failed to track location",
         variant: "destructive",
       })
+    } finally {
+      setTrackingSubmitting(false)
+    }
+  }
+
+  // Logged on the tourist, and on the open missing-person case when there is one
+  const handleRecordContactNotification = async (record: ContactNotificationRecord) => {
+    if (!selectedTourist) return
+    await recordContactNotification(selectedTourist._id, record)
+
+    if (selectedTourist.status === "missing") {
+      const { case: missingCase } = await fetchMissingPersonCase(selectedTourist._id)
+      if (missingCase) {
+        await addMissingPersonCaseEntry(missingCase._id, {
+          type: "note",
+          description: summarizeContactNotification(record),
+          reportedBy: record.sentBy,
+        })
+      }
+    }
+  }
+
+  useEffect(() => {
+    const timers = remaskTimers.current
+    return () => timers.forEach(clearTimeout)
+  }, [])
+
+  // The list only holds masked values; the plain one comes from the server once it has audited the reveal
+  const handleReveal = async (reason: string) => {
+    if (!revealRequest) return
+    const { tourist, field } = revealRequest
+
+    setRevealSubmitting(true)
+    try {
+      const { value } = await revealSensitiveField(tourist._id, field, reason)
+      const key = revealKey(tourist._id, field)
+      setRevealedValues((prev) => ({ ...prev, [key]: value }))
+      remaskTimers.current.push(
+        setTimeout(() => {
+          setRevealedValues((prev) => {
+            const next = { ...prev }
+            delete next[key]
+            return next
+          })
+        }, REVEAL_DURATION_MS)
+      )
+      setRevealRequest(null)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Could not reveal the value",
+        variant: "destructive",
+      })
+    } finally {
+      setRevealSubmitting(false)
     }
   }
 
+  const revealedFor = (touristId: string) =>
+    SENSITIVE_FIELDS.reduce<Partial<Record<SensitiveField, string>>>((values, field) => {
+      const value = revealedValues[revealKey(touristId, field)]
+      return value === undefined ? values : { ...values, [field]: value }
+    }, {})
+
+  const renderSensitive = (tourist: any, field: SensitiveField) => (
+    <SensitiveValue
+      value={tourist.profile?.[field]}
+      revealedValue={revealedValues[revealKey(tourist._id, field)]}
+      canReveal={canReveal}
+      onReveal={() => setRevealRequest({ tourist, field })}
+    />
+  )
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "active":
@@ -293,7 +422,30 @@ export function TouristIdManagement() {
                 </SelectContent>
               </Select>
             </div>
-            <div className="flex items-end">
+            <div className="flex items-end gap-2">
+              <Button variant="outline" onClick={() => setImportOpen(true)} disabled={!canWrite}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" onClick={() => setExportOpen(true)}>
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <Button variant="outline" onClick={() => setDuplicatesOpen(true)}>
+                <Copy className="w-4 h-4 mr-2" />
+                Duplicates
+                {duplicateCheck.candidates.length > 0 && (
+                  <Badge variant="destructive" className="ml-2">
+                    {duplicateCheck.candidates.length}
+                  </Badge>
+                )}
+              </Button>
+              {canViewRevealAudit(currentOfficer.role) && (
+                <Button variant="outline" onClick={() => setRevealAuditOpen(true)}>
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Reveal Audit
+                </Button>
+              )}
               <Button onClick={loadTourists} disabled={loading}>
                 {loading ? (
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -357,7 +509,7 @@ export function TouristIdManagement() {
                       </div>
                       <div className="flex items-center gap-1">
                         <User className="w-3 h-3" />
-                        {tourist.profile?.passportNumber || "No passport"}
+                        {tourist.profile?.passportNumber ? renderSensitive(tourist, "passportNumber") : "No passport"}
                       </div>
                       <div className="flex items-center gap-1">
                         <Globe className="w-3 h-3" />
@@ -404,11 +556,7 @@ export function TouristIdManagement() {
                     <Button 
                       size="sm" 
                       variant="outline"
-                      onClick={() => {
-                        // For demo purposes, using current location
-                        const coords = { lat: 13.0827, lng: 80.2707 }
-                        handleTrackLocation(tourist._id, coords, "Chennai, India")
-                      }}
+                      onClick={() => setTrackingTourist(tourist)}
                       disabled={loading}
                     >
                       <MapPin className="w-4 h-4 mr-1" />
@@ -435,6 +583,15 @@ export function TouristIdManagement() {
                         Remove Flag
                       </Button>
                     )}
+                    <Button
+                      size="sm"
+                      variant={tourist.status === "missing" ? "destructive" : "outline"}
+                      onClick={() => setMissingCaseTourist(tourist)}
+                      disabled={loading}
+                    >
+                      <UserX className="w-4 h-4 mr-1" />
+                      {tourist.status === "missing" ? "Missing Case" : "Report Missing"}
+                    </Button>
                   </div>
                 </div>
               </div>
@@ -471,6 +628,71 @@ export function TouristIdManagement() {
         </CardContent>
       </Card>
 
+      <RevealSensitiveDialog
+        field={revealRequest?.field ?? null}
+        touristName={revealRequest ? getTouristDisplayName(revealRequest.tourist) : ""}
+        open={!!revealRequest}
+        onOpenChange={(open) => !open && setRevealRequest(null)}
+        submitting={revealSubmitting}
+        onConfirm={handleReveal}
+      />
+
+      <RevealAuditDialog open={revealAuditOpen} onOpenChange={setRevealAuditOpen} />
+
+      <TouristImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={() => {
+          loadTourists()
+          loadStats()
+        }}
+      />
+
+      <TouristExportDialog filters={listFilters} open={exportOpen} onOpenChange={setExportOpen} />
+
+      {/* Merging rewrites protected fields, so it needs the same role as editing */}
+      <DuplicateIdentitiesDialog
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        candidates={duplicateCheck.candidates}
+        scanning={duplicateCheck.scanning}
+        error={duplicateCheck.error}
+        lastScannedAt={duplicateCheck.lastScannedAt}
+        onRescan={duplicateCheck.rescan}
+        canMerge={canReveal}
+        onMerged={() => {
+          duplicateCheck.rescan()
+          loadTourists()
+          loadStats()
+        }}
+      />
+
+      <NotifyContactsDialog
+        tourist={notifyContactsOpen ? selectedTourist : null}
+        open={notifyContactsOpen}
+        onOpenChange={setNotifyContactsOpen}
+        defaultReason={selectedTourist?.status === "missing" ? "missing" : "incident"}
+        reference={selectedTourist?._id || ""}
+        onRecord={handleRecordContactNotification}
+      />
+
+      <TrackLocationDialog
+        tourist={trackingTourist}
+        open={!!trackingTourist}
+        onOpenChange={(open) => !open && setTrackingTourist(null)}
+        submitting={trackingSubmitting}
+        onConfirm={(coordinates, address, notes) =>
+          trackingTourist && handleTrackLocation(trackingTourist._id, coordinates, address, notes)
+        }
+      />
+
+      <MissingPersonCaseDialog
+        tourist={missingCaseTourist}
+        open={!!missingCaseTourist}
+        onOpenChange={(open) => !open && setMissingCaseTourist(null)}
+        onStatusChanged={loadTourists}
+      />
+
       {/* Tourist Profile Dialog */}
       <Dialog open={profileDialog} onOpenChange={setProfileDialog}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -481,16 +703,34 @@ export function TouristIdManagement() {
                 ? `${selectedTourist.profile.firstName} ${selectedTourist.profile.lastName}`
                 : selectedTourist?.username}
             </DialogTitle>
-            <DialogDescription>Complete tourist information and safety details</DialogDescription>
+            <DialogDescription>
+              {editingProfile ? "Edit profile details. Changes are reviewed before saving." : "Complete tourist information and safety details"}
+            </DialogDescription>
           </DialogHeader>
 
-          {selectedTourist && (
+          {selectedTourist && editingProfile && (
+            <TouristProfileEditForm
+              tourist={selectedTourist}
+              revealedValues={revealedFor(selectedTourist._id)}
+              canReveal={canReveal}
+              onReveal={(field) => setRevealRequest({ tourist: selectedTourist, field })}
+              onCancel={() => setEditingProfile(false)}
+              onSaved={(tourist) => {
+                setSelectedTourist(tourist)
+                setEditingProfile(false)
+                loadTourists()
+              }}
+            />
+          )}
+
+          {selectedTourist && !editingProfile && (
             <Tabs defaultValue="personal" className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="personal">Personal</TabsTrigger>
                 <TabsTrigger value="documents">Documents</TabsTrigger>
                 <TabsTrigger value="contact">Contact</TabsTrigger>
                 <TabsTrigger value="safety">Safety</TabsTrigger>
+                <TabsTrigger value="movement">Movement</TabsTrigger>
               </TabsList>
 
               <TabsContent value="personal" className="space-y-4">
@@ -550,7 +790,9 @@ export function TouristIdManagement() {
                   <div>
                     <Label>Passport Number</Label>
                     <p className="text-sm text-muted-foreground">
-                      {selectedTourist.profile?.passportNumber || "Not provided"}
+                      {selectedTourist.profile?.passportNumber
+                        ? renderSensitive(selectedTourist, "passportNumber")
+                        : "Not provided"}
                     </p>
                   </div>
                   <div>
@@ -565,7 +807,7 @@ export function TouristIdManagement() {
                     <>
                       <div>
                         <Label>Visa Number</Label>
-                        <p className="text-sm text-muted-foreground">{selectedTourist.profile.visaNumber}</p>
+                        <p className="text-sm text-muted-foreground">{renderSensitive(selectedTourist, "visaNumber")}</p>
                       </div>
                       <div>
                         <Label>Visa Expiry</Label>
@@ -580,7 +822,7 @@ export function TouristIdManagement() {
                   {selectedTourist.profile?.aadhaarNumber && (
                     <div>
                       <Label>Aadhaar Number</Label>
-                      <p className="text-sm text-muted-foreground">{selectedTourist.profile.aadhaarNumber}</p>
+                      <p className="text-sm text-muted-foreground">{renderSensitive(selectedTourist, "aadhaarNumber")}</p>
                     </div>
                   )}
                 </div>
@@ -674,21 +916,21 @@ export function TouristIdManagement() {
                 {selectedTourist.profile?.medicalConditions && (
                   <div>
                     <Label>Medical Conditions</Label>
-                    <p className="text-sm text-muted-foreground">{selectedTourist.profile.medicalConditions}</p>
+                    <p className="text-sm text-muted-foreground">{renderSensitive(selectedTourist, "medicalConditions")}</p>
                   </div>
                 )}
 
                 {selectedTourist.profile?.allergies && (
                   <div>
                     <Label>Allergies</Label>
-                    <p className="text-sm text-muted-foreground">{selectedTourist.profile.allergies}</p>
+                    <p className="text-sm text-muted-foreground">{renderSensitive(selectedTourist, "allergies")}</p>
                   </div>
                 )}
 
                 {selectedTourist.profile?.medications && (
                   <div>
                     <Label>Current Medications</Label>
-                    <p className="text-sm text-muted-foreground">{selectedTourist.profile.medications}</p>
+                    <p className="text-sm text-muted-foreground">{renderSensitive(selectedTourist, "medications")}</p>
                   </div>
                 )}
 
@@ -700,7 +942,11 @@ export function TouristIdManagement() {
                     </div>
                     <div>
                       <Label>Insurance Number</Label>
-                      <p className="text-sm text-muted-foreground">{selectedTourist.profile.insuranceNumber}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {selectedTourist.profile.insuranceNumber
+                          ? renderSensitive(selectedTourist, "insuranceNumber")
+                          : "Not provided"}
+                      </p>
                     </div>
                   </div>
                 )}
@@ -739,18 +985,31 @@ export function TouristIdManagement() {
                   </div>
                 )}
               </TabsContent>
+
+              <TabsContent value="movement" className="space-y-4">
+                <TouristMovementTab touristId={selectedTourist._id} />
+              </TabsContent>
             </Tabs>
           )}
 
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setProfileDialog(false)}>
-              Close
-            </Button>
-            <Button>
-              <Edit className="w-4 h-4 mr-2" />
-              Edit Profile
-            </Button>
-          </DialogFooter>
+          {!editingProfile && (
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setProfileDialog(false)}>
+                Close
+              </Button>
+              <Button variant="outline" onClick={() => setNotifyContactsOpen(true)} disabled={!selectedTourist}>
+                <Send className="w-4 h-4 mr-2" />
+                Notify Contacts
+              </Button>
+              <Button
+                onClick={() => setEditingProfile(true)}
+                disabled={!selectedTourist || !canWrite}
+              >
+                <Edit className="w-4 h-4 mr-2" />
+                Edit Profile
+              </Button>
+            </DialogFooter>
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,311 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import { AlertTriangle, ArrowLeft, ArrowRight, CheckCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react"
+import { useTouristManagementApi, type TouristImportResult } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import {
+  IMPORT_BATCH_SIZE,
+  IMPORT_FIELDS,
+  IMPORT_FILE_ACCEPT,
+  REQUIRED_IMPORT_FIELDS,
+  guessColumnMapping,
+  missingRequiredFields,
+  readSpreadsheet,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type SpreadsheetData,
+} from "@/lib/tourist-spreadsheet"
+
+type WizardStep = "upload" | "map" | "preview" | "import"
+
+const SKIP_COLUMN = "__skip"
+const MAX_PREVIEW_ROWS = 100
+
+interface TouristImportWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+export function TouristImportWizard({ open, onOpenChange, onImported }: TouristImportWizardProps) {
+  const { importTourists } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+
+  const [step, setStep] = useState<WizardStep>("upload")
+  const [fileName, setFileName] = useState("")
+  const [reading, setReading] = useState(false)
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [importing, setImporting] = useState(false)
+  const [processed, setProcessed] = useState(0)
+  const [result, setResult] = useState<TouristImportResult | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setStep("upload")
+    setFileName("")
+    setSheet(null)
+    setMapping([])
+    setProcessed(0)
+    setResult(null)
+  }, [open])
+
+  const rows = useMemo(() => (sheet && step !== "upload" && step !== "map" ? validateImportRows(sheet, mapping) : []), [
+    sheet,
+    mapping,
+    step,
+  ])
+  const validRows = rows.filter((row) => row.record)
+  const invalidRows = rows.filter((row) => !row.record)
+  const missingFields = missingRequiredFields(mapping)
+
+  const handleFile = async (file?: File) => {
+    if (!file) return
+    setReading(true)
+    try {
+      const data = await readSpreadsheet(file)
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        throw new Error("The file has no data rows under a header row")
+      }
+      setFileName(file.name)
+      setSheet(data)
+      setMapping(guessColumnMapping(data.headers))
+      setStep("map")
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to read spreadsheet",
+        variant: "destructive",
+      })
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleMappingChange = (column: number, value: string) => {
+    const field = value === SKIP_COLUMN ? null : (value as ImportField)
+    // A field can only be filled from one column
+    setMapping((prev) => prev.map((current, index) => (index === column ? field : current === field ? null : current)))
+  }
+
+  const handleImport = async () => {
+    setStep("import")
+    setImporting(true)
+    setProcessed(0)
+
+    const totals: TouristImportResult = { created: 0, updated: 0, failed: [] }
+    const records = validRows.map((row) => row.record!)
+    for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+      const batch = records.slice(start, start + IMPORT_BATCH_SIZE)
+      try {
+        const response = await importTourists(batch, currentOfficer.name)
+        totals.created += response.result.created
+        totals.updated += response.result.updated
+        totals.failed.push(...response.result.failed)
+      } catch (err) {
+        // Keep going so one bad batch does not block the rest of the file
+        const message = err instanceof Error ? err.message : "Batch failed"
+        totals.failed.push(...batch.map((record) => ({ row: record.row, message })))
+      }
+      setProcessed(Math.min(start + batch.length, records.length))
+    }
+
+    setResult(totals)
+    setImporting(false)
+    if (totals.created + totals.updated > 0) onImported()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !importing && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            Import Tourists
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel file with one tourist per row and a header row"}
+            {step === "map" && `Match the columns of ${fileName} to tourist fields`}
+            {step === "preview" && "Check the rows before importing. Rows with errors are skipped."}
+            {step === "import" && "Existing tourists are matched by email and updated, others are created"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="tourist-import-file">Spreadsheet</Label>
+            <Input
+              id="tourist-import-file"
+              type="file"
+              accept={IMPORT_FILE_ACCEPT}
+              disabled={reading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <p className="text-xs text-muted-foreground">
+              Required columns: {REQUIRED_IMPORT_FIELDS.map((field) => IMPORT_FIELDS.find((f) => f.name === field)?.label).join(", ")}.
+              Only the first worksheet of an Excel file is read.
+            </p>
+            {reading && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading file...
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-3">
+            <div className="rounded-md border divide-y">
+              {sheet.headers.map((header, column) => (
+                <div key={column} className="grid grid-cols-[1fr_1fr_1fr] items-center gap-3 p-2 text-sm">
+                  <p className="font-medium truncate">{header || `Column ${column + 1}`}</p>
+                  <p className="text-muted-foreground truncate">{sheet.rows[0]?.[column] || "(empty)"}</p>
+                  <Select
+                    value={mapping[column] ?? SKIP_COLUMN}
+                    onValueChange={(value) => handleMappingChange(column, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Do not import</SelectItem>
+                      {IMPORT_FIELDS.map((field) => (
+                        <SelectItem key={field.name} value={field.name}>
+                          {field.label}
+                          {REQUIRED_IMPORT_FIELDS.includes(field.name) ? " *" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-xs text-destructive">
+                Map a column to{" "}
+                {missingFields.map((field) => IMPORT_FIELDS.find((f) => f.name === field)?.label).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                {validRows.length} ready to import
+              </Badge>
+              {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+            </div>
+            {invalidRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All {rows.length} rows passed validation.</p>
+            ) : (
+              <div className="rounded-md border divide-y max-h-80 overflow-y-auto">
+                {invalidRows.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+                  <div key={row.row} className="p-2 text-sm">
+                    <p className="font-medium">
+                      Row {row.row}
+                      {(row.name || row.email) && (
+                        <span className="text-muted-foreground font-normal"> · {row.name || row.email}</span>
+                      )}
+                    </p>
+                    <ul className="list-disc pl-5 text-destructive">
+                      {row.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {invalidRows.length > MAX_PREVIEW_ROWS && (
+                  <p className="p-2 text-xs text-muted-foreground">
+                    and {invalidRows.length - MAX_PREVIEW_ROWS} more rows with errors
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "import" && (
+          <div className="space-y-3">
+            <Progress value={validRows.length ? (processed / validRows.length) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {processed} of {validRows.length} rows processed
+            </p>
+            {result && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                  {result.created} created, {result.updated} updated
+                </div>
+                {result.failed.length > 0 && (
+                  <div className="rounded-md border divide-y max-h-60 overflow-y-auto">
+                    {result.failed.map((failure) => (
+                      <div key={failure.row} className="flex items-start gap-2 p-2 text-sm">
+                        <AlertTriangle className="w-4 h-4 text-destructive mt-0.5" />
+                        <span>
+                          Row {failure.row}: {failure.message}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={missingFields.length > 0}>
+                Validate Rows
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Mapping
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import {validRows.length} Row{validRows.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "import" && (
+            <Button onClick={() => onOpenChange(false)} disabled={importing}>
+              {importing && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {importing ? "Importing..." : "Done"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
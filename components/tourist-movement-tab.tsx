@@ -0,0 +1,169 @@
+"use client"
+
+import { Fragment, useEffect, useMemo, useState } from "react"
+import { subDays, subHours } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Clock, Loader2, MapPin, RefreshCw } from "lucide-react"
+import { useTouristManagementApi, type LocationHistoryPoint } from "@/hooks/useTouristManagementApi"
+import { useZones } from "@/hooks/useZones"
+import { MovementTrailMap } from "@/components/movement-trail-map"
+import { MOVEMENT_GAP_MINUTES, buildMovementTrail, formatGapDuration } from "@/lib/movement-trail"
+
+const HISTORY_RANGES = [
+  { value: "24h", label: "Last 24 hours", since: () => subHours(new Date(), 24) },
+  { value: "7d", label: "Last 7 days", since: () => subDays(new Date(), 7) },
+  { value: "30d", label: "Last 30 days", since: () => subDays(new Date(), 30) },
+  { value: "all", label: "All history", since: () => null },
+] as const
+
+type HistoryRange = (typeof HISTORY_RANGES)[number]["value"]
+
+export function TouristMovementTab({ touristId }: { touristId: string }) {
+  const { fetchLocationHistory } = useTouristManagementApi()
+  const { zones, loadZones } = useZones()
+  const [range, setRange] = useState<HistoryRange>("7d")
+  const [locations, setLocations] = useState<LocationHistoryPoint[]>([])
+  const [loadingHistory, setLoadingHistory] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    loadZones()
+  }, [loadZones])
+
+  useEffect(() => {
+    let cancelled = false
+    const since = HISTORY_RANGES.find((option) => option.value === range)?.since()
+
+    setLoadingHistory(true)
+    setHistoryError(null)
+    fetchLocationHistory(touristId, since ? since.toISOString() : undefined)
+      .then((response) => {
+        if (!cancelled) setLocations(response.locations || [])
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLocations([])
+          setHistoryError(err instanceof Error ? err.message : "Failed to load location history")
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingHistory(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [touristId, range, reloadKey, fetchLocationHistory])
+
+  const trail = useMemo(() => buildMovementTrail(locations, zones), [locations, zones])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Select value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HISTORY_RANGES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>{trail.points.length} points</span>
+          {trail.gaps.length > 0 && (
+            <Badge variant="outline" className="bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+              {trail.gaps.length} gap{trail.gaps.length === 1 ? "" : "s"}
+            </Badge>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setReloadKey((key) => key + 1)} disabled={loadingHistory}>
+            <RefreshCw className={`w-4 h-4 ${loadingHistory ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {loadingHistory && locations.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : historyError ? (
+        <p className="text-sm text-destructive">{historyError}</p>
+      ) : trail.points.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No recorded locations in this period</p>
+      ) : (
+        <>
+          <MovementTrailMap trail={trail} />
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full bg-green-600" /> First
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full bg-red-600" /> Latest
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-4 border-t-2 border-dashed border-orange-500" /> Gap over{" "}
+              {MOVEMENT_GAP_MINUTES} min
+            </span>
+          </div>
+
+          {trail.crossedZones.length > 0 && (
+            <div>
+              <Label className="flex items-center gap-1 text-red-600">
+                <AlertTriangle className="w-4 h-4" />
+                Crossed High-Risk Zones
+              </Label>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {trail.crossedZones.map((zone) => (
+                  <Badge key={zone.id} variant="destructive">
+                    {zone.name} ({zone.severity})
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-base font-semibold">Timeline</Label>
+            <div className="mt-2 max-h-64 overflow-y-auto space-y-1">
+              {trail.points.map((point, index) => {
+                const gapBefore = index > 0 && trail.segments[index - 1].gap ? trail.segments[index - 1] : null
+                return (
+                  <Fragment key={point._id || `${point.timestamp}-${index}`}>
+                    {gapBefore && (
+                      <div className="flex items-center gap-2 rounded-md bg-orange-50 dark:bg-orange-950 px-2 py-1 text-xs text-orange-800 dark:text-orange-200">
+                        <Clock className="w-3 h-3" />
+                        No location recorded for {formatGapDuration(gapBefore.minutes)}
+                      </div>
+                    )}
+                    <div className="flex items-start gap-2 px-2 py-1 text-sm">
+                      <span className="w-6 shrink-0 text-xs font-semibold text-muted-foreground">#{index + 1}</span>
+                      <div className="flex-1">
+                        <p className="flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {point.address ||
+                            `${point.coordinates.lat.toFixed(4)}, ${point.coordinates.lng.toFixed(4)}`}
+                        </p>
+                        {point.notes && <p className="text-xs text-muted-foreground">{point.notes}</p>}
+                      </div>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {new Date(point.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                  </Fragment>
+                )
+              })}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
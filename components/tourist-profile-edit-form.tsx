@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { DialogFooter } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { toast } from "@/components/ui/use-toast"
+import { ArrowLeft, ArrowRight, Loader2, Save } from "lucide-react"
+import { useTouristManagementApi, type TouristProfile } from "@/hooks/useTouristManagementApi"
+import { useCurrentOfficer } from "@/hooks/useCurrentOfficer"
+import { SensitiveValue } from "@/components/sensitive-value"
+import { SENSITIVE_FIELD_LABELS, isMaskedValue, type SensitiveField } from "@/lib/sensitive-fields"
+import {
+  PROFILE_FIELDS,
+  PROFILE_SECTIONS,
+  diffProfile,
+  toProfileFormValues,
+  toProfileUpdate,
+  touristProfileSchema,
+  type ProfileSection,
+  type TouristProfileFormValues,
+} from "@/lib/tourist-profile-form"
+
+const SECTION_LABELS: Record<ProfileSection, string> = {
+  personal: "Personal",
+  documents: "Documents",
+  contacts: "Contacts",
+  medical: "Medical",
+  insurance: "Insurance",
+}
+
+const MIN_REASON_LENGTH = 10
+
+interface TouristProfileEditFormProps {
+  tourist: TouristProfile
+  revealedValues: Partial<Record<SensitiveField, string>>
+  canReveal: boolean
+  onReveal: (field: SensitiveField) => void
+  onCancel: () => void
+  onSaved: (tourist: TouristProfile) => void
+}
+
+export function TouristProfileEditForm({
+  tourist,
+  revealedValues,
+  canReveal,
+  onReveal,
+  onCancel,
+  onSaved,
+}: TouristProfileEditFormProps) {
+  const { updateTouristProfile } = useTouristManagementApi()
+  const currentOfficer = useCurrentOfficer()
+
+  const savedValues = useMemo(() => toProfileFormValues(tourist), [tourist])
+  // Plain values revealed while editing; they stay the baseline after the reveal expires
+  const [revealedBaseline, setRevealedBaseline] = useState<Partial<Record<SensitiveField, string>>>({})
+  const initialValues = useMemo(() => ({ ...savedValues, ...revealedBaseline }), [savedValues, revealedBaseline])
+  const [section, setSection] = useState<ProfileSection>("personal")
+  const [reviewValues, setReviewValues] = useState<TouristProfileFormValues | null>(null)
+  const [changeReason, setChangeReason] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const form = useForm<TouristProfileFormValues>({
+    resolver: zodResolver(touristProfileSchema),
+    defaultValues: savedValues,
+  })
+
+  // Protected fields stay masked and read-only until revealed through the audited endpoint
+  useEffect(() => {
+    const newlyRevealed = (Object.keys(revealedValues) as SensitiveField[]).filter((name) =>
+      isMaskedValue(form.getValues(name))
+    )
+    if (newlyRevealed.length === 0) return
+
+    newlyRevealed.forEach((name) => form.setValue(name, revealedValues[name] ?? ""))
+    setRevealedBaseline((prev) =>
+      newlyRevealed.reduce((next, name) => ({ ...next, [name]: revealedValues[name] }), prev)
+    )
+  }, [revealedValues, form])
+
+  const changes = reviewValues ? diffProfile(initialValues, reviewValues) : []
+
+  const handleReview = (values: TouristProfileFormValues) => {
+    if (diffProfile(initialValues, values).length === 0) {
+      toast({ title: "No changes", description: "The profile has not been modified" })
+      return
+    }
+    setReviewValues(values)
+  }
+
+  // Jump to the first tab with an error so it is not hidden behind another section
+  const handleInvalid = (errors: Partial<Record<keyof TouristProfileFormValues, unknown>>) => {
+    const firstInvalid = PROFILE_FIELDS.find((field) => errors[field.name])
+    if (firstInvalid) setSection(firstInvalid.section)
+  }
+
+  const handleSave = async () => {
+    if (!reviewValues || changeReason.trim().length < MIN_REASON_LENGTH) return
+
+    setSaving(true)
+    try {
+      const response = await updateTouristProfile(
+        tourist._id,
+        { profile: toProfileUpdate(reviewValues, tourist.profile) },
+        {
+          changeReason: changeReason.trim(),
+          changedBy: currentOfficer.name,
+          changedFields: changes.map((change) => change.field),
+        }
+      )
+      toast({
+        title: "Profile updated",
+        description: `${changes.length} field${changes.length === 1 ? "" : "s"} changed`,
+      })
+      onSaved(response.tourist)
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update tourist profile",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (reviewValues) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <Label className="text-base font-semibold">Review Changes</Label>
+          <div className="mt-2 rounded-md border divide-y">
+            {changes.map((change) => (
+              <div key={change.field} className="grid grid-cols-[1fr_1fr_1fr] gap-3 p-2 text-sm">
+                <div>
+                  <p className="font-medium">{change.label}</p>
+                  <Badge variant="outline" className="text-xs">
+                    {SECTION_LABELS[change.section]}
+                  </Badge>
+                </div>
+                <p className="text-red-700 dark:text-red-300 line-through break-words">{change.before || "(empty)"}</p>
+                <p className="text-green-700 dark:text-green-300 break-words">{change.after || "(empty)"}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="profile-change-reason">Reason for Change *</Label>
+          <Textarea
+            id="profile-change-reason"
+            rows={3}
+            placeholder="e.g. Passport renewed, verified against original at station"
+            value={changeReason}
+            onChange={(e) => setChangeReason(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">Recorded in the audit log with your name</p>
+          {changeReason.trim().length > 0 && changeReason.trim().length < MIN_REASON_LENGTH && (
+            <p className="text-xs text-destructive">Give a reason of at least {MIN_REASON_LENGTH} characters</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setReviewValues(null)} disabled={saving}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Edit
+          </Button>
+          <Button onClick={handleSave} disabled={saving || changeReason.trim().length < MIN_REASON_LENGTH}>
+            {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </div>
+    )
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleReview, handleInvalid)} className="space-y-4">
+        <Tabs value={section} onValueChange={(value) => setSection(value as ProfileSection)} className="w-full">
+          <TabsList className="grid w-full grid-cols-5">
+            {PROFILE_SECTIONS.map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {SECTION_LABELS[value]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {PROFILE_SECTIONS.map((value) => (
+            <TabsContent key={value} value={value} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {PROFILE_FIELDS.filter((field) => field.section === value).map((profileField) => (
+                  <FormField
+                    key={profileField.name}
+                    control={form.control}
+                    name={profileField.name}
+                    render={({ field }) => (
+                      <FormItem className={profileField.type === "textarea" ? "col-span-2" : undefined}>
+                        <FormLabel>{profileField.label}</FormLabel>
+                        {profileField.name in SENSITIVE_FIELD_LABELS && isMaskedValue(field.value) ? (
+                          <SensitiveValue
+                            value={field.value}
+                            canReveal={canReveal}
+                            onReveal={() => onReveal(profileField.name as SensitiveField)}
+                            className="flex h-10 text-sm"
+                          />
+                        ) : (
+                          <FormControl>
+                            {profileField.type === "textarea" ? (
+                              <Textarea rows={2} {...field} />
+                            ) : (
+                              <Input type={profileField.type === "date" ? "date" : "text"} {...field} />
+                            )}
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit">
+            Review Changes
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,280 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, MapPin, Search } from "lucide-react"
+import type { TouristProfile } from "@/hooks/useTouristManagementApi"
+import { reverseGeocode, searchAddress, type GeocodeResult } from "@/lib/geocoding"
+import { getTouristDisplayName } from "@/lib/missing-person"
+
+// Only the initial view; nothing is recorded until the officer places a pin
+const DEFAULT_VIEW = { lat: 13.0827, lng: 80.2707 }
+
+interface TrackLocationDialogProps {
+  tourist: TouristProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  submitting: boolean
+  onConfirm: (coordinates: { lat: number; lng: number }, address: string, notes: string) => void
+}
+
+export function TrackLocationDialog({ tourist, open, onOpenChange, submitting, onConfirm }: TrackLocationDialogProps) {
+  const mapContainer = useRef<HTMLDivElement>(null)
+  const map = useRef<any>(null)
+  const mapboxgl = useRef<any>(null)
+  const pinMarker = useRef<any>(null)
+  const [mapLoaded, setMapLoaded] = useState(false)
+
+  const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null)
+  const [address, setAddress] = useState("")
+  const [notes, setNotes] = useState("")
+  const [resolvingAddress, setResolvingAddress] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<GeocodeResult[]>([])
+  const [searching, setSearching] = useState(false)
+
+  // Fill the address from the pin; the officer can still overwrite it
+  const placePin = async (point: { lat: number; lng: number }, knownAddress?: string) => {
+    setCoordinates(point)
+    if (knownAddress) {
+      setAddress(knownAddress)
+      return
+    }
+    setResolvingAddress(true)
+    try {
+      const resolved = await reverseGeocode(point)
+      setAddress(resolved || "")
+    } catch (err) {
+      console.error("[TrackLocationDialog] Reverse geocoding failed:", err)
+    } finally {
+      setResolvingAddress(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+
+    const lastKnown = tourist?.profile?.lastKnownLocation
+    setCoordinates(lastKnown?.coordinates ?? null)
+    setAddress(lastKnown?.address ?? "")
+    setNotes("")
+    setSearchQuery("")
+    setSearchResults([])
+  }, [open, tourist])
+
+  useEffect(() => {
+    if (!open) return
+
+    // The dialog content is portalled in on open, so wait a frame for the container
+    let cancelled = false
+    const frame = requestAnimationFrame(async () => {
+      if (cancelled || !mapContainer.current) return
+      try {
+        mapboxgl.current = await import("mapbox-gl")
+
+        if (!document.querySelector('link[href*="mapbox-gl"]')) {
+          const link = document.createElement("link")
+          link.href = "https://api.mapbox.com/mapbox-gl-js/v3.0.1/mapbox-gl.css"
+          link.rel = "stylesheet"
+          document.head.appendChild(link)
+        }
+
+        mapboxgl.current.default.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN
+        if (cancelled || !mapContainer.current) return
+
+        const start = tourist?.profile?.lastKnownLocation?.coordinates ?? DEFAULT_VIEW
+        map.current = new mapboxgl.current.default.Map({
+          container: mapContainer.current,
+          style: "mapbox://styles/mapbox/streets-v12",
+          center: [start.lng, start.lat],
+          zoom: 13,
+        })
+        map.current.addControl(new mapboxgl.current.default.NavigationControl(), "top-right")
+        map.current.on("load", () => setMapLoaded(true))
+        map.current.on("click", (e: any) => {
+          placePin({ lat: e.lngLat.lat, lng: e.lngLat.lng })
+        })
+      } catch (error) {
+        console.error("Failed to load Mapbox:", error)
+        setMapLoaded(false)
+      }
+    })
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(frame)
+      pinMarker.current = null
+      if (map.current) {
+        map.current.remove()
+        map.current = null
+      }
+      setMapLoaded(false)
+    }
+  }, [open])
+
+  // Keep the draggable pin in sync with the chosen coordinates
+  useEffect(() => {
+    if (!mapLoaded || !map.current || !mapboxgl.current) return
+
+    if (!coordinates) {
+      pinMarker.current?.remove()
+      pinMarker.current = null
+      return
+    }
+
+    if (!pinMarker.current) {
+      pinMarker.current = new mapboxgl.current.default.Marker({ color: "#dc2626", draggable: true })
+        .setLngLat([coordinates.lng, coordinates.lat])
+        .addTo(map.current)
+      pinMarker.current.on("dragend", () => {
+        const lngLat = pinMarker.current.getLngLat()
+        placePin({ lat: lngLat.lat, lng: lngLat.lng })
+      })
+    } else {
+      pinMarker.current.setLngLat([coordinates.lng, coordinates.lat])
+    }
+  }, [mapLoaded, coordinates])
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return
+    setSearching(true)
+    try {
+      const center = map.current?.getCenter()
+      setSearchResults(await searchAddress(searchQuery, center ? { lat: center.lat, lng: center.lng } : undefined))
+    } catch (err) {
+      console.error("[TrackLocationDialog] Address search failed:", err)
+      setSearchResults([])
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const handleSelectResult = (result: GeocodeResult) => {
+    setSearchResults([])
+    setSearchQuery(result.address)
+    placePin(result.coordinates, result.address)
+    map.current?.flyTo({ center: [result.coordinates.lng, result.coordinates.lat], zoom: 15 })
+  }
+
+  const canSubmit = !!coordinates && address.trim().length > 0 && !resolvingAddress && !submitting
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            Track Location
+          </DialogTitle>
+          <DialogDescription>
+            {tourist ? `Record where ${getTouristDisplayName(tourist)} was seen. ` : ""}
+            Click the map or search an address to place the pin, then drag to adjust.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Search address or landmark..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault()
+                    handleSearch()
+                  }
+                }}
+              />
+              <Button type="button" variant="outline" onClick={handleSearch} disabled={searching || !searchQuery.trim()}>
+                {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              </Button>
+            </div>
+            {searchResults.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                {searchResults.map((result) => (
+                  <button
+                    key={result.id}
+                    type="button"
+                    className="block w-full px-3 py-2 text-left text-sm hover:bg-muted"
+                    onClick={() => handleSelectResult(result)}
+                  >
+                    {result.address}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="relative h-72 w-full overflow-hidden rounded-lg border border-border">
+            <div ref={mapContainer} className="absolute inset-0" />
+            {!mapLoaded && (
+              <div className="absolute inset-0 flex items-center justify-center bg-muted/50 text-xs text-muted-foreground">
+                Loading map...
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Coordinates</Label>
+              <p className="text-sm text-muted-foreground">
+                {coordinates ? `${coordinates.lat.toFixed(5)}, ${coordinates.lng.toFixed(5)}` : "No pin placed"}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="track-location-address">Address *</Label>
+              <div className="relative">
+                <Input
+                  id="track-location-address"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder={resolvingAddress ? "Looking up address..." : "Address"}
+                  disabled={resolvingAddress}
+                />
+                {resolvingAddress && (
+                  <Loader2 className="absolute right-2 top-2.5 w-4 h-4 animate-spin text-muted-foreground" />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="track-location-notes">Officer Notes</Label>
+            <Textarea
+              id="track-location-notes"
+              rows={2}
+              placeholder="How the location was confirmed, who reported it..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => coordinates && onConfirm(coordinates, address.trim(), notes.trim())}
+            disabled={!canSubmit}
+          >
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <MapPin className="w-4 h-4 mr-2" />}
+            Record Location
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export const TRIAGE_SHORTCUTS = [
+  { keys: ["j", "↓"], description: "Next alert" },
+  { keys: ["k", "↑"], description: "Previous alert" },
+  { keys: ["a"], description: "Acknowledge (active alerts)" },
+  { keys: ["r"], description: "Mark resolved (acknowledged alerts)" },
+  { keys: ["f"], description: "Escalate to FIR" },
+  { keys: ["m"], description: "Send message" },
+  { keys: ["d"], description: "Dispatch / assign officer" },
+  { keys: ["c"], description: "Reclassify severity" },
+  { keys: ["o"], description: "Reopen (resolved or escalated alerts)" },
+  { keys: ["Enter", "v"], description: "View details" },
+  { keys: ["x"], description: "Select or deselect" },
+  { keys: ["?"], description: "Show this help" },
+  { keys: ["Esc"], description: "Leave triage mode" },
+]
+
+interface TriageHelpDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function TriageHelpDialog({ open, onOpenChange }: TriageHelpDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Triage Shortcuts</DialogTitle>
+          <DialogDescription>
+            Actions apply to the highlighted alert and follow the same rules as its buttons
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {TRIAGE_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.description} className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{shortcut.description}</span>
+              <span className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-6 rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
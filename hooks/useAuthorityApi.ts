@@ -1,8 +1,28 @@
 // hooks/useAuthorityApi.ts
 import { useState, useCallback } from 'react';
+import { createMockComplaintStream } from '@/lib/complaint-stream';
+import {
+  enqueueAction,
+  isOutboxAvailable,
+  listQueuedActions,
+  removeQueuedAction,
+  updateQueuedAction,
+  type NewQueuedAction,
+  type QueuedAction,
+} from '@/lib/complaint-outbox';
+import {
+  TRANSITIONS,
+  buildTransitionRecord,
+  canPerformAction,
+  getTransitionError,
+  type ComplaintAction,
+  type ComplaintTransition,
+} from '@/lib/complaint-state-machine';
+import type { SlaPolicy } from '@/lib/complaint-sla';
+import type { ContactNotificationRecord } from '@/lib/contact-notifications';
 
 // Types
-interface Alert {
+export interface Alert {
   id: string;
   complaintId: string;
   type: "panic_button" | "medical_emergency" | "lost_tourist" | "suspicious_activity" | "theft" | "accident";
@@ -25,9 +45,117 @@ interface Alert {
   notes?: string;
   isEmergencySOS: boolean;
   sosActivatedAt?: string;
+  acknowledgedAt?: string;
+  supervisorEscalatedAt?: string;
+  // Set on complaints closed as duplicates of another case
+  mergedInto?: string;
+  mergedComplaintIds?: string[];
+  // Read from the tourist's current profile each time the complaint is served
+  touristAge?: number;
+  touristHasMedicalConditions?: boolean;
 }
 
-interface ComplaintStats {
+export interface ComplaintCommunication {
+  from: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface ComplaintStatusChange {
+  status: Alert['status'];
+  changedBy?: string;
+  notes?: string;
+  timestamp: string;
+}
+
+// Full complaint as returned by the details endpoint
+export interface ComplaintDetails extends Alert {
+  communications?: ComplaintCommunication[];
+  statusHistory?: ComplaintStatusChange[];
+}
+
+export interface Officer {
+  id: string;
+  name: string;
+  badgeNumber?: string;
+  rank?: string;
+  department: string;
+  onShift: boolean;
+  activeCases: number;
+}
+
+// Structured resolution captured alongside the free-text notes
+export interface ComplaintResolutionDetails {
+  outcome: string;
+  timeSpentMinutes: number;
+  followUpRequired: boolean;
+  followUpNotes?: string;
+}
+
+// Particulars recorded on the FIR when a complaint is escalated
+export interface FirDetails {
+  policeStation: string;
+  legalSections: string[];
+  complainant: {
+    name: string;
+    nationality?: string;
+    passportNumber?: string;
+    phone?: string;
+    address?: string;
+  };
+  accused: {
+    name: string;
+    description?: string;
+  };
+}
+
+export interface HandoverComplaint {
+  id: string;
+  complaintId: string;
+  title: string;
+  type: Alert['type'];
+  severity: Alert['severity'];
+  status: Alert['status'];
+  touristName: string;
+  location: string;
+  assignedOfficer?: string;
+  reportedAt: string;
+}
+
+export interface HandoverZoneChange {
+  zoneName: string;
+  action: 'created' | 'deleted' | 'modified';
+  details: string;
+  officer: string;
+  timestamp: string;
+}
+
+export interface HandoverTourist {
+  id: string;
+  name: string;
+  status: 'missing' | 'flagged';
+  nationality?: string;
+  phone?: string;
+  lastKnownLocation?: string;
+  lastSeenAt?: string;
+}
+
+// Briefing passed from the outgoing shift to the incoming one
+export interface ShiftHandover {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  preparedBy: string;
+  preparedAt: string;
+  openComplaints: HandoverComplaint[];
+  zoneChanges: HandoverZoneChange[];
+  touristsOfConcern: HandoverTourist[];
+  notes: string;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+}
+
+export interface ComplaintStats {
   summary: {
     total: number;
     active: number;
@@ -36,6 +164,9 @@ interface ComplaintStats {
     resolved: number;
     resolutionRate: number;
     averageResponseTime: number;
+    // Measured by the server against the shared SLA policy
+    slaComplianceRate?: number;
+    slaBreaching?: number;
   };
   breakdown: {
     byStatus: Record<string, number>;
@@ -44,29 +175,189 @@ interface ComplaintStats {
   };
 }
 
-interface ApiFilters {
+export interface ApiFilters {
   page?: number;
   limit?: number;
   status?: string;
   category?: string;
   urgency?: string;
   assignedDepartment?: string;
+  assignedOfficer?: string;
   isEmergency?: boolean;
   search?: string;
   startDate?: string;
   endDate?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  // Active complaints past their acknowledgement SLA
+  slaBreaching?: boolean;
 }
 
 interface ApiResponse<T> {
   message: string;
   data?: T;
   error?: string;
+  // The request never reached the server
+  offline?: boolean;
+  // Kept in the offline outbox, to be sent when the connection returns
+  queued?: boolean;
+}
+
+export interface OutboxReplaySummary {
+  sent: number;
+  conflicts: number;
+  failed: number;
 }
 
+export type ComplaintStreamEventType = 'complaint.created' | 'complaint.updated' | 'complaint.resolved';
+
+export interface ComplaintStreamEvent {
+  type: ComplaintStreamEventType;
+  complaint: Alert;
+  timestamp: string;
+}
+
+// "polling" means the stream has failed repeatedly and views should lean on their
+// polling fallback while reconnect attempts continue in the background.
+export type StreamConnectionState = 'connecting' | 'open' | 'reconnecting' | 'polling' | 'closed';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL;
 
+// "sse" (default) connects to the backend, "mock" uses the local generator, "off" disables streaming
+const COMPLAINT_STREAM_MODE = process.env.NEXT_PUBLIC_COMPLAINT_STREAM || 'sse';
+const COMPLAINT_STREAM_EVENTS: ComplaintStreamEventType[] = ['complaint.created', 'complaint.updated', 'complaint.resolved'];
+const STREAM_BACKOFF_BASE_MS = 1000;
+const STREAM_BACKOFF_MAX_MS = 30000;
+const STREAM_POLLING_THRESHOLD = 3;
+
+// Last status seen for each complaint, shared by every hook instance so status
+// changes can be checked against the state machine before they reach the API
+const knownStatuses = new Map<string, Alert['status']>();
+
+const rememberStatuses = (complaints: Pick<Alert, 'id' | 'status'>[]) => {
+  complaints.forEach((complaint) => knownStatuses.set(complaint.id, complaint.status));
+};
+
+// Why `action` is not allowed on the complaint's last known status, or null when
+// it is (or the status has not been seen yet and the server has to decide)
+const getKnownActionError = (complaintId: string, action: ComplaintAction) => {
+  const status = knownStatuses.get(complaintId);
+  return status ? getTransitionError(status, action) : null;
+};
+
+// Shared so that reconnect handlers in several components replay the outbox once
+let activeReplay: Promise<OutboxReplaySummary> | null = null;
+
+// One EventSource for the whole app, shared by every subscriber, so the
+// dashboard, alert list and map do not each hold a connection open
+interface StreamSubscriber {
+  onEvent: (event: ComplaintStreamEvent) => void;
+  onStateChange: (state: StreamConnectionState) => void;
+}
+
+const streamSubscribers = new Set<StreamSubscriber>();
+let sharedStreamState: StreamConnectionState = 'closed';
+let stopSharedStream: (() => void) | null = null;
+
+const setSharedStreamState = (state: StreamConnectionState) => {
+  sharedStreamState = state;
+  streamSubscribers.forEach((subscriber) => subscriber.onStateChange(state));
+};
+
+const fetchStreamTicket = async (getAuthToken: () => string | null): Promise<string> => {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE_URL}/authority/complaints/stream-ticket`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.ticket) {
+    throw new Error(data.message || `HTTP error! status: ${response.status}`);
+  }
+  return data.ticket;
+};
+
+const startSharedStream = (getAuthToken: () => string | null) => {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const handleMessage = (type: ComplaintStreamEventType) => (message: MessageEvent) => {
+    try {
+      const payload = JSON.parse(message.data);
+      if (!payload.complaint) return;
+      rememberStatuses([payload.complaint]);
+      const event: ComplaintStreamEvent = {
+        type,
+        complaint: payload.complaint,
+        timestamp: payload.timestamp || new Date().toISOString(),
+      };
+      streamSubscribers.forEach((subscriber) => subscriber.onEvent(event));
+    } catch (err) {
+      console.error('[useAuthorityApi] Malformed stream event:', err);
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (closed) return;
+    attempts += 1;
+    const delay = Math.min(STREAM_BACKOFF_BASE_MS * 2 ** (attempts - 1), STREAM_BACKOFF_MAX_MS);
+    setSharedStreamState(attempts >= STREAM_POLLING_THRESHOLD ? 'polling' : 'reconnecting');
+    retryTimer = setTimeout(connect, delay + Math.random() * 500);
+  };
+
+  const connect = async () => {
+    if (closed) return;
+    if (attempts === 0) setSharedStreamState('connecting');
+
+    // EventSource cannot send headers, so each connection trades the token for
+    // a short-lived ticket that is safe to put in the URL
+    let ticket: string;
+    try {
+      ticket = await fetchStreamTicket(getAuthToken);
+    } catch (err) {
+      console.error('[useAuthorityApi] Could not get a stream ticket:', err);
+      scheduleRetry();
+      return;
+    }
+    if (closed) return;
+
+    source = new EventSource(
+      `${API_BASE_URL}/authority/complaints/stream?ticket=${encodeURIComponent(ticket)}`
+    );
+
+    source.onopen = () => {
+      attempts = 0;
+      setSharedStreamState('open');
+    };
+
+    COMPLAINT_STREAM_EVENTS.forEach((type) => {
+      source?.addEventListener(type, handleMessage(type) as EventListener);
+    });
+
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      scheduleRetry();
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    source?.close();
+    sharedStreamState = 'closed';
+  };
+};
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
 export const useAuthorityApi = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -110,12 +401,70 @@ export const useAuthorityApi = () => {
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
       setError(errorMessage);
-      return { message: 'Error', error: errorMessage };
+      // fetch rejects with a TypeError when the request could not be sent at all
+      const offline = err instanceof TypeError || isBrowserOffline();
+      return { message: 'Error', error: errorMessage, ...(offline && { offline }) };
     } finally {
       setLoading(false);
     }
   }, [getAuthToken]);
 
+  // Send an officer action, or keep it in the outbox when the server cannot be reached
+  const queueableCall = useCallback(async <T>(
+    action: Omit<NewQueuedAction, 'body'> & { body: Record<string, unknown> }
+  ): Promise<ApiResponse<T>> => {
+    const body = JSON.stringify(action.body);
+    const queue = async (): Promise<ApiResponse<T>> => {
+      try {
+        await enqueueAction({ ...action, body });
+        return { message: 'Queued', queued: true };
+      } catch (err) {
+        console.error('[useAuthorityApi] Could not queue action offline:', err);
+        return { message: 'Error', error: 'You are offline and the action could not be saved for later', offline: true };
+      }
+    };
+
+    if (!isOutboxAvailable()) return apiCall<T>(action.endpoint, { method: action.method, body });
+    if (isBrowserOffline()) return queue();
+
+    const response = await apiCall<T>(action.endpoint, { method: action.method, body });
+    return response.offline ? queue() : response;
+  }, [apiCall]);
+
+  // Reject illegal status changes locally, then send the change along with a
+  // record of who made it
+  const transitionCall = useCallback(async <T>(
+    complaintId: string,
+    action: ComplaintTransition,
+    endpoint: string,
+    body: Record<string, unknown>,
+    performedBy?: string,
+    reason?: string
+  ): Promise<ApiResponse<T>> => {
+    const from = knownStatuses.get(complaintId);
+    const rejection = from ? getTransitionError(from, action) : null;
+    if (rejection) {
+      return { message: 'Error', error: rejection };
+    }
+
+    const transition = buildTransitionRecord(action, from, performedBy, reason);
+    const payload = { ...body, transition };
+    // Reopening needs a live check of the case, so it is never queued
+    const response = action === 'reopen'
+      ? await apiCall<T>(endpoint, { method: 'PATCH', body: JSON.stringify(payload) })
+      : await queueableCall<T>({
+          complaintId,
+          type: action,
+          endpoint,
+          method: 'PATCH',
+          body: payload,
+          expectedStatus: from,
+          performedBy,
+        });
+    if (response.data || response.queued) knownStatuses.set(complaintId, transition.to);
+    return response;
+  }, [apiCall, queueableCall]);
+
   // Fetch complaints with filters
   const fetchComplaints = useCallback(async (filters: ApiFilters = {}) => {
     const queryParams = new URLSearchParams();
@@ -139,6 +488,7 @@ export const useAuthorityApi = () => {
       };
     }>(endpoint);
 
+    if (response.data) rememberStatuses(response.data.complaints);
     return response;
   }, [apiCall]);
 
@@ -150,7 +500,8 @@ export const useAuthorityApi = () => {
 
   // Fetch single complaint details
   const fetchComplaintDetails = useCallback(async (complaintId: string) => {
-    const response = await apiCall<{ complaint: Alert }>(`/complaints/${complaintId}`);
+    const response = await apiCall<{ complaint: ComplaintDetails }>(`/complaints/${complaintId}`);
+    if (response.data) rememberStatuses([response.data.complaint]);
     return response;
   }, [apiCall]);
 
@@ -160,61 +511,296 @@ export const useAuthorityApi = () => {
     officerName?: string,
     notes?: string
   ) => {
-    const response = await apiCall<{ complaint: { id: string; status: string } }>(
+    const response = await transitionCall<{ complaint: { id: string; status: string } }>(
+      complaintId,
+      'acknowledge',
       `/complaints/${complaintId}/acknowledge`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ officerName, notes }),
-      }
+      { officerName, notes },
+      officerName
     );
     return response;
-  }, [apiCall]);
+  }, [transitionCall]);
 
   // Resolve complaint
   const resolveComplaint = useCallback(async (
     complaintId: string,
     resolutionNotes: string,
     actionTaken?: string,
-    officerName?: string
+    officerName?: string,
+    details?: ComplaintResolutionDetails
   ) => {
-    const response = await apiCall<{ complaint: { id: string; status: string; resolution: any } }>(
+    const response = await transitionCall<{ complaint: { id: string; status: string; resolution: any } }>(
+      complaintId,
+      'resolve',
       `/complaints/${complaintId}/resolve`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify({ officerName, resolutionNotes, actionTaken }),
-      }
+      { officerName, resolutionNotes, actionTaken, ...details },
+      officerName
     );
     return response;
-  }, [apiCall]);
+  }, [transitionCall]);
 
   // Escalate to FIR
   const escalateToFIR = useCallback(async (
     complaintId: string,
     escalationNotes: string,
     officerName?: string,
-    firNumber?: string
+    firNumber?: string,
+    firDetails?: FirDetails
   ) => {
-    const response = await apiCall<{ complaint: { id: string; status: string; firNumber: string } }>(
+    const response = await transitionCall<{ complaint: { id: string; status: string; firNumber: string } }>(
+      complaintId,
+      'escalate',
       `/complaints/${complaintId}/escalate`,
+      { officerName, escalationNotes, firNumber, ...firDetails },
+      officerName
+    );
+    return response;
+  }, [transitionCall]);
+
+  // Reopen a resolved or escalated complaint; a reason is required
+  const reopenComplaint = useCallback(async (
+    complaintId: string,
+    reason: string,
+    officerName?: string
+  ) => {
+    const response = await transitionCall<{ complaint: { id: string; status: string } }>(
+      complaintId,
+      'reopen',
+      `/complaints/${complaintId}/reopen`,
+      { officerName, reason },
+      officerName,
+      reason
+    );
+    return response;
+  }, [transitionCall]);
+
+  // Change a complaint's severity without changing its status
+  const reclassifyComplaint = useCallback(async (
+    complaintId: string,
+    severity: Alert['severity'],
+    reason: string,
+    officerName?: string
+  ) => {
+    const rejection = getKnownActionError(complaintId, 'reclassify');
+    if (rejection) {
+      return { message: 'Error', error: rejection };
+    }
+
+    const response = await apiCall<{ complaint: { id: string; severity: Alert['severity'] } }>(
+      `/complaints/${complaintId}/severity`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify({ severity, reason, officerName, changedAt: new Date().toISOString() }),
+      }
+    );
+    return response;
+  }, [apiCall]);
+
+  // Reserve the next FIR number in a police station's register
+  const reserveFIRNumber = useCallback(async (policeStation: string, complaintId?: string) => {
+    const response = await apiCall<{ firNumber: string; reservedUntil?: string }>(
+      '/fir/reserve',
+      {
+        method: 'POST',
+        body: JSON.stringify({ policeStation, complaintId }),
+      }
+    );
+    return response;
+  }, [apiCall]);
+
+  // SLA targets shared by every officer. The server escalates active complaints
+  // that miss them to the supervisor queue, so no open browser tab is needed.
+  const fetchSlaPolicy = useCallback(async () => {
+    const response = await apiCall<{ policy: SlaPolicy }>('/sla-policy');
+    return response;
+  }, [apiCall]);
+
+  const updateSlaPolicy = useCallback(async (policy: SlaPolicy, updatedBy?: string) => {
+    const response = await apiCall<{ policy: SlaPolicy }>('/sla-policy', {
+      method: 'PUT',
+      body: JSON.stringify({ ...policy, updatedBy }),
+    });
+    return response;
+  }, [apiCall]);
+
+  // Assign or reassign complaint to an officer
+  const assignComplaint = useCallback(async (
+    complaintId: string,
+    assignment: {
+      officerId: string;
+      officerName: string;
+      department: string;
+      notes?: string;
+    },
+    assignedBy?: string
+  ) => {
+    const rejection = getKnownActionError(complaintId, 'assign');
+    if (rejection) {
+      return { message: 'Error', error: rejection };
+    }
+
+    const response = await apiCall<{
+      complaint: { id: string; status: string; assignedOfficer: string; assignedDepartment: string };
+    }>(
+      `/complaints/${complaintId}/assign`,
       {
         method: 'PATCH',
-        body: JSON.stringify({ officerName, escalationNotes, firNumber }),
+        body: JSON.stringify({ ...assignment, assignedBy }),
       }
     );
     return response;
   }, [apiCall]);
 
+  // Fetch officer roster with shift status and caseload
+  const fetchOfficerRoster = useCallback(async (onShiftOnly: boolean = false) => {
+    const response = await apiCall<{ officers: Officer[] }>(
+      `/officers${onShiftOnly ? '?onShift=true' : ''}`
+    );
+    return response;
+  }, [apiCall]);
+
+  // Fetch past shift handovers, newest first
+  const fetchHandovers = useCallback(async (limit: number = 20) => {
+    const response = await apiCall<{ handovers: ShiftHandover[] }>(`/handovers?limit=${limit}`);
+    return response;
+  }, [apiCall]);
+
+  // Submit a handover for the incoming shift
+  const submitHandover = useCallback(async (handover: Omit<ShiftHandover, 'id' | 'preparedAt'>) => {
+    const response = await apiCall<{ handover: ShiftHandover }>('/handovers', {
+      method: 'POST',
+      body: JSON.stringify({ ...handover, preparedAt: new Date().toISOString() }),
+    });
+    return response;
+  }, [apiCall]);
+
+  // Incoming officer confirms they have read the handover
+  const acknowledgeHandover = useCallback(async (handoverId: string, officerName: string) => {
+    const response = await apiCall<{ handover: ShiftHandover }>(`/handovers/${handoverId}/acknowledge`, {
+      method: 'PATCH',
+      body: JSON.stringify({ acknowledgedBy: officerName, acknowledgedAt: new Date().toISOString() }),
+    });
+    return response;
+  }, [apiCall]);
+
   // Add communication
   const addCommunication = useCallback(async (
     complaintId: string,
     message: string,
     officerName?: string
   ) => {
-    const response = await apiCall<{ communication: { from: string; message: string; timestamp: string } }>(
-      `/complaints/${complaintId}/communication`,
+    const rejection = getKnownActionError(complaintId, 'message');
+    if (rejection) {
+      return { message: 'Error', error: rejection };
+    }
+
+    const response = await queueableCall<{ communication: ComplaintCommunication }>({
+      complaintId,
+      type: 'message',
+      endpoint: `/complaints/${complaintId}/communication`,
+      method: 'POST',
+      body: { message, officerName },
+      expectedStatus: knownStatuses.get(complaintId),
+      performedBy: officerName,
+    });
+    return response;
+  }, [queueableCall]);
+
+  // Log messages sent to a tourist's contacts on the complaint's timeline. Unlike the message
+  // thread this is accepted whatever the complaint's status.
+  const recordContactNotification = useCallback(async (complaintId: string, record: ContactNotificationRecord) => {
+    const response = await apiCall<{ notification: ContactNotificationRecord & { _id: string } }>(
+      `/complaints/${complaintId}/contact-notifications`,
+      {
+        method: 'POST',
+        body: JSON.stringify(record),
+      }
+    );
+    return response;
+  }, [apiCall]);
+
+  // Send one queued action. Unless `force` is set, the complaint is fetched first
+  // and the action is held as a conflict if it changed server-side since queuing.
+  const sendQueuedAction = useCallback(async (
+    action: QueuedAction,
+    force: boolean = false
+  ): Promise<'sent' | 'conflict' | 'failed' | 'offline'> => {
+    if (!force) {
+      const current = await apiCall<{ complaint: ComplaintDetails }>(`/complaints/${action.complaintId}`);
+      if (current.offline) return 'offline';
+      if (!current.data) {
+        await updateQueuedAction({ ...action, state: 'failed', error: current.error });
+        return 'failed';
+      }
+
+      const serverStatus = current.data.complaint.status;
+      const stillApplies = action.type === 'message'
+        ? canPerformAction({ status: serverStatus }, 'message')
+        : !action.expectedStatus || serverStatus === action.expectedStatus;
+      if (!stillApplies) {
+        knownStatuses.set(action.complaintId, serverStatus);
+        await updateQueuedAction({ ...action, state: 'conflict', serverStatus });
+        return 'conflict';
+      }
+    }
+
+    const response = await apiCall(action.endpoint, { method: action.method, body: action.body });
+    if (response.offline) return 'offline';
+    if (!response.data) {
+      await updateQueuedAction({ ...action, state: 'failed', error: response.error });
+      return 'failed';
+    }
+
+    await removeQueuedAction(action.id);
+    if (action.type !== 'message') knownStatuses.set(action.complaintId, TRANSITIONS[action.type].to);
+    return 'sent';
+  }, [apiCall]);
+
+  // Replay pending actions in the order they were taken, stopping as soon as
+  // the server is unreachable again
+  const replayQueuedActions = useCallback(() => {
+    if (!activeReplay) {
+      activeReplay = (async () => {
+        const summary: OutboxReplaySummary = { sent: 0, conflicts: 0, failed: 0 };
+        const pending = (await listQueuedActions()).filter((action) => action.state === 'pending');
+
+        for (const action of pending) {
+          const outcome = await sendQueuedAction(action);
+          if (outcome === 'offline') break;
+          if (outcome === 'sent') summary.sent += 1;
+          else if (outcome === 'conflict') summary.conflicts += 1;
+          else summary.failed += 1;
+        }
+        return summary;
+      })().finally(() => {
+        activeReplay = null;
+      });
+    }
+    return activeReplay;
+  }, [sendQueuedAction]);
+
+  // Merge duplicate complaints into a primary case. The duplicates are closed
+  // and linked to the primary, and their communications are copied onto it.
+  const mergeComplaints = useCallback(async (
+    primaryId: string,
+    duplicateIds: string[],
+    mergedBy?: string,
+    notes?: string
+  ) => {
+    const rejection = [primaryId, ...duplicateIds]
+      .map((complaintId) => getKnownActionError(complaintId, 'merge'))
+      .find(Boolean);
+    if (rejection) {
+      return { message: 'Error', error: rejection };
+    }
+
+    const response = await apiCall<{
+      complaint: { id: string; mergedComplaintIds: string[]; communicationsMerged: number };
+    }>(
+      `/complaints/${primaryId}/merge`,
       {
         method: 'POST',
-        body: JSON.stringify({ message, officerName }),
+        body: JSON.stringify({ duplicateIds, mergedBy, notes, preserveCommunications: true }),
       }
     );
     return response;
@@ -229,9 +815,55 @@ export const useAuthorityApi = () => {
     const response = await apiCall<{ complaints: Alert[] }>(
       `/complaints/nearby?lat=${lat}&lng=${lng}&radius=${radius}`
     );
+    if (response.data) rememberStatuses(response.data.complaints);
     return response;
   }, [apiCall]);
 
+  // Subscribe to pushed complaint changes. Returns an unsubscribe function.
+  const subscribeToComplaints = useCallback((
+    onEvent: (event: ComplaintStreamEvent) => void,
+    onStateChange?: (state: StreamConnectionState) => void
+  ) => {
+    if (typeof window === 'undefined' || COMPLAINT_STREAM_MODE === 'off') {
+      onStateChange?.('polling');
+      return () => {};
+    }
+
+    if (COMPLAINT_STREAM_MODE === 'mock') {
+      onStateChange?.('open');
+      const stopMock = createMockComplaintStream((event) => {
+        rememberStatuses([event.complaint]);
+        onEvent(event);
+      });
+      return () => {
+        stopMock();
+        onStateChange?.('closed');
+      };
+    }
+
+    if (typeof EventSource === 'undefined') {
+      onStateChange?.('polling');
+      return () => {};
+    }
+
+    const subscriber: StreamSubscriber = { onEvent, onStateChange: (state) => onStateChange?.(state) };
+    streamSubscribers.add(subscriber);
+    if (stopSharedStream) {
+      subscriber.onStateChange(sharedStreamState);
+    } else {
+      stopSharedStream = startSharedStream(getAuthToken);
+    }
+
+    return () => {
+      streamSubscribers.delete(subscriber);
+      onStateChange?.('closed');
+      if (streamSubscribers.size === 0 && stopSharedStream) {
+        stopSharedStream();
+        stopSharedStream = null;
+      }
+    };
+  }, [getAuthToken]);
+
   return {
     loading,
     error,
@@ -241,7 +873,22 @@ export const useAuthorityApi = () => {
     acknowledgeComplaint,
     resolveComplaint,
     escalateToFIR,
+    reserveFIRNumber,
+    reopenComplaint,
+    reclassifyComplaint,
+    fetchSlaPolicy,
+    updateSlaPolicy,
     addCommunication,
+    recordContactNotification,
+    mergeComplaints,
+    assignComplaint,
+    sendQueuedAction,
+    replayQueuedActions,
+    fetchOfficerRoster,
+    fetchHandovers,
+    submitHandover,
+    acknowledgeHandover,
     fetchNearbyComplaints,
+    subscribeToComplaints,
   };
 };
\ No newline at end of file
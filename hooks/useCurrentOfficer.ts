@@ -0,0 +1,63 @@
+// =============================================================================
+// CURRENT OFFICER HOOK
+// File path: hooks/useCurrentOfficer.ts
+// =============================================================================
+
+import { useState, useEffect } from 'react';
+
+export type OfficerRole = 'officer' | 'investigator' | 'supervisor' | 'admin';
+
+const OFFICER_ROLES: OfficerRole[] = ['officer', 'investigator', 'supervisor', 'admin'];
+
+// Every role may update tourist records; protected fields stay masked until revealed
+const TOURIST_WRITE_ROLES: OfficerRole[] = ['officer', 'investigator', 'supervisor', 'admin'];
+
+export const canWriteTourists = (role: OfficerRole) => TOURIST_WRITE_ROLES.includes(role);
+
+export interface CurrentOfficer {
+  id: string;
+  name: string;
+  department: string;
+  role: OfficerRole;
+}
+
+// Used until the login flow stores an officer profile
+const DEFAULT_OFFICER: CurrentOfficer = {
+  id: 'police-department',
+  name: 'Police Department',
+  department: 'Police Department',
+  role: 'officer',
+};
+
+// Read the signed-in officer from storage (set alongside the auth token)
+export const getCurrentOfficer = (): CurrentOfficer => {
+  if (typeof window === 'undefined') return DEFAULT_OFFICER;
+
+  try {
+    const stored = localStorage.getItem('officerProfile') || sessionStorage.getItem('officerProfile');
+    if (!stored) return DEFAULT_OFFICER;
+
+    const parsed = JSON.parse(stored);
+    return {
+      id: parsed.id || DEFAULT_OFFICER.id,
+      name: parsed.name || DEFAULT_OFFICER.name,
+      department: parsed.department || DEFAULT_OFFICER.department,
+      // Unknown roles get the least privileged one
+      role: OFFICER_ROLES.includes(parsed.role) ? parsed.role : DEFAULT_OFFICER.role,
+    };
+  } catch (err) {
+    console.error('[useCurrentOfficer] Invalid stored officer profile:', err);
+    return DEFAULT_OFFICER;
+  }
+};
+
+export const useCurrentOfficer = () => {
+  // Start from the default so server and client render the same markup
+  const [officer, setOfficer] = useState<CurrentOfficer>(DEFAULT_OFFICER);
+
+  useEffect(() => {
+    setOfficer(getCurrentOfficer());
+  }, []);
+
+  return officer;
+};
@@ -0,0 +1,95 @@
+// =============================================================================
+// DOCUMENT EXPIRY WATCHLIST HOOK
+// File path: hooks/useDocumentWatchlist.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useTouristManagementApi, type TouristProfile } from '@/hooks/useTouristManagementApi';
+import {
+  DEFAULT_EXPIRY_WINDOW_DAYS,
+  OVERSTAY_FLAG_REASON,
+  buildExpiryWatchlist,
+  summarizeExpiryWatchlist,
+} from '@/lib/document-expiry';
+
+const STORAGE_KEY = 'documentExpiryWindowDays';
+
+// Shared across instances so the dashboard and the watchlist view do not flag the same tourist twice
+const overstayFlagsInFlight = new Set<string>();
+
+const loadStoredWindow = () => {
+  if (typeof window === 'undefined') return DEFAULT_EXPIRY_WINDOW_DAYS;
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_EXPIRY_WINDOW_DAYS;
+};
+
+export const useDocumentWatchlist = (onOverstaysFlagged?: (count: number) => void) => {
+  const { fetchDocumentExpiries, flagTourist } = useTouristManagementApi();
+  const [windowDays, setWindowDaysState] = useState(DEFAULT_EXPIRY_WINDOW_DAYS);
+  const [tourists, setTourists] = useState<TouristProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onOverstaysFlaggedRef = useRef(onOverstaysFlagged);
+  onOverstaysFlaggedRef.current = onOverstaysFlagged;
+
+  useEffect(() => {
+    setWindowDaysState(loadStoredWindow());
+  }, []);
+
+  const setWindowDays = useCallback((days: number) => {
+    setWindowDaysState(days);
+    localStorage.setItem(STORAGE_KEY, String(days));
+  }, []);
+
+  // Visa lapsed while still active: flag with the standard reason
+  const flagOverstays = useCallback(async (loaded: TouristProfile[]) => {
+    const overstays = buildExpiryWatchlist(loaded, windowDays).filter(
+      (entry) => entry.overstay && entry.tourist.status === 'active' && !overstayFlagsInFlight.has(entry.tourist._id)
+    );
+    if (overstays.length === 0) return loaded;
+
+    const flagged = new Map<string, TouristProfile>();
+    await Promise.all(overstays.map(async ({ tourist }) => {
+      overstayFlagsInFlight.add(tourist._id);
+      try {
+        const response = await flagTourist(tourist._id, true, OVERSTAY_FLAG_REASON);
+        flagged.set(tourist._id, response.tourist ?? {
+          ...tourist,
+          status: 'flagged',
+          profile: { ...tourist.profile, flagReason: OVERSTAY_FLAG_REASON, flaggedAt: new Date().toISOString() },
+        });
+      } catch (err) {
+        console.error('[useDocumentWatchlist] Could not flag overstay:', tourist._id, err);
+      } finally {
+        overstayFlagsInFlight.delete(tourist._id);
+      }
+    }));
+
+    if (flagged.size > 0) onOverstaysFlaggedRef.current?.(flagged.size);
+    return loaded.map((tourist) => flagged.get(tourist._id) ?? tourist);
+  }, [flagTourist, windowDays]);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetchDocumentExpiries(windowDays);
+      const loaded = response.tourists || [];
+      setTourists(loaded);
+      setTourists(await flagOverstays(loaded));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load document watchlist');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchDocumentExpiries, windowDays, flagOverstays]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const entries = useMemo(() => buildExpiryWatchlist(tourists, windowDays), [tourists, windowDays]);
+  const summary = useMemo(() => summarizeExpiryWatchlist(entries), [entries]);
+
+  return { windowDays, setWindowDays, entries, summary, loading, error, reload };
+};
@@ -0,0 +1,44 @@
+// =============================================================================
+// DUPLICATE IDENTITY CHECK HOOK
+// File path: hooks/useDuplicateIdentities.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTouristManagementApi } from '@/hooks/useTouristManagementApi';
+import { DUPLICATE_SCAN_INTERVAL_MS, duplicatePairKey, type DuplicateCandidate } from '@/lib/duplicate-identity';
+
+// Refetches the server's duplicate candidates in the background while mounted
+export const useDuplicateIdentities = () => {
+  const { fetchDuplicateCandidates } = useTouristManagementApi();
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastScannedAt, setLastScannedAt] = useState<Date | null>(null);
+
+  const rescan = useCallback(async () => {
+    setScanning(true);
+    setError(null);
+    try {
+      const response = await fetchDuplicateCandidates();
+      setCandidates(
+        (response.candidates || []).map((candidate) => ({
+          ...candidate,
+          key: duplicatePairKey(candidate.tourists[0]._id, candidate.tourists[1]._id),
+        }))
+      );
+      setLastScannedAt(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check for duplicate tourists');
+    } finally {
+      setScanning(false);
+    }
+  }, [fetchDuplicateCandidates]);
+
+  useEffect(() => {
+    rescan();
+    const interval = setInterval(rescan, DUPLICATE_SCAN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [rescan]);
+
+  return { candidates, scanning, error, lastScannedAt, rescan };
+};
@@ -0,0 +1,212 @@
+// =============================================================================
+// EMERGENCY ALARM HOOK
+// File path: hooks/useEmergencyAlarm.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Alert } from '@/hooks/useAuthorityApi';
+
+declare global {
+  interface Window {
+    // Older Safari only ships the prefixed constructor
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export interface AlarmSettings {
+  soundMuted: boolean;
+  desktopNotifications: boolean;
+  snoozedUntil: string | null;
+}
+
+const DEFAULT_SETTINGS: AlarmSettings = {
+  soundMuted: false,
+  desktopNotifications: true,
+  snoozedUntil: null,
+};
+
+// Remember which alerts already raised a desktop notification so refreshes
+// and reconnects don't pop them again
+const NOTIFIED_STORAGE_KEY = 'alarmNotifiedIds';
+const MAX_NOTIFIED_IDS = 500;
+
+const ALARM_INTERVAL_MS = 1500;
+
+export const isAlarmWorthy = (alert: Alert) =>
+  alert.status === 'active' && (alert.isEmergencySOS || alert.severity === 'critical');
+
+const createAudioContext = () => {
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  return AudioContextClass ? new AudioContextClass() : null;
+};
+
+const loadNotifiedIds = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(NOTIFIED_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const useEmergencyAlarm = (officerId: string) => {
+  const settingsKey = `alarmSettings:${officerId}`;
+  const [settings, setSettings] = useState<AlarmSettings>(DEFAULT_SETTINGS);
+  const [ringing, setRinging] = useState<Alert[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const notifiedIds = useRef<Set<string>>(new Set());
+  const audioContext = useRef<AudioContext | null>(null);
+
+  // Settings are stored per officer
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(settingsKey);
+      setSettings(stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS);
+    } catch (err) {
+      console.error('[useEmergencyAlarm] Invalid stored alarm settings:', err);
+      setSettings(DEFAULT_SETTINGS);
+    }
+    notifiedIds.current = new Set(loadNotifiedIds());
+  }, [settingsKey]);
+
+  const updateSettings = useCallback((updates: Partial<AlarmSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...updates };
+      localStorage.setItem(settingsKey, JSON.stringify(next));
+      return next;
+    });
+  }, [settingsKey]);
+
+  const snooze = useCallback((minutes: number) => {
+    updateSettings({ snoozedUntil: new Date(Date.now() + minutes * 60000).toISOString() });
+  }, [updateSettings]);
+
+  const requestDesktopPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return 'denied' as NotificationPermission;
+    const permission = await Notification.requestPermission();
+    updateSettings({ desktopNotifications: permission === 'granted' });
+    return permission;
+  }, [updateSettings]);
+
+  const showDesktopNotification = useCallback((alert: Alert) => {
+    if (!settings.desktopNotifications) return;
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    const notification = new Notification(
+      alert.isEmergencySOS ? `EMERGENCY SOS: ${alert.touristName}` : `Critical alert: ${alert.touristName}`,
+      {
+        body: `${alert.title || alert.type.replace(/_/g, ' ')} at ${alert.location}`,
+        tag: `complaint-${alert.id}`,
+        requireInteraction: true,
+      }
+    );
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  }, [settings.desktopNotifications]);
+
+  // Feed complaints in from any source (list loads, stream events). Alarm-worthy
+  // complaints keep ringing until a later observation shows them acknowledged.
+  const observe = useCallback((alerts: Alert[]) => {
+    const fresh: Alert[] = [];
+
+    alerts.forEach((alert) => {
+      if (isAlarmWorthy(alert) && !notifiedIds.current.has(alert.id)) {
+        notifiedIds.current.add(alert.id);
+        fresh.push(alert);
+      }
+    });
+
+    if (fresh.length > 0) {
+      const ids = [...notifiedIds.current].slice(-MAX_NOTIFIED_IDS);
+      sessionStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(ids));
+      fresh.forEach(showDesktopNotification);
+    }
+
+    setRinging((prev) => {
+      const byId = new Map(prev.map((alert) => [alert.id, alert]));
+      alerts.forEach((alert) => {
+        if (isAlarmWorthy(alert)) byId.set(alert.id, alert);
+        else byId.delete(alert.id);
+      });
+      return [...byId.values()];
+    });
+  }, [showDesktopNotification]);
+
+  const snoozed = settings.snoozedUntil !== null && new Date(settings.snoozedUntil).getTime() > now;
+  const sounding = ringing.length > 0 && !settings.soundMuted && !snoozed;
+
+  // Re-check the snooze window while it is running
+  useEffect(() => {
+    if (!settings.snoozedUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [settings.snoozedUntil]);
+
+  // Browsers keep audio suspended until the page gets a user gesture, so unlock
+  // it on the first click or key press; a siren already due starts sounding then
+  useEffect(() => {
+    const unlock = async () => {
+      if (!audioContext.current) audioContext.current = createAudioContext();
+      await audioContext.current?.resume();
+      if (audioContext.current?.state !== 'running') return;
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  // Two-tone siren generated with Web Audio so no sound asset is needed
+  useEffect(() => {
+    if (!sounding || typeof window === 'undefined') return;
+
+    if (!audioContext.current) audioContext.current = createAudioContext();
+    const context = audioContext.current;
+    if (!context) return;
+
+    const playTone = () => {
+      // Tones scheduled while suspended would all play at once on unlock
+      if (context.state !== 'running') return;
+      [880, 660].forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const start = context.currentTime + index * 0.3;
+        oscillator.type = 'square';
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.15, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 0.28);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + 0.3);
+      });
+    };
+
+    playTone();
+    const interval = setInterval(playTone, ALARM_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sounding]);
+
+  useEffect(() => {
+    return () => {
+      audioContext.current?.close();
+      audioContext.current = null;
+    };
+  }, []);
+
+  return {
+    ringing,
+    sounding,
+    snoozed,
+    settings,
+    updateSettings,
+    snooze,
+    requestDesktopPermission,
+    observe,
+  };
+};
@@ -0,0 +1,55 @@
+// =============================================================================
+// ALERT FILTER PRESETS HOOK
+// File path: hooks/useFilterPresets.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_ALERT_FILTERS, type AlertFilterState } from '@/lib/complaint-filters';
+
+export interface FilterPreset {
+  name: string;
+  filters: AlertFilterState;
+  savedAt: string;
+}
+
+// Presets are stored per officer
+export const useFilterPresets = (officerId: string) => {
+  const storageKey = `alertFilterPresets:${officerId}`;
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+
+  useEffect(() => {
+    try {
+      const stored: FilterPreset[] = JSON.parse(localStorage.getItem(storageKey) || '[]');
+      // Fill in filters added since the preset was saved
+      setPresets(stored.map((preset) => ({
+        ...preset,
+        filters: { ...DEFAULT_ALERT_FILTERS, ...preset.filters },
+      })));
+    } catch (err) {
+      console.error('[useFilterPresets] Invalid stored presets:', err);
+      setPresets([]);
+    }
+  }, [storageKey]);
+
+  const persist = useCallback((updater: (prev: FilterPreset[]) => FilterPreset[]) => {
+    setPresets((prev) => {
+      const next = updater(prev);
+      localStorage.setItem(storageKey, JSON.stringify(next));
+      return next;
+    });
+  }, [storageKey]);
+
+  // Saving under an existing name replaces that preset
+  const savePreset = useCallback((name: string, filters: AlertFilterState) => {
+    persist((prev) => [
+      ...prev.filter((preset) => preset.name !== name),
+      { name, filters, savedAt: new Date().toISOString() },
+    ].sort((a, b) => a.name.localeCompare(b.name)));
+  }, [persist]);
+
+  const deletePreset = useCallback((name: string) => {
+    persist((prev) => prev.filter((preset) => preset.name !== name));
+  }, [persist]);
+
+  return { presets, savePreset, deletePreset };
+};
@@ -0,0 +1,97 @@
+// =============================================================================
+// OFFLINE OUTBOX HOOK
+// File path: hooks/useOfflineOutbox.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuthorityApi, type OutboxReplaySummary } from '@/hooks/useAuthorityApi';
+import {
+  listQueuedActions,
+  removeQueuedAction,
+  subscribeToOutbox,
+  type QueuedAction,
+} from '@/lib/complaint-outbox';
+
+// Retry interval while actions are waiting, for when the browser reports a
+// connection but the server is still unreachable
+const OUTBOX_RETRY_MS = 30000;
+
+export const useOfflineOutbox = (onSynced?: (summary: OutboxReplaySummary) => void) => {
+  const { replayQueuedActions, sendQueuedAction } = useAuthorityApi();
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = useCallback(() => {
+    listQueuedActions()
+      .then(setActions)
+      .catch((err) => console.error('[useOfflineOutbox] Could not read outbox:', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToOutbox(refresh);
+  }, [refresh]);
+
+  const replay = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const summary = await replayQueuedActions();
+      if (summary.sent > 0) onSyncedRef.current?.(summary);
+      return summary;
+    } catch (err) {
+      console.error('[useOfflineOutbox] Replay failed:', err);
+      return null;
+    } finally {
+      setSyncing(false);
+    }
+  }, [replayQueuedActions]);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    if (navigator.onLine) replay();
+
+    const handleOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [replay]);
+
+  const pendingCount = actions.filter((action) => action.state === 'pending').length;
+
+  useEffect(() => {
+    if (!online || pendingCount === 0) return;
+    const interval = setInterval(replay, OUTBOX_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [online, pendingCount, replay]);
+
+  // Send a held action as it is, without checking the complaint again
+  const retry = useCallback(async (action: QueuedAction) => {
+    const outcome = await sendQueuedAction(action, true);
+    if (outcome === 'sent') onSyncedRef.current?.({ sent: 1, conflicts: 0, failed: 0 });
+    return outcome;
+  }, [sendQueuedAction]);
+
+  const discard = useCallback((id: number) => removeQueuedAction(id), []);
+
+  return {
+    actions,
+    online,
+    syncing,
+    pendingCount,
+    heldActions: actions.filter((action) => action.state !== 'pending'),
+    replay,
+    retry,
+    discard,
+  };
+};
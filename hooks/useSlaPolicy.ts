@@ -0,0 +1,42 @@
+// =============================================================================
+// SLA POLICY HOOK
+// File path: hooks/useSlaPolicy.ts
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthorityApi } from '@/hooks/useAuthorityApi';
+import { DEFAULT_SLA_POLICY, type SlaPolicy } from '@/lib/complaint-sla';
+
+// The policy lives on the server, which also escalates breaches, so every
+// officer sees and is measured against the same targets
+export const useSlaPolicy = () => {
+  const { fetchSlaPolicy, updateSlaPolicy } = useAuthorityApi();
+  const [policy, setPolicy] = useState<SlaPolicy>(DEFAULT_SLA_POLICY);
+
+  useEffect(() => {
+    fetchSlaPolicy().then((response) => {
+      if (response.data) {
+        setPolicy({
+          bySeverity: { ...DEFAULT_SLA_POLICY.bySeverity, ...response.data.policy.bySeverity },
+          byType: { ...response.data.policy.byType },
+        });
+      } else if (response.error) {
+        console.error('[useSlaPolicy] Could not load SLA policy, using defaults:', response.error);
+      }
+    });
+  }, [fetchSlaPolicy]);
+
+  // Returns the error message when the server rejects the change
+  const savePolicy = useCallback(async (updated: SlaPolicy, updatedBy?: string) => {
+    const response = await updateSlaPolicy(updated, updatedBy);
+    if (response.data) setPolicy(response.data.policy);
+    return response.error ?? null;
+  }, [updateSlaPolicy]);
+
+  const resetPolicy = useCallback(
+    (updatedBy?: string) => savePolicy(DEFAULT_SLA_POLICY, updatedBy),
+    [savePolicy]
+  );
+
+  return { policy, savePolicy, resetPolicy };
+};
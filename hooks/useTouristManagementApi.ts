@@ -4,9 +4,13 @@
 // =============================================================================
 
 import { useState, useCallback } from 'react';
+import type { ContactNotificationRecord } from '@/lib/contact-notifications';
+import type { SensitiveField } from '@/lib/sensitive-fields';
+import type { DuplicateCandidate } from '@/lib/duplicate-identity';
 
 // Types for tourist management
-interface TouristProfile {
+// Fields listed in SENSITIVE_FIELDS arrive masked; revealSensitiveField returns the plain value
+export interface TouristProfile {
   _id: string;
   username: string;
   email: string;
@@ -44,6 +48,10 @@ interface TouristProfile {
     medications?: string;
     insuranceProvider?: string;
     insuranceNumber?: string;
+    flagReason?: string;
+    flaggedAt?: string;
+    // Set on a record folded into another by a duplicate merge
+    mergedInto?: string;
   };
   status: 'active' | 'inactive' | 'missing' | 'flagged' | 'departed';
   role: string;
@@ -63,7 +71,82 @@ interface TouristProfile {
   };
 }
 
-interface TouristFilters {
+// Search actions and sightings logged against a missing-person case
+export interface MissingPersonCaseEntry {
+  _id?: string;
+  type: 'search_action' | 'sighting' | 'note';
+  description: string;
+  location?: string;
+  reportedBy: string;
+  timestamp: string;
+}
+
+export type MissingPersonOutcome = 'found_safe' | 'found_injured' | 'found_deceased' | 'departed' | 'other';
+
+export interface MissingPersonCase {
+  _id: string;
+  caseNumber: string;
+  touristId: string;
+  status: 'open' | 'closed';
+  lastSeenAt: string;
+  lastSeenLocation: string;
+  lastSeenCoordinates?: { lat: number; lng: number };
+  circumstances: string;
+  physicalDescription: string;
+  clothing?: string;
+  openedBy: string;
+  openedAt: string;
+  entries: MissingPersonCaseEntry[];
+  outcome?: MissingPersonOutcome;
+  outcomeNotes?: string;
+  closedBy?: string;
+  closedAt?: string;
+}
+
+export interface MissingPersonCaseDetails {
+  lastSeenAt: string;
+  lastSeenLocation: string;
+  lastSeenCoordinates?: { lat: number; lng: number };
+  circumstances: string;
+  physicalDescription: string;
+  clothing?: string;
+}
+
+// A recorded position from trackLocation or the tourist app
+export interface LocationHistoryPoint {
+  _id?: string;
+  coordinates: { lat: number; lng: number };
+  address?: string;
+  notes?: string;
+  timestamp: string;
+}
+
+// One officer viewing one protected field of a tourist's profile
+export interface RevealAuditEntry {
+  _id: string;
+  touristId: string;
+  touristName?: string;
+  field: SensitiveField;
+  reason: string;
+  officerId: string;
+  officerName: string;
+  officerRole: string;
+  revealedAt: string;
+}
+
+export interface TouristListPage {
+  tourists: TouristProfile[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+export interface TouristFilters {
   page?: number;
   limit?: number;
   search?: string;
@@ -75,6 +158,37 @@ interface TouristFilters {
   endDate?: string;
 }
 
+export interface TouristMergeRequest {
+  duplicateId: string;
+  phone?: string;
+  profile: NonNullable<TouristProfile['profile']>;
+  // Masked fields to take from the duplicate; the server copies the stored values across
+  keepFromDuplicate?: SensitiveField[];
+  reason: string;
+  mergedBy: string;
+}
+
+// Records moved from the duplicate onto the kept tourist
+export interface TouristMergeResult {
+  complaintsMoved: number;
+  locationsMoved: number;
+}
+
+// One spreadsheet row; the server matches existing tourists by email, then passport number
+export interface TouristImportRecord {
+  row: number;
+  email: string;
+  username?: string;
+  phone?: string;
+  profile: NonNullable<TouristProfile['profile']>;
+}
+
+export interface TouristImportResult {
+  created: number;
+  updated: number;
+  failed: { row: number; message: string }[];
+}
+
 interface TouristStats {
   overview: {
     total: number;
@@ -102,6 +216,14 @@ export const useTouristManagementApi = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Same token as the authority API; the server decides from it what this officer may see
+  const getAuthToken = useCallback(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
+    }
+    return null;
+  }, []);
+
   // Generic API call function
   const apiCall = useCallback(async <T>(
     endpoint: string,
@@ -111,8 +233,10 @@ export const useTouristManagementApi = () => {
       setLoading(true);
       setError(null);
 
+      const token = getAuthToken();
       const headers = {
         'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
         ...options.headers,
       };
 
@@ -135,7 +259,7 @@ export const useTouristManagementApi = () => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [getAuthToken]);
 
   // Fetch all tourists with filters
   const fetchTourists = useCallback(async (filters: TouristFilters = {}) => {
@@ -148,17 +272,7 @@ export const useTouristManagementApi = () => {
     });
 
     const endpoint = `/tourists${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    return await apiCall<{
-      tourists: TouristProfile[];
-      pagination: {
-        total: number;
-        page: number;
-        limit: number;
-        totalPages: number;
-        hasNext: boolean;
-        hasPrev: boolean;
-      };
-    }>(endpoint);
+    return await apiCall<TouristListPage>(endpoint);
   }, [apiCall]);
 
   // Fetch single tourist profile
@@ -166,11 +280,15 @@ export const useTouristManagementApi = () => {
     return await apiCall<{ tourist: TouristProfile }>(`/tourists/${touristId}`);
   }, [apiCall]);
 
-  // Update tourist profile
-  const updateTouristProfile = useCallback(async (touristId: string, updates: Partial<TouristProfile>) => {
+  // Update tourist profile; officer edits pass an audit entry with the reason
+  const updateTouristProfile = useCallback(async (
+    touristId: string,
+    updates: Partial<TouristProfile>,
+    audit?: { changeReason: string; changedBy: string; changedFields: string[] }
+  ) => {
     return await apiCall<{ tourist: TouristProfile }>(`/tourists/${touristId}`, {
       method: 'PATCH',
-      body: JSON.stringify(updates),
+      body: JSON.stringify({ ...updates, ...(audit && { audit }) }),
     });
   }, [apiCall]);
 
@@ -195,6 +313,124 @@ export const useTouristManagementApi = () => {
     });
   }, [apiCall]);
 
+  // Fetch recorded positions for a tourist, optionally since a given time
+  const fetchLocationHistory = useCallback(async (touristId: string, since?: string) => {
+    const query = since ? `?${new URLSearchParams({ since }).toString()}` : '';
+    return await apiCall<{ locations: LocationHistoryPoint[] }>(`/tourists/${touristId}/locations${query}`);
+  }, [apiCall]);
+
+  // Tourists whose passport or visa expires within the window or has already lapsed
+  const fetchDocumentExpiries = useCallback(async (withinDays: number) => {
+    return await apiCall<{ tourists: TouristProfile[] }>(`/tourists/document-expiries?withinDays=${withinDays}`);
+  }, [apiCall]);
+
+  // Send the tourist a renewal reminder for a passport or visa
+  const sendDocumentReminder = useCallback(async (
+    touristId: string,
+    document: 'passport' | 'visa',
+    expiresAt: string,
+    sentBy: string
+  ) => {
+    return await apiCall<{ reminder: { sentAt: string; channel: string } }>(`/tourists/${touristId}/reminders`, {
+      method: 'POST',
+      body: JSON.stringify({ type: `${document}_expiry`, expiresAt, sentBy }),
+    });
+  }, [apiCall]);
+
+  // Log messages sent to a tourist's emergency or local contacts
+  const recordContactNotification = useCallback(async (touristId: string, record: ContactNotificationRecord) => {
+    return await apiCall<{ notification: ContactNotificationRecord & { _id: string } }>(
+      `/tourists/${touristId}/contact-notifications`,
+      {
+        method: 'POST',
+        body: JSON.stringify(record),
+      }
+    );
+  }, [apiCall]);
+
+  // Plain value of a masked field; the server checks the officer's role and writes the audit entry first
+  const revealSensitiveField = useCallback(async (touristId: string, field: SensitiveField, reason: string) => {
+    return await apiCall<{ value: string }>(`/tourists/${touristId}/reveals`, {
+      method: 'POST',
+      body: JSON.stringify({ field, reason }),
+    });
+  }, [apiCall]);
+
+  // Reveal audit log for supervisors, newest first
+  const fetchRevealAudit = useCallback(async (limit: number = 100) => {
+    return await apiCall<{ entries: RevealAuditEntry[] }>(`/audit/reveals?limit=${limit}`);
+  }, [apiCall]);
+
+  // Create or update a batch of tourists from an import
+  const importTourists = useCallback(async (records: TouristImportRecord[], importedBy: string) => {
+    return await apiCall<{ result: TouristImportResult }>('/tourists/import', {
+      method: 'POST',
+      body: JSON.stringify({ records, importedBy }),
+    });
+  }, [apiCall]);
+
+  // A page of tourists with protected fields unmasked; the server checks the role and audits the export
+  const exportTourists = useCallback(async (filters: TouristFilters, reason: string) => {
+    return await apiCall<TouristListPage>('/tourists/export', {
+      method: 'POST',
+      body: JSON.stringify({ ...filters, reason }),
+    });
+  }, [apiCall]);
+
+  // Possible duplicate pairs from the server's scan of all tourists, exact matches first
+  const fetchDuplicateCandidates = useCallback(async () => {
+    return await apiCall<{ candidates: Omit<DuplicateCandidate, 'key'>[] }>('/tourists/duplicates');
+  }, [apiCall]);
+
+  // Fold a duplicate record into the kept tourist; its complaints and location history are moved across
+  const mergeTourists = useCallback(async (primaryId: string, request: TouristMergeRequest) => {
+    return await apiCall<{ tourist: TouristProfile; result: TouristMergeResult }>(`/tourists/${primaryId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }, [apiCall]);
+
+  // Open missing-person case for the tourist, if any
+  const fetchMissingPersonCase = useCallback(async (touristId: string) => {
+    return await apiCall<{ case: MissingPersonCase | null }>(`/tourists/${touristId}/missing-case`);
+  }, [apiCall]);
+
+  // Open a missing-person case
+  const openMissingPersonCase = useCallback(async (
+    touristId: string,
+    details: MissingPersonCaseDetails,
+    openedBy: string
+  ) => {
+    return await apiCall<{ case: MissingPersonCase }>(`/tourists/${touristId}/missing-case`, {
+      method: 'POST',
+      body: JSON.stringify({ ...details, openedBy }),
+    });
+  }, [apiCall]);
+
+  // Log a search action, sighting or note on a case
+  const addMissingPersonCaseEntry = useCallback(async (
+    caseId: string,
+    entry: Omit<MissingPersonCaseEntry, '_id' | 'timestamp'>
+  ) => {
+    return await apiCall<{ entry: MissingPersonCaseEntry }>(`/missing-cases/${caseId}/entries`, {
+      method: 'POST',
+      body: JSON.stringify({ ...entry, timestamp: new Date().toISOString() }),
+    });
+  }, [apiCall]);
+
+  // Close a case with its outcome
+  const closeMissingPersonCase = useCallback(async (
+    caseId: string,
+    outcome: MissingPersonOutcome,
+    outcomeNotes: string,
+    closedBy: string
+  ) => {
+    return await apiCall<{ case: MissingPersonCase }>(`/missing-cases/${caseId}/close`, {
+      method: 'PATCH',
+      body: JSON.stringify({ outcome, outcomeNotes, closedBy, closedAt: new Date().toISOString() }),
+    });
+  }, [apiCall]);
+
   // Get tourist statistics
   const fetchTouristStats = useCallback(async (timeframe: string = '30d') => {
     return await apiCall<{ statistics: TouristStats }>(`/statistics/overview?timeframe=${timeframe}`);
@@ -208,6 +444,20 @@ export const useTouristManagementApi = () => {
     updateTouristProfile,
     flagTourist,
     trackLocation,
+    fetchLocationHistory,
+    fetchDocumentExpiries,
+    sendDocumentReminder,
+    recordContactNotification,
+    revealSensitiveField,
+    fetchRevealAudit,
+    importTourists,
+    exportTourists,
+    fetchDuplicateCandidates,
+    mergeTourists,
     fetchTouristStats,
+    fetchMissingPersonCase,
+    openMissingPersonCase,
+    addMissingPersonCaseEntry,
+    closeMissingPersonCase,
   };
 };
\ No newline at end of file
@@ -0,0 +1,93 @@
+// =============================================================================
+// COMPLAINT DUPLICATE DETECTION
+// File path: lib/complaint-duplicates.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+
+// Repeated SOS presses and re-filed reports land within minutes of each other
+// and a short walk apart
+export const DUPLICATE_WINDOW_MINUTES = 30;
+export const DUPLICATE_RADIUS_METERS = 500;
+
+export interface DuplicateGroup {
+  primary: Alert;
+  duplicates: Alert[];
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance between two points
+export const distanceInMeters = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+const isMergeCandidate = (alert: Alert) => alert.status !== 'resolved' && !alert.mergedInto;
+
+export const areLikelyDuplicates = (a: Alert, b: Alert) => {
+  if (a.id === b.id || a.touristId !== b.touristId || a.type !== b.type) return false;
+
+  const minutesApart = Math.abs(new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) / 60000;
+  if (minutesApart > DUPLICATE_WINDOW_MINUTES) return false;
+
+  // Without coordinates on both sides, fall back to the reported location text
+  if (a.coordinates && b.coordinates) {
+    return distanceInMeters(a.coordinates, b.coordinates) <= DUPLICATE_RADIUS_METERS;
+  }
+  return a.location.trim().toLowerCase() === b.location.trim().toLowerCase();
+};
+
+// Group open complaints that chain together as duplicates. The earliest
+// report in each group is suggested as the primary case.
+export const findDuplicateGroups = (alerts: Alert[]): DuplicateGroup[] => {
+  const candidates = alerts
+    .filter(isMergeCandidate)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const groups: Alert[][] = [];
+  candidates.forEach((alert) => {
+    const group = groups.find((members) => members.some((member) => areLikelyDuplicates(member, alert)));
+    if (group) group.push(alert);
+    else groups.push([alert]);
+  });
+
+  return groups
+    .filter((members) => members.length > 1)
+    .map(([primary, ...duplicates]) => ({ primary, duplicates }));
+};
+
+// Keep each group's members together, positioned where its first member appears
+export const orderByDuplicateGroups = (alerts: Alert[], groups: DuplicateGroup[]) => {
+  const groupById = new Map<string, DuplicateGroup>();
+  groups.forEach((group) => {
+    [group.primary, ...group.duplicates].forEach((alert) => groupById.set(alert.id, group));
+  });
+
+  const visibleIds = new Set(alerts.map((alert) => alert.id));
+  const placed = new Set<string>();
+  const ordered: Alert[] = [];
+
+  alerts.forEach((alert) => {
+    if (placed.has(alert.id)) return;
+    const group = groupById.get(alert.id);
+    const members = group ? [group.primary, ...group.duplicates] : [alert];
+    members
+      .filter((member) => visibleIds.has(member.id) && !placed.has(member.id))
+      .forEach((member) => {
+        placed.add(member.id);
+        ordered.push(alerts.find((a) => a.id === member.id) || member);
+      });
+  });
+
+  return { ordered, groupById };
+};
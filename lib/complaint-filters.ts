@@ -0,0 +1,154 @@
+// =============================================================================
+// COMPLAINT FILTER HELPERS
+// File path: lib/complaint-filters.ts
+// =============================================================================
+
+import type { Alert, ApiFilters } from '@/hooks/useAuthorityApi';
+
+export type EmergencyFilter = 'all' | 'sos' | 'non_sos';
+
+export interface AlertFilterState {
+  search: string;
+  status: string;
+  severity: string;
+  category: string;
+  assignedDepartment: string;
+  emergency: EmergencyFilter;
+  // Calendar days (yyyy-mm-dd), inclusive
+  startDate: string;
+  endDate: string;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  myAssignments: boolean;
+  breachingOnly: boolean;
+}
+
+export const DEFAULT_ALERT_FILTERS: AlertFilterState = {
+  search: '',
+  status: 'all',
+  severity: 'all',
+  category: 'all',
+  assignedDepartment: '',
+  emergency: 'all',
+  startDate: '',
+  endDate: '',
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  myAssignments: false,
+  breachingOnly: false,
+};
+
+export const SORT_OPTIONS = [
+  { value: 'createdAt', label: 'Reported time' },
+  { value: 'updatedAt', label: 'Last updated' },
+  { value: 'urgency', label: 'Severity' },
+  { value: 'status', label: 'Status' },
+  // Ranked by the API across every page, using the factors in lib/complaint-priority
+  { value: 'priority', label: 'Priority score' },
+];
+
+// Short query-string keys so shared links stay readable
+const QUERY_KEYS: Record<keyof AlertFilterState, string> = {
+  search: 'q',
+  status: 'status',
+  severity: 'severity',
+  category: 'category',
+  assignedDepartment: 'dept',
+  emergency: 'sos',
+  startDate: 'from',
+  endDate: 'to',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  myAssignments: 'mine',
+  breachingOnly: 'breaching',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const countActiveFilters = (filters: AlertFilterState) =>
+  (Object.keys(DEFAULT_ALERT_FILTERS) as (keyof AlertFilterState)[]).filter(
+    (key) => key !== 'sortBy' && key !== 'sortOrder' && filters[key] !== DEFAULT_ALERT_FILTERS[key]
+  ).length;
+
+// Only values that differ from the defaults are written to the URL
+export const filtersToQuery = (filters: AlertFilterState) => {
+  const params = new URLSearchParams();
+  (Object.keys(QUERY_KEYS) as (keyof AlertFilterState)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === DEFAULT_ALERT_FILTERS[key]) return;
+    params.set(QUERY_KEYS[key], typeof value === 'boolean' ? '1' : value);
+  });
+  return params;
+};
+
+export const filtersFromQuery = (params: URLSearchParams): AlertFilterState => {
+  const read = (key: keyof AlertFilterState) => params.get(QUERY_KEYS[key]);
+  const emergency = read('emergency');
+  const startDate = read('startDate');
+  const endDate = read('endDate');
+
+  return {
+    search: read('search') ?? DEFAULT_ALERT_FILTERS.search,
+    status: read('status') ?? DEFAULT_ALERT_FILTERS.status,
+    severity: read('severity') ?? DEFAULT_ALERT_FILTERS.severity,
+    category: read('category') ?? DEFAULT_ALERT_FILTERS.category,
+    assignedDepartment: read('assignedDepartment') ?? DEFAULT_ALERT_FILTERS.assignedDepartment,
+    emergency: emergency === 'sos' || emergency === 'non_sos' ? emergency : DEFAULT_ALERT_FILTERS.emergency,
+    startDate: startDate && DATE_PATTERN.test(startDate) ? startDate : DEFAULT_ALERT_FILTERS.startDate,
+    endDate: endDate && DATE_PATTERN.test(endDate) ? endDate : DEFAULT_ALERT_FILTERS.endDate,
+    sortBy: read('sortBy') ?? DEFAULT_ALERT_FILTERS.sortBy,
+    sortOrder: read('sortOrder') === 'asc' ? 'asc' : DEFAULT_ALERT_FILTERS.sortOrder,
+    myAssignments: read('myAssignments') === '1',
+    breachingOnly: read('breachingOnly') === '1',
+  };
+};
+
+export const hasFilterQuery = (params: URLSearchParams) =>
+  Object.values(QUERY_KEYS).some((key) => params.has(key));
+
+// Local calendar days become a full-day ISO range for the API
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+export const toApiFilters = (filters: AlertFilterState, officerName: string): ApiFilters => ({
+  ...(filters.status !== 'all' && { status: filters.status }),
+  ...(filters.severity !== 'all' && { urgency: filters.severity }),
+  ...(filters.category !== 'all' && { category: filters.category }),
+  ...(filters.assignedDepartment && { assignedDepartment: filters.assignedDepartment }),
+  ...(filters.emergency !== 'all' && { isEmergency: filters.emergency === 'sos' }),
+  ...(filters.startDate && { startDate: startOfDay(filters.startDate) }),
+  ...(filters.endDate && { endDate: endOfDay(filters.endDate) }),
+  ...(filters.search && { search: filters.search }),
+  ...(filters.myAssignments && { assignedOfficer: officerName }),
+  ...(filters.breachingOnly && { slaBreaching: true }),
+  sortBy: filters.sortBy,
+  sortOrder: filters.sortOrder,
+});
+
+// Client-side mirror of the API filters, for complaints pushed over the live feed
+export const matchesAlertFilters = (alert: Alert, filters: AlertFilterState, officerName: string) => {
+  if (filters.status !== 'all' && alert.status !== filters.status) return false;
+  if (filters.severity !== 'all' && alert.severity !== filters.severity) return false;
+  if (filters.category !== 'all' && alert.type !== filters.category) return false;
+  if (
+    filters.assignedDepartment &&
+    !alert.assignedDepartment?.toLowerCase().includes(filters.assignedDepartment.toLowerCase())
+  ) {
+    return false;
+  }
+  if (filters.emergency !== 'all' && alert.isEmergencySOS !== (filters.emergency === 'sos')) return false;
+
+  const reportedAt = new Date(alert.timestamp).getTime();
+  if (filters.startDate && reportedAt < new Date(startOfDay(filters.startDate)).getTime()) return false;
+  if (filters.endDate && reportedAt > new Date(endOfDay(filters.endDate)).getTime()) return false;
+
+  if (filters.myAssignments && alert.assignedOfficer !== officerName) return false;
+  // Breaching needs the SLA clock, so only the status is checked here: acknowledged complaints drop out
+  if (filters.breachingOnly && alert.status !== 'active') return false;
+  if (filters.search) {
+    const term = filters.search.toLowerCase();
+    return [alert.touristName, alert.complaintId, alert.location, alert.touristId]
+      .some((field) => field?.toLowerCase().includes(term));
+  }
+  return true;
+};
@@ -0,0 +1,124 @@
+// =============================================================================
+// OFFLINE ACTION OUTBOX
+// File path: lib/complaint-outbox.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+import { ACTION_LABELS, TRANSITIONS } from '@/lib/complaint-state-machine';
+
+// Officer actions that are kept and replayed when the connection drops
+export type QueuedActionType = 'acknowledge' | 'resolve' | 'escalate' | 'message';
+
+export interface QueuedAction {
+  // Auto-incremented by IndexedDB, so it also gives the replay order
+  id: number;
+  complaintId: string;
+  type: QueuedActionType;
+  endpoint: string;
+  method: 'PATCH' | 'POST';
+  body: string;
+  // Status the complaint was in when the officer acted
+  expectedStatus?: Alert['status'];
+  performedBy?: string;
+  queuedAt: string;
+  // "conflict" and "failed" actions wait for the officer instead of replaying
+  state: 'pending' | 'conflict' | 'failed';
+  serverStatus?: Alert['status'];
+  error?: string;
+}
+
+export type NewQueuedAction = Omit<QueuedAction, 'id' | 'queuedAt' | 'state'>;
+
+const DB_NAME = 'authorityOutbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'actions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+export const isOutboxAvailable = () => typeof indexedDB !== 'undefined';
+
+const openOutbox = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operate: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openOutbox();
+  return new Promise<T>((resolve, reject) => {
+    const request = operate(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+// Called whenever the outbox changes, from any hook instance
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const listQueuedActions = async (): Promise<QueuedAction[]> => {
+  if (!isOutboxAvailable()) return [];
+  return runRequest<QueuedAction[]>('readonly', (store) => store.getAll());
+};
+
+export const enqueueAction = async (action: NewQueuedAction) => {
+  // Omitting the key lets the store assign the next id
+  const record: Omit<QueuedAction, 'id'> = { ...action, queuedAt: new Date().toISOString(), state: 'pending' };
+  await runRequest('readwrite', (store) => store.add(record));
+  notifyListeners();
+};
+
+export const updateQueuedAction = async (action: QueuedAction) => {
+  await runRequest('readwrite', (store) => store.put(action));
+  notifyListeners();
+};
+
+export const removeQueuedAction = async (id: number) => {
+  await runRequest('readwrite', (store) => store.delete(id));
+  notifyListeners();
+};
+
+export const QUEUED_ACTION_LABELS: Record<QueuedActionType, string> = {
+  acknowledge: ACTION_LABELS.acknowledge,
+  resolve: ACTION_LABELS.resolve,
+  escalate: ACTION_LABELS.escalate,
+  message: ACTION_LABELS.message,
+};
+
+export const QUEUED_NOTICE = 'Saved offline. It will be sent when the connection returns.';
+
+export const groupQueuedActions = (actions: QueuedAction[]) => {
+  const byComplaint = new Map<string, QueuedAction[]>();
+  actions.forEach((action) => {
+    byComplaint.set(action.complaintId, [...(byComplaint.get(action.complaintId) || []), action]);
+  });
+  return byComplaint;
+};
+
+// Show the status the complaint will have once its pending actions are sent
+export const applyQueuedActions = (alert: Alert, queued: QueuedAction[] = []): Alert =>
+  queued.reduce<Alert>(
+    (current, action) =>
+      action.state === 'pending' && action.type !== 'message'
+        ? { ...current, status: TRANSITIONS[action.type].to }
+        : current,
+    alert
+  );
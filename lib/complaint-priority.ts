@@ -0,0 +1,94 @@
+// =============================================================================
+// COMPLAINT PRIORITY SCORE
+// File path: lib/complaint-priority.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+import type { HighRiskZone } from '@/hooks/useZones';
+
+// Points per factor. The total is not capped; it only has to rank alerts.
+export const PRIORITY_WEIGHTS = {
+  severity: { critical: 40, high: 28, medium: 15, low: 5 } as Record<Alert['severity'], number>,
+  emergencySOS: 25,
+  // Waiting time adds a point every few minutes, up to a ceiling
+  waitingPointEveryMinutes: 5,
+  waitingMaxPoints: 20,
+  highRiskZone: { critical: 15, high: 12, medium: 8, low: 4 } as Record<HighRiskZone['severity'], number>,
+  child: 10,
+  senior: 10,
+  medicalConditions: 8,
+};
+
+const CHILD_MAX_AGE = 12;
+const SENIOR_MIN_AGE = 65;
+
+export interface PriorityFactor {
+  label: string;
+  points: number;
+}
+
+export interface PriorityScore {
+  total: number;
+  factors: PriorityFactor[];
+}
+
+// Ray casting; zone edges are short enough to treat lat/lng as planar
+export const isInsidePolygon = (point: { lat: number; lng: number }, polygon: { lat: number; lng: number }[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// The most severe active zone containing the point
+export const findContainingZone = (point: { lat: number; lng: number }, zones: HighRiskZone[]) =>
+  zones
+    .filter((zone) => zone.isActive && zone.coordinates.length >= 3 && isInsidePolygon(point, zone.coordinates))
+    .sort((a, b) => PRIORITY_WEIGHTS.highRiskZone[b.severity] - PRIORITY_WEIGHTS.highRiskZone[a.severity])[0];
+
+export const computePriorityScore = (
+  alert: Alert,
+  zones: HighRiskZone[],
+  now: Date = new Date()
+): PriorityScore => {
+  const factors: PriorityFactor[] = [
+    { label: `${alert.severity.charAt(0).toUpperCase()}${alert.severity.slice(1)} severity`, points: PRIORITY_WEIGHTS.severity[alert.severity] },
+  ];
+
+  if (alert.isEmergencySOS) {
+    factors.push({ label: 'Emergency SOS', points: PRIORITY_WEIGHTS.emergencySOS });
+  }
+
+  // Only cases nobody has picked up yet keep gaining priority while they wait
+  if (alert.status === 'active') {
+    const waitingMinutes = Math.max(0, (now.getTime() - new Date(alert.timestamp).getTime()) / 60000);
+    const points = Math.min(
+      PRIORITY_WEIGHTS.waitingMaxPoints,
+      Math.floor(waitingMinutes / PRIORITY_WEIGHTS.waitingPointEveryMinutes)
+    );
+    if (points > 0) factors.push({ label: `Waiting ${Math.round(waitingMinutes)} min`, points });
+  }
+
+  const zone = alert.coordinates ? findContainingZone(alert.coordinates, zones) : undefined;
+  if (zone) {
+    factors.push({ label: `Inside ${zone.name} (${zone.severity} risk zone)`, points: PRIORITY_WEIGHTS.highRiskZone[zone.severity] });
+  }
+
+  if (alert.touristAge !== undefined) {
+    if (alert.touristAge <= CHILD_MAX_AGE) {
+      factors.push({ label: `Child (age ${alert.touristAge})`, points: PRIORITY_WEIGHTS.child });
+    } else if (alert.touristAge >= SENIOR_MIN_AGE) {
+      factors.push({ label: `Senior (age ${alert.touristAge})`, points: PRIORITY_WEIGHTS.senior });
+    }
+  }
+  if (alert.touristHasMedicalConditions) {
+    factors.push({ label: 'Medical conditions on file', points: PRIORITY_WEIGHTS.medicalConditions });
+  }
+
+  return { total: factors.reduce((sum, factor) => sum + factor.points, 0), factors };
+};
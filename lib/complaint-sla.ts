@@ -0,0 +1,96 @@
+// =============================================================================
+// COMPLAINT SLA HELPERS
+// File path: lib/complaint-sla.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+
+// Minutes allowed between a complaint being reported and being acknowledged
+export interface SlaPolicy {
+  bySeverity: Record<Alert['severity'], number>;
+  byType: Partial<Record<Alert['type'], number>>;
+}
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  bySeverity: {
+    critical: 5,
+    high: 15,
+    medium: 60,
+    low: 240,
+  },
+  byType: {
+    panic_button: 2,
+    medical_emergency: 5,
+  },
+};
+
+export interface SlaStatus {
+  targetMinutes: number;
+  deadline: Date;
+  remainingMs: number;
+  breached: boolean;
+  // Acknowledged (or later) complaints stop the clock
+  met: boolean | null;
+}
+
+// A type target and a severity target can both apply; the stricter one wins
+export const getSlaTargetMinutes = (alert: Alert, policy: SlaPolicy): number => {
+  const severityTarget = policy.bySeverity[alert.severity];
+  const typeTarget = policy.byType[alert.type];
+  return typeTarget !== undefined ? Math.min(typeTarget, severityTarget) : severityTarget;
+};
+
+export const getSlaStatus = (alert: Alert, policy: SlaPolicy, now: Date = new Date()): SlaStatus => {
+  const targetMinutes = getSlaTargetMinutes(alert, policy);
+  const reportedAt = new Date(alert.sosActivatedAt || alert.timestamp);
+  const deadline = new Date(reportedAt.getTime() + targetMinutes * 60000);
+
+  if (alert.status !== 'active') {
+    const acknowledgedAt = alert.acknowledgedAt ? new Date(alert.acknowledgedAt) : null;
+    return {
+      targetMinutes,
+      deadline,
+      remainingMs: 0,
+      breached: acknowledgedAt ? acknowledgedAt > deadline : false,
+      met: acknowledgedAt ? acknowledgedAt <= deadline : null,
+    };
+  }
+
+  const remainingMs = deadline.getTime() - now.getTime();
+  return { targetMinutes, deadline, remainingMs, breached: remainingMs < 0, met: null };
+};
+
+export const isBreachingSla = (alert: Alert, policy: SlaPolicy, now: Date = new Date()) =>
+  alert.status === 'active' && getSlaStatus(alert, policy, now).breached;
+
+// Average minutes to acknowledge and the share acknowledged within SLA, for
+// complaints that carry an acknowledgement time
+export const summarizeResponseTimes = (alerts: Alert[], policy: SlaPolicy) => {
+  const acknowledged = alerts.filter((alert) => alert.acknowledgedAt);
+  if (acknowledged.length === 0) {
+    return { averageResponseMinutes: null, slaComplianceRate: null, sampleSize: 0 };
+  }
+
+  const totalMinutes = acknowledged.reduce((sum, alert) => {
+    const reportedAt = new Date(alert.sosActivatedAt || alert.timestamp).getTime();
+    return sum + (new Date(alert.acknowledgedAt!).getTime() - reportedAt) / 60000;
+  }, 0);
+  const withinSla = acknowledged.filter((alert) => getSlaStatus(alert, policy).met).length;
+
+  return {
+    averageResponseMinutes: Math.round((totalMinutes / acknowledged.length) * 10) / 10,
+    slaComplianceRate: Math.round((withinSla / acknowledged.length) * 100),
+    sampleSize: acknowledged.length,
+  };
+};
+
+export const formatSlaRemaining = (remainingMs: number) => {
+  const totalSeconds = Math.floor(Math.abs(remainingMs) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+    : `${minutes}:${String(seconds).padStart(2, '0')}`;
+  return remainingMs < 0 ? `-${clock}` : clock;
+};
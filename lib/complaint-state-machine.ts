@@ -0,0 +1,78 @@
+// =============================================================================
+// COMPLAINT STATE MACHINE
+// File path: lib/complaint-state-machine.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+
+export type ComplaintStatus = Alert['status'];
+
+// Actions that move a complaint to another status
+export type ComplaintTransition = 'acknowledge' | 'resolve' | 'escalate' | 'reopen';
+
+// Every officer action the UI offers, including ones that keep the status
+export type ComplaintAction = ComplaintTransition | 'message' | 'assign' | 'reclassify' | 'merge';
+
+export const TRANSITIONS: Record<ComplaintTransition, { from: ComplaintStatus[]; to: ComplaintStatus }> = {
+  acknowledge: { from: ['active'], to: 'acknowledged' },
+  resolve: { from: ['acknowledged'], to: 'resolved' },
+  escalate: { from: ['active', 'acknowledged'], to: 'escalated' },
+  // Closed cases can be brought back when new information turns up
+  reopen: { from: ['resolved', 'escalated'], to: 'active' },
+};
+
+const IN_PLACE_ACTIONS: Record<Exclude<ComplaintAction, ComplaintTransition>, ComplaintStatus[]> = {
+  message: ['active', 'acknowledged'],
+  assign: ['active', 'acknowledged'],
+  reclassify: ['active', 'acknowledged', 'escalated'],
+  // Resolved complaints are never merged, either as the primary or as a duplicate
+  merge: ['active', 'acknowledged', 'escalated'],
+};
+
+export const ACTION_LABELS: Record<ComplaintAction, string> = {
+  acknowledge: 'Acknowledge',
+  resolve: 'Mark Resolved',
+  escalate: 'Escalate to FIR',
+  reopen: 'Reopen',
+  message: 'Send Message',
+  assign: 'Assign',
+  reclassify: 'Reclassify Severity',
+  merge: 'Merge',
+};
+
+const isTransition = (action: ComplaintAction): action is ComplaintTransition => action in TRANSITIONS;
+
+export const canPerformAction = (alert: Pick<Alert, 'status'>, action: ComplaintAction) =>
+  isTransition(action)
+    ? TRANSITIONS[action].from.includes(alert.status)
+    : IN_PLACE_ACTIONS[action].includes(alert.status);
+
+// Returns why the action is not allowed from `status`, or null when it is
+export const getTransitionError = (status: ComplaintStatus, action: ComplaintAction): string | null =>
+  canPerformAction({ status }, action)
+    ? null
+    : `Cannot ${ACTION_LABELS[action].toLowerCase()} a complaint that is ${status}`;
+
+// Attached to transition requests so the backend can keep an audit trail
+export interface TransitionRecord {
+  action: ComplaintTransition;
+  from?: ComplaintStatus;
+  to: ComplaintStatus;
+  performedBy?: string;
+  performedAt: string;
+  reason?: string;
+}
+
+export const buildTransitionRecord = (
+  action: ComplaintTransition,
+  from: ComplaintStatus | undefined,
+  performedBy?: string,
+  reason?: string
+): TransitionRecord => ({
+  action,
+  from,
+  to: TRANSITIONS[action].to,
+  performedBy,
+  performedAt: new Date().toISOString(),
+  ...(reason && { reason }),
+});
@@ -0,0 +1,133 @@
+// =============================================================================
+// COMPLAINT STREAM HELPERS
+// File path: lib/complaint-stream.ts
+// =============================================================================
+
+import type { Alert, ComplaintStreamEvent } from '@/hooks/useAuthorityApi';
+
+// Merge a pushed event into a list of complaints. `matches` decides whether the
+// complaint belongs in the list (e.g. the active filters); complaints that stop
+// matching are dropped and new ones are only inserted when they match.
+export const applyComplaintEvent = (
+  alerts: Alert[],
+  event: ComplaintStreamEvent,
+  matches: (alert: Alert) => boolean = () => true
+): Alert[] => {
+  const index = alerts.findIndex((alert) => alert.id === event.complaint.id);
+  const belongs = matches(event.complaint);
+
+  if (index === -1) {
+    return event.type === 'complaint.created' && belongs ? [event.complaint, ...alerts] : alerts;
+  }
+
+  if (!belongs) {
+    return alerts.filter((_, i) => i !== index);
+  }
+
+  const updated = [...alerts];
+  updated[index] = { ...alerts[index], ...event.complaint };
+  return updated;
+};
+
+// Local mock stream so the live feed can be exercised without the backend
+const MOCK_LOCATIONS = [
+  { location: 'Marina Beach, Chennai', coordinates: { lat: 13.0500, lng: 80.2824 } },
+  { location: 'Fort St. George, Chennai', coordinates: { lat: 13.0797, lng: 80.2873 } },
+  { location: 'Kapaleeshwarar Temple, Mylapore', coordinates: { lat: 13.0339, lng: 80.2696 } },
+  { location: 'T. Nagar Market, Chennai', coordinates: { lat: 13.0418, lng: 80.2341 } },
+  { location: 'Besant Nagar Beach, Chennai', coordinates: { lat: 12.9987, lng: 80.2707 } },
+];
+
+const MOCK_TOURISTS = ['Emma Wilson', 'Hiro Tanaka', 'Lucas Silva', 'Aisha Khan', 'Noah Becker'];
+
+const MOCK_TYPES: Alert['type'][] = [
+  'panic_button',
+  'medical_emergency',
+  'lost_tourist',
+  'suspicious_activity',
+  'theft',
+  'accident',
+];
+
+const MOCK_SEVERITIES: Alert['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+const createMockComplaint = (sequence: number): Alert => {
+  const place = pick(MOCK_LOCATIONS);
+  const type = pick(MOCK_TYPES);
+  const touristName = pick(MOCK_TOURISTS);
+  const timestamp = new Date().toISOString();
+  const isEmergencySOS = type === 'panic_button';
+
+  return {
+    id: `mock-${Date.now()}-${sequence}`,
+    complaintId: `MOCK${String(sequence).padStart(4, '0')}`,
+    type,
+    severity: isEmergencySOS ? 'critical' : pick(MOCK_SEVERITIES),
+    status: 'active',
+    touristId: `mock-tourist-${touristName.toLowerCase().replace(/\s+/g, '-')}`,
+    touristName,
+    location: place.location,
+    coordinates: place.coordinates,
+    timestamp,
+    description: `Mock ${type.replace(/_/g, ' ')} reported near ${place.location}`,
+    title: type.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+    contactInfo: '+91 90000 00000',
+    reportedBy: touristName,
+    isEmergencySOS,
+    ...(isEmergencySOS && { sosActivatedAt: timestamp }),
+  };
+};
+
+// Every subscriber shares one generator so all views see the same mock complaints
+const mockSubscribers = new Set<(event: ComplaintStreamEvent) => void>();
+const mockOpenComplaints: Alert[] = [];
+let mockSequence = 0;
+let mockInterval: ReturnType<typeof setInterval> | null = null;
+
+const emitMockEvent = () => {
+  const timestamp = new Date().toISOString();
+  let event: ComplaintStreamEvent;
+
+  // Mostly new complaints, occasionally progress an existing one
+  if (mockOpenComplaints.length === 0 || Math.random() < 0.6) {
+    mockSequence += 1;
+    const complaint = createMockComplaint(mockSequence);
+    mockOpenComplaints.push(complaint);
+    event = { type: 'complaint.created', complaint, timestamp };
+  } else {
+    const index = Math.floor(Math.random() * mockOpenComplaints.length);
+    const complaint = mockOpenComplaints[index];
+
+    if (complaint.status === 'active') {
+      const updated: Alert = { ...complaint, status: 'acknowledged', assignedOfficer: 'Mock Officer' };
+      mockOpenComplaints[index] = updated;
+      event = { type: 'complaint.updated', complaint: updated, timestamp };
+    } else {
+      mockOpenComplaints.splice(index, 1);
+      event = { type: 'complaint.resolved', complaint: { ...complaint, status: 'resolved' }, timestamp };
+    }
+  }
+
+  mockSubscribers.forEach((subscriber) => subscriber(event));
+};
+
+export const createMockComplaintStream = (
+  onEvent: (event: ComplaintStreamEvent) => void,
+  intervalMs: number = 15000
+) => {
+  mockSubscribers.add(onEvent);
+
+  if (!mockInterval) {
+    mockInterval = setInterval(emitMockEvent, intervalMs);
+  }
+
+  return () => {
+    mockSubscribers.delete(onEvent);
+    if (mockSubscribers.size === 0 && mockInterval) {
+      clearInterval(mockInterval);
+      mockInterval = null;
+    }
+  };
+};
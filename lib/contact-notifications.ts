@@ -0,0 +1,169 @@
+// =============================================================================
+// EMERGENCY CONTACT NOTIFICATIONS
+// File path: lib/contact-notifications.ts
+// =============================================================================
+
+import type { Alert } from '@/hooks/useAuthorityApi';
+import type { TouristProfile } from '@/hooks/useTouristManagementApi';
+import type { DeliveryResult, MessageChannel } from '@/lib/messaging-provider';
+
+export type NotificationReason = 'hospitalized' | 'missing' | 'found' | 'incident';
+export type NotificationLanguage = 'en' | 'hi' | 'ta' | 'fr' | 'es' | 'de';
+
+export const NOTIFICATION_REASONS: { value: NotificationReason; label: string }[] = [
+  { value: 'hospitalized', label: 'Hospitalized / medical emergency' },
+  { value: 'missing', label: 'Reported missing' },
+  { value: 'found', label: 'Found / located' },
+  { value: 'incident', label: 'Involved in an incident' },
+];
+
+export const NOTIFICATION_LANGUAGES: { value: NotificationLanguage; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिन्दी (Hindi)' },
+  { value: 'ta', label: 'தமிழ் (Tamil)' },
+  { value: 'fr', label: 'Français' },
+  { value: 'es', label: 'Español' },
+  { value: 'de', label: 'Deutsch' },
+];
+
+export interface NotificationTemplateValues {
+  contactName: string;
+  touristName: string;
+  location: string;
+  officerName: string;
+}
+
+type Template = (values: NotificationTemplateValues) => string;
+
+const TEMPLATES: Record<NotificationLanguage, Record<NotificationReason, Template> & { footer: Template }> = {
+  en: {
+    hospitalized: (v) => `Dear ${v.contactName}, this is the Tourist Police. ${v.touristName} has been taken to hospital and is receiving care at ${v.location}.`,
+    missing: (v) => `Dear ${v.contactName}, this is the Tourist Police. ${v.touristName} has been reported missing. They were last seen near ${v.location}. Please contact us if you have heard from them.`,
+    found: (v) => `Dear ${v.contactName}, this is the Tourist Police. ${v.touristName} has been located at ${v.location}.`,
+    incident: (v) => `Dear ${v.contactName}, this is the Tourist Police. ${v.touristName} was involved in an incident at ${v.location} and is being assisted by our officers.`,
+    footer: (v) => `For details call 112 and quote officer ${v.officerName}.`,
+  },
+  hi: {
+    hospitalized: (v) => `प्रिय ${v.contactName}, यह पर्यटक पुलिस है। ${v.touristName} को अस्पताल ले जाया गया है और ${v.location} में उनका इलाज चल रहा है।`,
+    missing: (v) => `प्रिय ${v.contactName}, यह पर्यटक पुलिस है। ${v.touristName} के लापता होने की सूचना मिली है। उन्हें आखिरी बार ${v.location} के पास देखा गया था। यदि आपका उनसे संपर्क हुआ है तो कृपया हमें बताएं।`,
+    found: (v) => `प्रिय ${v.contactName}, यह पर्यटक पुलिस है। ${v.touristName} का ${v.location} में पता चल गया है।`,
+    incident: (v) => `प्रिय ${v.contactName}, यह पर्यटक पुलिस है। ${v.touristName} ${v.location} में एक घटना में शामिल थे और हमारे अधिकारी उनकी सहायता कर रहे हैं।`,
+    footer: (v) => `अधिक जानकारी के लिए 112 पर कॉल करें और अधिकारी ${v.officerName} का नाम बताएं।`,
+  },
+  ta: {
+    hospitalized: (v) => `அன்புள்ள ${v.contactName}, இது சுற்றுலா காவல்துறை. ${v.touristName} மருத்துவமனையில் அனுமதிக்கப்பட்டு ${v.location} இல் சிகிச்சை பெற்று வருகிறார்.`,
+    missing: (v) => `அன்புள்ள ${v.contactName}, இது சுற்றுலா காவல்துறை. ${v.touristName} காணவில்லை என புகார் அளிக்கப்பட்டுள்ளது. கடைசியாக ${v.location} அருகே காணப்பட்டார். அவரிடமிருந்து தகவல் வந்தால் எங்களை தொடர்பு கொள்ளவும்.`,
+    found: (v) => `அன்புள்ள ${v.contactName}, இது சுற்றுலா காவல்துறை. ${v.touristName} ${v.location} இல் கண்டுபிடிக்கப்பட்டார்.`,
+    incident: (v) => `அன்புள்ள ${v.contactName}, இது சுற்றுலா காவல்துறை. ${v.touristName} ${v.location} இல் ஒரு சம்பவத்தில் சிக்கியுள்ளார், எங்கள் அதிகாரிகள் உதவி செய்து வருகின்றனர்.`,
+    footer: (v) => `மேலும் விவரங்களுக்கு 112 ஐ அழைத்து அதிகாரி ${v.officerName} என குறிப்பிடவும்.`,
+  },
+  fr: {
+    hospitalized: (v) => `Bonjour ${v.contactName}, ici la Police touristique. ${v.touristName} a été hospitalisé(e) et reçoit des soins à ${v.location}.`,
+    missing: (v) => `Bonjour ${v.contactName}, ici la Police touristique. La disparition de ${v.touristName} nous a été signalée. Cette personne a été vue pour la dernière fois près de ${v.location}. Merci de nous contacter si vous avez des nouvelles.`,
+    found: (v) => `Bonjour ${v.contactName}, ici la Police touristique. ${v.touristName} a été retrouvé(e) à ${v.location}.`,
+    incident: (v) => `Bonjour ${v.contactName}, ici la Police touristique. ${v.touristName} a été impliqué(e) dans un incident à ${v.location} et est pris(e) en charge par nos agents.`,
+    footer: (v) => `Pour plus d'informations, appelez le 112 en citant l'agent ${v.officerName}.`,
+  },
+  es: {
+    hospitalized: (v) => `Estimado/a ${v.contactName}, le habla la Policía Turística. ${v.touristName} ha sido hospitalizado/a y está recibiendo atención en ${v.location}.`,
+    missing: (v) => `Estimado/a ${v.contactName}, le habla la Policía Turística. Se ha denunciado la desaparición de ${v.touristName}. Fue visto/a por última vez cerca de ${v.location}. Contáctenos si tiene noticias.`,
+    found: (v) => `Estimado/a ${v.contactName}, le habla la Policía Turística. ${v.touristName} ha sido localizado/a en ${v.location}.`,
+    incident: (v) => `Estimado/a ${v.contactName}, le habla la Policía Turística. ${v.touristName} se vio involucrado/a en un incidente en ${v.location} y está siendo atendido/a por nuestros agentes.`,
+    footer: (v) => `Para más información llame al 112 e indique el agente ${v.officerName}.`,
+  },
+  de: {
+    hospitalized: (v) => `Sehr geehrte/r ${v.contactName}, hier spricht die Touristenpolizei. ${v.touristName} wurde ins Krankenhaus gebracht und wird in ${v.location} behandelt.`,
+    missing: (v) => `Sehr geehrte/r ${v.contactName}, hier spricht die Touristenpolizei. ${v.touristName} wurde als vermisst gemeldet und zuletzt in der Nähe von ${v.location} gesehen. Bitte melden Sie sich, falls Sie von der Person gehört haben.`,
+    found: (v) => `Sehr geehrte/r ${v.contactName}, hier spricht die Touristenpolizei. ${v.touristName} wurde in ${v.location} gefunden.`,
+    incident: (v) => `Sehr geehrte/r ${v.contactName}, hier spricht die Touristenpolizei. ${v.touristName} war in ${v.location} in einen Vorfall verwickelt und wird von unseren Beamten betreut.`,
+    footer: (v) => `Für weitere Informationen rufen Sie 112 an und nennen Sie Beamte/n ${v.officerName}.`,
+  },
+};
+
+export const renderNotificationMessage = (
+  reason: NotificationReason,
+  language: NotificationLanguage,
+  values: NotificationTemplateValues
+) => `${TEMPLATES[language][reason](values)}\n\n${TEMPLATES[language].footer(values)}`;
+
+// Best guess at the contact's language from the tourist's nationality
+const LANGUAGE_BY_NATIONALITY: Record<string, NotificationLanguage> = {
+  indian: 'hi',
+  india: 'hi',
+  french: 'fr',
+  france: 'fr',
+  belgian: 'fr',
+  spanish: 'es',
+  spain: 'es',
+  mexican: 'es',
+  mexico: 'es',
+  argentine: 'es',
+  argentina: 'es',
+  german: 'de',
+  germany: 'de',
+  austrian: 'de',
+  austria: 'de',
+};
+
+export const suggestNotificationLanguage = (nationality?: string): NotificationLanguage =>
+  (nationality && LANGUAGE_BY_NATIONALITY[nationality.trim().toLowerCase()]) || 'en';
+
+export const reasonForAlert = (alert: Pick<Alert, 'type'>): NotificationReason => {
+  switch (alert.type) {
+    case 'medical_emergency':
+    case 'accident':
+      return 'hospitalized';
+    case 'lost_tourist':
+      return 'missing';
+    default:
+      return 'incident';
+  }
+};
+
+export interface ContactRecipient {
+  kind: 'emergency' | 'local';
+  name: string;
+  relationship?: string;
+  phone?: string;
+  email?: string;
+}
+
+export const getNotifiableContacts = (tourist: TouristProfile): ContactRecipient[] => {
+  const { emergencyContact, localContact } = tourist.profile || {};
+  const contacts: ContactRecipient[] = [];
+  if (emergencyContact?.name) {
+    contacts.push({ kind: 'emergency', ...emergencyContact });
+  }
+  if (localContact?.name) {
+    contacts.push({ kind: 'local', name: localContact.name, relationship: 'Local contact', phone: localContact.phone });
+  }
+  return contacts;
+};
+
+export interface ContactDelivery extends DeliveryResult {
+  recipient: ContactRecipient;
+  channel: MessageChannel;
+  sentAt: string;
+}
+
+export interface ContactNotificationRecord {
+  reason: NotificationReason;
+  language: NotificationLanguage;
+  message: string;
+  provider: string;
+  sentBy: string;
+  deliveries: ContactDelivery[];
+}
+
+// One-line log entry for a missing-person case timeline
+export const summarizeContactNotification = (record: ContactNotificationRecord) => {
+  const reason = NOTIFICATION_REASONS.find((option) => option.value === record.reason)?.label ?? record.reason;
+  const deliveries = record.deliveries
+    .map((delivery) =>
+      `${delivery.recipient.name} (${delivery.recipient.relationship || delivery.recipient.kind}) by ${delivery.channel.toUpperCase()}: ${
+        delivery.status === 'sent' ? 'sent' : `failed${delivery.error ? ` – ${delivery.error}` : ''}`
+      }`
+    )
+    .join('; ');
+  return `Contacts notified by ${record.sentBy} (${reason}, ${record.language.toUpperCase()}). ${deliveries}`;
+};
@@ -0,0 +1,97 @@
+// =============================================================================
+// PASSPORT AND VISA EXPIRY WATCHLIST
+// File path: lib/document-expiry.ts
+// =============================================================================
+
+import { differenceInCalendarDays } from 'date-fns';
+import type { TouristProfile } from '@/hooks/useTouristManagementApi';
+
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+export const EXPIRY_WINDOW_OPTIONS = [7, 14, 30, 60, 90];
+
+// Standard reason so overstay flags can be told apart from manual ones
+export const OVERSTAY_FLAG_REASON = 'Overstay: visa expired while tourist is still in the country';
+
+export type TravelDocument = 'passport' | 'visa';
+
+export interface DocumentExpiry {
+  tourist: TouristProfile;
+  document: TravelDocument;
+  documentNumber?: string;
+  expiresAt: string;
+  daysRemaining: number;
+  lapsed: boolean;
+  overstay: boolean;
+}
+
+export interface ExpiryWatchlistSummary {
+  expiringSoon: number;
+  lapsed: number;
+  overstays: number;
+  overstaysUnflagged: number;
+}
+
+// Tourists who have left or are otherwise accounted for are not watched
+const WATCHED_STATUSES: TouristProfile['status'][] = ['active', 'flagged'];
+
+export const isOverstayFlagged = (tourist: TouristProfile) =>
+  tourist.status === 'flagged' && tourist.profile?.flagReason === OVERSTAY_FLAG_REASON;
+
+const toExpiry = (
+  tourist: TouristProfile,
+  document: TravelDocument,
+  expiresAt: string | undefined,
+  documentNumber: string | undefined,
+  windowDays: number,
+  now: Date
+): DocumentExpiry | null => {
+  if (!expiresAt) return null;
+  const expiry = new Date(expiresAt);
+  if (isNaN(expiry.getTime())) return null;
+
+  const daysRemaining = differenceInCalendarDays(expiry, now);
+  const lapsed = daysRemaining < 0;
+  if (!lapsed && daysRemaining > windowDays) return null;
+
+  return {
+    tourist,
+    document,
+    documentNumber,
+    expiresAt,
+    daysRemaining,
+    lapsed,
+    overstay: document === 'visa' && lapsed,
+  };
+};
+
+// Soonest (or longest lapsed) first
+export const buildExpiryWatchlist = (
+  tourists: TouristProfile[],
+  windowDays: number = DEFAULT_EXPIRY_WINDOW_DAYS,
+  now: Date = new Date()
+): DocumentExpiry[] =>
+  tourists
+    .filter((tourist) => WATCHED_STATUSES.includes(tourist.status))
+    .flatMap((tourist) => [
+      toExpiry(tourist, 'visa', tourist.profile?.visaExpiry, tourist.profile?.visaNumber, windowDays, now),
+      toExpiry(tourist, 'passport', tourist.profile?.passportExpiry, tourist.profile?.passportNumber, windowDays, now),
+    ])
+    .filter((entry): entry is DocumentExpiry => entry !== null)
+    .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+export const summarizeExpiryWatchlist = (entries: DocumentExpiry[]): ExpiryWatchlistSummary => {
+  const overstays = entries.filter((entry) => entry.overstay);
+  return {
+    expiringSoon: entries.filter((entry) => !entry.lapsed).length,
+    lapsed: entries.filter((entry) => entry.lapsed).length,
+    overstays: overstays.length,
+    overstaysUnflagged: overstays.filter((entry) => entry.tourist.status === 'active').length,
+  };
+};
+
+export const formatDaysRemaining = (daysRemaining: number) => {
+  if (daysRemaining === 0) return 'Expires today';
+  if (daysRemaining > 0) return `${daysRemaining} day${daysRemaining === 1 ? '' : 's'} left`;
+  const overdue = -daysRemaining;
+  return `Expired ${overdue} day${overdue === 1 ? '' : 's'} ago`;
+};
@@ -0,0 +1,130 @@
+// =============================================================================
+// DUPLICATE IDENTITY DETECTION
+// File path: lib/duplicate-identity.ts
+// =============================================================================
+
+import type { TouristProfile } from '@/hooks/useTouristManagementApi';
+import {
+  PROFILE_FIELDS,
+  toProfileFormValues,
+  toProfileUpdate,
+  touristProfileSchema,
+  type TouristProfileField,
+} from '@/lib/tourist-profile-form';
+import { SENSITIVE_FIELD_LABELS, isMaskedValue, type SensitiveField } from '@/lib/sensitive-fields';
+
+export type DuplicateMatchReason = 'passport' | 'aadhaar' | 'phone' | 'name_dob_nationality';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  passport: 'Same passport number',
+  aadhaar: 'Same Aadhaar number',
+  phone: 'Same phone number',
+  name_dob_nationality: 'Similar name, same date of birth and nationality',
+};
+
+// How often the server's duplicate list is fetched again while the tourist view is open
+export const DUPLICATE_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+
+// A pair found by the server's duplicate scan. Document and phone matches are exact;
+// the name match needs an officer's judgement.
+export interface DuplicateCandidate {
+  key: string;
+  tourists: [TouristProfile, TouristProfile];
+  reasons: DuplicateMatchReason[];
+  exact: boolean;
+  // 0-1 similarity of the normalized full names
+  nameSimilarity: number;
+}
+
+export const duplicatePairKey = (a: string, b: string) => [a, b].sort().join(':');
+
+export type MergeField = 'phone' | TouristProfileField;
+export type MergeSource = 'primary' | 'duplicate';
+
+export const MERGE_FIELDS: { name: MergeField; label: string }[] = [
+  { name: 'phone', label: 'Phone' },
+  ...PROFILE_FIELDS.map(({ name, label }) => ({ name, label })),
+];
+
+export const getMergeValues = (tourist: TouristProfile): Record<MergeField, string> => ({
+  ...toProfileFormValues(tourist),
+  phone: tourist.phone || '',
+});
+
+// Contacts are kept or replaced as a whole so one contact's name is never paired with another's phone
+const CONTACT_GROUPS: MergeField[][] = [
+  ['emergencyName', 'emergencyRelationship', 'emergencyPhone', 'emergencyEmail'],
+  ['localName', 'localPhone', 'localAddress'],
+];
+
+// The fields chosen together with `field`, including itself
+export const getMergeGroup = (field: MergeField) => CONTACT_GROUPS.find((group) => group.includes(field)) || [field];
+
+// Keep the primary's value unless it is blank and the duplicate has one
+export const defaultMergeChoices = (primary: TouristProfile, duplicate: TouristProfile) => {
+  const primaryValues = getMergeValues(primary);
+  const duplicateValues = getMergeValues(duplicate);
+  return MERGE_FIELDS.reduce((choices, { name }) => {
+    const group = getMergeGroup(name);
+    const primaryBlank = group.every((field) => !primaryValues[field]);
+    const duplicateBlank = group.every((field) => !duplicateValues[field]);
+    return { ...choices, [name]: primaryBlank && !duplicateBlank ? 'duplicate' : 'primary' };
+  }, {} as Record<MergeField, MergeSource>);
+};
+
+const isSensitiveField = (field: MergeField): field is SensitiveField => field in SENSITIVE_FIELD_LABELS;
+
+// Both masked values may hide different stored values, so they are never reported as the same
+export const mergeValuesDiffer = (field: MergeField, primaryValue: string, duplicateValue: string) =>
+  primaryValue !== duplicateValue || (isSensitiveField(field) && isMaskedValue(primaryValue));
+
+export interface MergedRecord {
+  phone?: string;
+  profile: NonNullable<TouristProfile['profile']>;
+  keepFromDuplicate: SensitiveField[];
+}
+
+// Profile and phone for the kept record, checked against the same rules as the profile edit form;
+// photo and last location stay with the primary. Masked values are only known to the server,
+// so those chosen from the duplicate are named instead.
+export const buildMergedRecord = (
+  primary: TouristProfile,
+  duplicate: TouristProfile,
+  choices: Record<MergeField, MergeSource>
+): { record?: MergedRecord; errors: string[] } => {
+  const primaryValues = getMergeValues(primary);
+  const duplicateValues = getMergeValues(duplicate);
+  // A contact group follows the choice made for its first field
+  const sourceOf = (field: MergeField) => choices[getMergeGroup(field)[0]];
+  const merged = MERGE_FIELDS.reduce(
+    (values, { name }) => ({
+      ...values,
+      [name]: sourceOf(name) === 'duplicate' ? duplicateValues[name] : primaryValues[name],
+    }),
+    {} as Record<MergeField, string>
+  );
+  const { phone, ...profileValues } = merged;
+
+  const parsed = touristProfileSchema.safeParse(profileValues);
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) => {
+        const label = MERGE_FIELDS.find(({ name }) => name === issue.path[0])?.label || String(issue.path[0]);
+        return `${label}: ${issue.message}`;
+      }),
+    };
+  }
+
+  const keepFromDuplicate = MERGE_FIELDS.map(({ name }) => name).filter(
+    (name): name is SensitiveField => isSensitiveField(name) && sourceOf(name) === 'duplicate' && isMaskedValue(duplicateValues[name])
+  );
+
+  return {
+    errors: [],
+    record: {
+      phone: phone || undefined,
+      profile: toProfileUpdate(parsed.data, primary.profile),
+      keepFromDuplicate,
+    },
+  };
+};
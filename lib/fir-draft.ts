@@ -0,0 +1,118 @@
+// =============================================================================
+// FIR DRAFT HELPERS
+// File path: lib/fir-draft.ts
+// =============================================================================
+
+import type { FirDetails } from '@/hooks/useAuthorityApi';
+import { escapeHtml, printHtml } from '@/lib/print';
+
+// Bharatiya Nyaya Sanhita sections most often cited in tourist complaints
+export const LEGAL_SECTIONS = [
+  { code: 'BNS 303', title: 'Theft' },
+  { code: 'BNS 304', title: 'Snatching' },
+  { code: 'BNS 309', title: 'Robbery' },
+  { code: 'BNS 316', title: 'Criminal breach of trust' },
+  { code: 'BNS 318', title: 'Cheating' },
+  { code: 'BNS 115', title: 'Voluntarily causing hurt' },
+  { code: 'BNS 117', title: 'Voluntarily causing grievous hurt' },
+  { code: 'BNS 74', title: 'Assault or criminal force on woman with intent to outrage her modesty' },
+  { code: 'BNS 79', title: 'Word, gesture or act intended to insult the modesty of a woman' },
+  { code: 'BNS 137', title: 'Kidnapping' },
+  { code: 'BNS 351', title: 'Criminal intimidation' },
+  { code: 'BNS 324', title: 'Mischief' },
+  { code: 'BNS 329', title: 'Criminal trespass' },
+  { code: 'BNS 281', title: 'Rash driving or riding on a public way' },
+  { code: 'BNS 106', title: 'Causing death by negligence' },
+] as const;
+
+export interface FirDraft extends FirDetails {
+  firNumber: string;
+  complaintId: string;
+  incidentType: string;
+  incidentLocation: string;
+  incidentTime: string;
+  facts: string;
+  officerName: string;
+}
+
+const row = (label: string, value?: string) =>
+  `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || '—')}</td></tr>`;
+
+export const buildFirDraftHtml = (draft: FirDraft) => {
+  const sections = draft.legalSections
+    .map((code) => {
+      const section = LEGAL_SECTIONS.find((s) => s.code === code);
+      return `<li>${escapeHtml(section ? `${section.code} – ${section.title}` : code)}</li>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>FIR Draft ${escapeHtml(draft.firNumber)}</title>
+  <style>
+    body { font-family: Georgia, serif; margin: 32px; color: #111; }
+    h1 { text-align: center; font-size: 20px; margin-bottom: 4px; }
+    .subtitle { text-align: center; font-size: 12px; margin-bottom: 24px; }
+    .draft { text-align: center; color: #b91c1c; font-weight: bold; letter-spacing: 2px; }
+    h2 { font-size: 14px; border-bottom: 1px solid #111; padding-bottom: 4px; margin-top: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th { text-align: left; width: 35%; padding: 4px 8px 4px 0; vertical-align: top; }
+    td { padding: 4px 0; }
+    .facts { white-space: pre-wrap; font-size: 13px; line-height: 1.5; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 64px; font-size: 13px; }
+    .signatures div { border-top: 1px solid #111; padding-top: 4px; width: 40%; text-align: center; }
+  </style>
+</head>
+<body>
+  <p class="draft">DRAFT – NOT A REGISTERED FIR</p>
+  <h1>First Information Report</h1>
+  <p class="subtitle">Under Section 173 of the Bharatiya Nagarik Suraksha Sanhita, 2023</p>
+
+  <h2>1. Registration</h2>
+  <table>
+    ${row('FIR Number', draft.firNumber)}
+    ${row('Police Station', draft.policeStation)}
+    ${row('Reference Complaint', draft.complaintId)}
+    ${row('Prepared by', draft.officerName)}
+    ${row('Prepared on', new Date().toLocaleString())}
+  </table>
+
+  <h2>2. Acts and Sections</h2>
+  <ul>${sections}</ul>
+
+  <h2>3. Occurrence</h2>
+  <table>
+    ${row('Nature of incident', draft.incidentType)}
+    ${row('Place of occurrence', draft.incidentLocation)}
+    ${row('Date and time', new Date(draft.incidentTime).toLocaleString())}
+  </table>
+
+  <h2>4. Complainant / Informant</h2>
+  <table>
+    ${row('Name', draft.complainant.name)}
+    ${row('Nationality', draft.complainant.nationality)}
+    ${row('Passport Number', draft.complainant.passportNumber)}
+    ${row('Phone', draft.complainant.phone)}
+    ${row('Address in India', draft.complainant.address)}
+  </table>
+
+  <h2>5. Accused</h2>
+  <table>
+    ${row('Name', draft.accused.name)}
+    ${row('Description', draft.accused.description)}
+  </table>
+
+  <h2>6. Facts of the Case</h2>
+  <p class="facts">${escapeHtml(draft.facts)}</p>
+
+  <div class="signatures">
+    <div>Signature of Complainant</div>
+    <div>Signature of Officer in Charge</div>
+  </div>
+</body>
+</html>`;
+};
+
+export const printFirDraft = (draft: FirDraft) => printHtml(buildFirDraftHtml(draft));
@@ -0,0 +1,43 @@
+// =============================================================================
+// MAPBOX GEOCODING
+// File path: lib/geocoding.ts
+// =============================================================================
+
+const GEOCODING_URL = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
+
+export interface GeocodeResult {
+  id: string;
+  address: string;
+  coordinates: { lat: number; lng: number };
+}
+
+const geocodingRequest = async (path: string, params: Record<string, string>): Promise<GeocodeResult[]> => {
+  const query = new URLSearchParams({
+    access_token: process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || '',
+    ...params,
+  });
+  const response = await fetch(`${GEOCODING_URL}/${path}.json?${query.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Geocoding failed: ${response.status}`);
+  }
+  const data = await response.json();
+  return (data.features || []).map((feature: any): GeocodeResult => ({
+    id: feature.id,
+    address: feature.place_name,
+    coordinates: { lat: feature.center[1], lng: feature.center[0] },
+  }));
+};
+
+// Address search, biased towards the current map view when a proximity point is given
+export const searchAddress = async (query: string, proximity?: { lat: number; lng: number }) => {
+  if (!query.trim()) return [];
+  return geocodingRequest(encodeURIComponent(query.trim()), {
+    limit: '5',
+    ...(proximity && { proximity: `${proximity.lng},${proximity.lat}` }),
+  });
+};
+
+export const reverseGeocode = async (coordinates: { lat: number; lng: number }): Promise<string | null> => {
+  const [result] = await geocodingRequest(`${coordinates.lng},${coordinates.lat}`, { limit: '1' });
+  return result?.address ?? null;
+};
@@ -0,0 +1,90 @@
+// =============================================================================
+// OUTBOUND MESSAGING PROVIDERS
+// File path: lib/messaging-provider.ts
+// =============================================================================
+
+export type MessageChannel = 'sms' | 'email';
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  to: { name: string; phone?: string; email?: string };
+  subject?: string;
+  body: string;
+  // Links the delivery back to the complaint or tourist it was sent for
+  reference: string;
+}
+
+export interface DeliveryResult {
+  status: 'sent' | 'failed';
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface MessagingProvider {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<DeliveryResult>;
+}
+
+// Development provider: writes the message to the browser console instead of sending it
+export const consoleMessagingProvider: MessagingProvider = {
+  name: 'console',
+  send: async (message) => {
+    console.info(
+      `[messaging:console] ${message.channel.toUpperCase()} to ${message.to.name} <${
+        message.channel === 'sms' ? message.to.phone : message.to.email
+      }> (${message.reference})\n${message.subject ? `${message.subject}\n\n` : ''}${message.body}`
+    );
+    return { status: 'sent', providerMessageId: `console-${Date.now()}` };
+  },
+};
+
+// Same token the API hooks send, so the backend knows which officer is messaging
+const getAuthToken = () => {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem('authToken') || sessionStorage.getItem('authToken');
+  }
+  return null;
+};
+
+// Production provider: the backend relays to the configured SMS/email gateway
+export const apiMessagingProvider: MessagingProvider = {
+  name: 'api',
+  send: async (message) => {
+    try {
+      const token = getAuthToken();
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/notifications/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify(message),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return { status: 'failed', error: data.message || `HTTP error! status: ${response.status}` };
+      }
+      return { status: 'sent', providerMessageId: data.messageId };
+    } catch (err) {
+      return { status: 'failed', error: err instanceof Error ? err.message : 'Network error' };
+    }
+  },
+};
+
+const providers = new Map<string, MessagingProvider>([
+  [consoleMessagingProvider.name, consoleMessagingProvider],
+  [apiMessagingProvider.name, apiMessagingProvider],
+]);
+
+// Lets deployments plug in another gateway (e.g. a WhatsApp relay) by name
+export const registerMessagingProvider = (provider: MessagingProvider) => {
+  providers.set(provider.name, provider);
+};
+
+// Picked with NEXT_PUBLIC_MESSAGING_PROVIDER; development builds default to the console
+export const getMessagingProvider = (): MessagingProvider => {
+  const configured = process.env.NEXT_PUBLIC_MESSAGING_PROVIDER;
+  if (configured && providers.has(configured)) return providers.get(configured)!;
+  if (configured) console.error('[messaging] Unknown provider, falling back to default:', configured);
+  return process.env.NODE_ENV === 'production' ? apiMessagingProvider : consoleMessagingProvider;
+};
@@ -0,0 +1,126 @@
+// =============================================================================
+// MISSING-PERSON CASE HELPERS
+// File path: lib/missing-person.ts
+// =============================================================================
+
+import type {
+  MissingPersonCase,
+  MissingPersonCaseEntry,
+  MissingPersonOutcome,
+  TouristProfile,
+} from '@/hooks/useTouristManagementApi';
+import { escapeHtml, printHtml } from '@/lib/print';
+
+// Each outcome also sets the tourist's status once the case is closed
+export const MISSING_CASE_OUTCOMES: {
+  value: MissingPersonOutcome;
+  label: string;
+  touristStatus: TouristProfile['status'];
+}[] = [
+  { value: 'found_safe', label: 'Found safe', touristStatus: 'active' },
+  { value: 'found_injured', label: 'Found injured', touristStatus: 'active' },
+  { value: 'departed', label: 'Left the country', touristStatus: 'departed' },
+  { value: 'found_deceased', label: 'Found deceased', touristStatus: 'inactive' },
+  { value: 'other', label: 'Other', touristStatus: 'active' },
+];
+
+export const CASE_ENTRY_LABELS: Record<MissingPersonCaseEntry['type'], string> = {
+  search_action: 'Search action',
+  sighting: 'Sighting',
+  note: 'Note',
+};
+
+export const getTouristDisplayName = (tourist: TouristProfile) =>
+  [tourist.profile?.firstName, tourist.profile?.lastName].filter(Boolean).join(' ') || tourist.username;
+
+const getAge = (dateOfBirth?: string) => {
+  if (!dateOfBirth) return undefined;
+  const birth = new Date(dateOfBirth);
+  if (isNaN(birth.getTime())) return undefined;
+  return Math.floor((Date.now() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+};
+
+const row = (label: string, value?: string) =>
+  `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || '—')}</td></tr>`;
+
+export const buildLookoutNoticeHtml = (tourist: TouristProfile, missingCase: MissingPersonCase) => {
+  const name = getTouristDisplayName(tourist);
+  const age = getAge(tourist.profile?.dateOfBirth);
+  const emergencyContact = tourist.profile?.emergencyContact;
+  const localContact = tourist.profile?.localContact;
+  const sightings = missingCase.entries.filter((entry) => entry.type === 'sighting');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Lookout Notice ${escapeHtml(missingCase.caseNumber)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 32px; color: #111; }
+    .banner { background: #b91c1c; color: #fff; text-align: center; padding: 12px; font-size: 28px; font-weight: bold; letter-spacing: 4px; }
+    .case { text-align: center; font-size: 12px; margin: 8px 0 24px; }
+    .top { display: flex; gap: 24px; align-items: flex-start; }
+    .photo { width: 220px; height: 260px; object-fit: cover; border: 2px solid #111; }
+    .no-photo { width: 220px; height: 260px; border: 2px dashed #999; display: flex; align-items: center; justify-content: center; color: #999; }
+    h1 { font-size: 26px; margin: 0 0 12px; }
+    h2 { font-size: 15px; border-bottom: 1px solid #111; padding-bottom: 4px; margin-top: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th { text-align: left; width: 35%; padding: 4px 8px 4px 0; vertical-align: top; }
+    td { padding: 4px 0; }
+    p { font-size: 14px; line-height: 1.5; white-space: pre-wrap; }
+    .footer { margin-top: 32px; text-align: center; font-weight: bold; font-size: 16px; }
+  </style>
+</head>
+<body>
+  <div class="banner">MISSING PERSON</div>
+  <p class="case">Case ${escapeHtml(missingCase.caseNumber)} · Opened ${escapeHtml(new Date(missingCase.openedAt).toLocaleString())}</p>
+
+  <div class="top">
+    ${tourist.profile?.profilePicture
+      ? `<img class="photo" src="${escapeHtml(tourist.profile.profilePicture)}" alt="${escapeHtml(name)}" />`
+      : '<div class="no-photo">No photo on file</div>'}
+    <div>
+      <h1>${escapeHtml(name)}</h1>
+      <table>
+        ${row('Age', age !== undefined ? String(age) : undefined)}
+        ${row('Gender', tourist.profile?.gender)}
+        ${row('Nationality', tourist.profile?.nationality)}
+      </table>
+    </div>
+  </div>
+
+  <h2>Description</h2>
+  <p>${escapeHtml(missingCase.physicalDescription)}</p>
+  ${missingCase.clothing ? `<p><strong>Last seen wearing:</strong> ${escapeHtml(missingCase.clothing)}</p>` : ''}
+
+  <h2>Last Seen</h2>
+  <table>
+    ${row('Location', missingCase.lastSeenLocation)}
+    ${row('Date and time', new Date(missingCase.lastSeenAt).toLocaleString())}
+    ${row('Circumstances', missingCase.circumstances)}
+  </table>
+
+  ${sightings.length > 0
+    ? `<h2>Reported Sightings</h2>
+  <table>
+    ${sightings
+      .map((entry) => row(new Date(entry.timestamp).toLocaleString(), [entry.location, entry.description].filter(Boolean).join(' – ')))
+      .join('')}
+  </table>`
+    : ''}
+
+  <h2>Contacts</h2>
+  <table>
+    ${emergencyContact
+      ? row(`Emergency contact (${emergencyContact.relationship})`, `${emergencyContact.name}, ${emergencyContact.phone}`)
+      : row('Emergency contact')}
+    ${localContact ? row('Local contact', `${localContact.name}, ${localContact.phone}`) : ''}
+  </table>
+
+  <p class="footer">If you have seen this person, call 112 or contact the nearest police station.</p>
+</body>
+</html>`;
+};
+
+export const printLookoutNotice = (tourist: TouristProfile, missingCase: MissingPersonCase) =>
+  printHtml(buildLookoutNoticeHtml(tourist, missingCase));
@@ -0,0 +1,82 @@
+// =============================================================================
+// TOURIST MOVEMENT TRAIL
+// File path: lib/movement-trail.ts
+// =============================================================================
+
+import type { LocationHistoryPoint } from '@/hooks/useTouristManagementApi';
+import type { HighRiskZone } from '@/hooks/useZones';
+import { isInsidePolygon } from '@/lib/complaint-priority';
+
+// Two fixes further apart than this are drawn as a gap in the trail
+export const MOVEMENT_GAP_MINUTES = 60;
+
+type Point = { lat: number; lng: number };
+
+export interface TrailSegment {
+  from: LocationHistoryPoint;
+  to: LocationHistoryPoint;
+  minutes: number;
+  gap: boolean;
+}
+
+export interface MovementTrail {
+  points: LocationHistoryPoint[];
+  segments: TrailSegment[];
+  gaps: TrailSegment[];
+  crossedZones: HighRiskZone[];
+}
+
+const hasCoordinates = (point: LocationHistoryPoint) =>
+  Number.isFinite(point.coordinates?.lat) && Number.isFinite(point.coordinates?.lng);
+
+const orientation = (a: Point, b: Point, c: Point) =>
+  Math.sign((b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng));
+
+// Orientation test; collinear overlaps are rare enough at GPS precision to ignore
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point) =>
+  orientation(p1, p2, q1) !== orientation(p1, p2, q2) && orientation(q1, q2, p1) !== orientation(q1, q2, p2);
+
+const segmentCrossesZone = (from: Point, to: Point, zone: HighRiskZone) =>
+  zone.coordinates.some((vertex, index) =>
+    segmentsIntersect(from, to, vertex, zone.coordinates[(index + 1) % zone.coordinates.length])
+  );
+
+// Active zones the trail entered or passed through
+export const findCrossedZones = (points: LocationHistoryPoint[], zones: HighRiskZone[]) =>
+  zones.filter((zone) => {
+    if (!zone.isActive || zone.coordinates.length < 3) return false;
+    return points.some((point, index) =>
+      isInsidePolygon(point.coordinates, zone.coordinates) ||
+      (index > 0 && segmentCrossesZone(points[index - 1].coordinates, point.coordinates, zone))
+    );
+  });
+
+export const buildMovementTrail = (
+  locations: LocationHistoryPoint[],
+  zones: HighRiskZone[],
+  gapMinutes: number = MOVEMENT_GAP_MINUTES
+): MovementTrail => {
+  const points = locations
+    .filter(hasCoordinates)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const segments = points.slice(1).map((to, index) => {
+    const from = points[index];
+    const minutes = (new Date(to.timestamp).getTime() - new Date(from.timestamp).getTime()) / 60000;
+    return { from, to, minutes, gap: minutes > gapMinutes };
+  });
+
+  return {
+    points,
+    segments,
+    gaps: segments.filter((segment) => segment.gap),
+    crossedZones: findCrossedZones(points, zones),
+  };
+};
+
+export const formatGapDuration = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${Math.round(minutes % 60)}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
@@ -0,0 +1,25 @@
+// =============================================================================
+// PRINTABLE DOCUMENT HELPERS
+// File path: lib/print.ts
+// =============================================================================
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Open the document in a new window and bring up the print dialog.
+// Returns false when the browser blocks the popup.
+export const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank', 'width=800,height=1000');
+  if (!printWindow) return false;
+
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,46 @@
+// =============================================================================
+// SENSITIVE TOURIST FIELDS
+// File path: lib/sensitive-fields.ts
+// =============================================================================
+
+import type { OfficerRole } from '@/hooks/useCurrentOfficer';
+
+export type SensitiveField =
+  | 'passportNumber'
+  | 'visaNumber'
+  | 'aadhaarNumber'
+  | 'medicalConditions'
+  | 'allergies'
+  | 'medications'
+  | 'insuranceNumber';
+
+export const SENSITIVE_FIELD_LABELS: Record<SensitiveField, string> = {
+  passportNumber: 'Passport Number',
+  visaNumber: 'Visa Number',
+  aadhaarNumber: 'Aadhaar Number',
+  medicalConditions: 'Medical Conditions',
+  allergies: 'Allergies',
+  medications: 'Current Medications',
+  insuranceNumber: 'Insurance Number',
+};
+
+export const SENSITIVE_FIELDS = Object.keys(SENSITIVE_FIELD_LABELS) as SensitiveField[];
+
+const REVEAL_ROLES: OfficerRole[] = ['investigator', 'supervisor', 'admin'];
+const AUDIT_VIEW_ROLES: OfficerRole[] = ['supervisor', 'admin'];
+
+// Revealed values are masked again after this long
+export const REVEAL_DURATION_MS = 2 * 60 * 1000;
+export const MIN_REVEAL_REASON_LENGTH = 10;
+
+// These only decide which controls to show; the server checks the officer's role itself
+export const canRevealSensitive = (role: OfficerRole) => REVEAL_ROLES.includes(role);
+export const canViewRevealAudit = (role: OfficerRole) => AUDIT_VIEW_ROLES.includes(role);
+
+// The API masks these fields with this character, keeping the last digits of document numbers so
+// officers can match them against a physical document. Plain values only come back from a reveal.
+const MASK_CHARACTER = '•';
+
+export const isMaskedValue = (value?: string) => !!value && value.includes(MASK_CHARACTER);
+
+export const revealKey = (touristId: string, field: SensitiveField) => `${touristId}:${field}`;
@@ -0,0 +1,186 @@
+// =============================================================================
+// SHIFT HANDOVER HELPERS
+// File path: lib/shift-handover.ts
+// =============================================================================
+
+import type {
+  Alert,
+  HandoverComplaint,
+  HandoverTourist,
+  HandoverZoneChange,
+  ShiftHandover,
+} from '@/hooks/useAuthorityApi';
+import type { TouristProfile } from '@/hooks/useTouristManagementApi';
+import type { ZoneLog } from '@/hooks/useZones';
+import { escapeHtml, printHtml } from '@/lib/print';
+
+// Used as the handover period when no earlier handover exists
+export const DEFAULT_SHIFT_HOURS = 8;
+
+// A submitted handover, or a draft that has not been saved yet
+export type HandoverDocument = Omit<ShiftHandover, 'id' | 'preparedAt'>;
+
+const SEVERITY_RANK: Record<Alert['severity'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const toHandoverComplaint = (alert: Alert): HandoverComplaint => ({
+  id: alert.id,
+  complaintId: alert.complaintId,
+  title: alert.title || alert.type.replace(/_/g, ' '),
+  type: alert.type,
+  severity: alert.severity,
+  status: alert.status,
+  touristName: alert.touristName,
+  location: alert.location,
+  assignedOfficer: alert.assignedOfficer,
+  reportedAt: alert.timestamp,
+});
+
+const toHandoverTourist = (tourist: TouristProfile): HandoverTourist => ({
+  id: tourist._id,
+  name: [tourist.profile?.firstName, tourist.profile?.lastName].filter(Boolean).join(' ') || tourist.username,
+  status: tourist.status === 'missing' ? 'missing' : 'flagged',
+  nationality: tourist.profile?.nationality,
+  phone: tourist.phone,
+  lastKnownLocation: tourist.profile?.lastKnownLocation?.address,
+  lastSeenAt: tourist.profile?.lastKnownLocation?.timestamp,
+});
+
+// Start of the period a new handover covers: the previous handover, or one shift back
+export const getHandoverPeriodStart = (previous: ShiftHandover | undefined, now: Date = new Date()) =>
+  previous?.preparedAt ?? new Date(now.getTime() - DEFAULT_SHIFT_HOURS * 60 * 60 * 1000).toISOString();
+
+interface HandoverSources {
+  complaints: Alert[];
+  zoneLogs: ZoneLog[];
+  tourists: TouristProfile[];
+  periodStart: string;
+  preparedBy: string;
+  notes: string;
+}
+
+export const compileHandover = ({
+  complaints,
+  zoneLogs,
+  tourists,
+  periodStart,
+  preparedBy,
+  notes,
+}: HandoverSources): HandoverDocument => {
+  const since = new Date(periodStart).getTime();
+
+  const openComplaints = complaints
+    .filter((alert) => alert.status === 'active' || alert.status === 'acknowledged')
+    .sort((a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    )
+    .map(toHandoverComplaint);
+
+  // Only zones created during the period; older zones are already known to every shift
+  const zoneChanges: HandoverZoneChange[] = zoneLogs
+    .filter((log) => log.action === 'created' && new Date(log.timestamp).getTime() >= since)
+    .map(({ zoneName, action, details, officer, timestamp }) => ({ zoneName, action, details, officer, timestamp }));
+
+  // Missing tourists first
+  const touristsOfConcern = tourists
+    .filter((tourist) => tourist.status === 'missing' || tourist.status === 'flagged')
+    .map(toHandoverTourist)
+    .sort((a, b) => (a.status === b.status ? a.name.localeCompare(b.name) : a.status === 'missing' ? -1 : 1));
+
+  return {
+    periodStart,
+    periodEnd: new Date().toISOString(),
+    preparedBy,
+    openComplaints,
+    zoneChanges,
+    touristsOfConcern,
+    notes: notes.trim(),
+  };
+};
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+const cell = (value?: string) => `<td>${escapeHtml(value || '—')}</td>`;
+
+const table = (headers: string[], rows: string[][], emptyMessage: string) =>
+  rows.length === 0
+    ? `<p class="empty">${escapeHtml(emptyMessage)}</p>`
+    : `<table>
+    <thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map((values) => `<tr>${values.map(cell).join('')}</tr>`).join('')}</tbody>
+  </table>`;
+
+export const buildHandoverHtml = (handover: HandoverDocument) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Shift Handover ${escapeHtml(formatDateTime(handover.periodEnd))}</title>
+  <style>
+    body { font-family: Georgia, serif; margin: 32px; color: #111; }
+    h1 { text-align: center; font-size: 20px; margin-bottom: 4px; }
+    .subtitle { text-align: center; font-size: 12px; margin-bottom: 24px; }
+    h2 { font-size: 14px; border-bottom: 1px solid #111; padding-bottom: 4px; margin-top: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    .empty { font-size: 12px; font-style: italic; }
+    .notes { white-space: pre-wrap; font-size: 13px; line-height: 1.5; }
+    .signatures { display: flex; justify-content: space-between; margin-top: 64px; font-size: 13px; }
+    .signatures div { border-top: 1px solid #111; padding-top: 4px; width: 40%; text-align: center; }
+  </style>
+</head>
+<body>
+  <h1>Shift Handover Report</h1>
+  <p class="subtitle">
+    ${escapeHtml(formatDateTime(handover.periodStart))} to ${escapeHtml(formatDateTime(handover.periodEnd))}
+    · Prepared by ${escapeHtml(handover.preparedBy)}
+  </p>
+
+  <h2>1. Open Complaints (${handover.openComplaints.length})</h2>
+  ${table(
+    ['Complaint', 'Severity', 'Status', 'Incident', 'Tourist', 'Location', 'Assigned', 'Reported'],
+    handover.openComplaints.map((complaint) => [
+      complaint.complaintId,
+      complaint.severity.toUpperCase(),
+      complaint.status,
+      complaint.title,
+      complaint.touristName,
+      complaint.location,
+      complaint.assignedOfficer || 'Unassigned',
+      formatDateTime(complaint.reportedAt),
+    ]),
+    'No open complaints'
+  )}
+
+  <h2>2. New High-Risk Zones (${handover.zoneChanges.length})</h2>
+  ${table(
+    ['Zone', 'Details', 'Created by', 'Created'],
+    handover.zoneChanges.map((zone) => [zone.zoneName, zone.details, zone.officer, formatDateTime(zone.timestamp)]),
+    'No new zones this shift'
+  )}
+
+  <h2>3. Missing and Flagged Tourists (${handover.touristsOfConcern.length})</h2>
+  ${table(
+    ['Name', 'Status', 'Nationality', 'Phone', 'Last known location', 'Last seen'],
+    handover.touristsOfConcern.map((tourist) => [
+      tourist.name,
+      tourist.status.toUpperCase(),
+      tourist.nationality || '',
+      tourist.phone || '',
+      tourist.lastKnownLocation || '',
+      formatDateTime(tourist.lastSeenAt),
+    ]),
+    'No missing or flagged tourists'
+  )}
+
+  <h2>4. Officer Notes</h2>
+  <p class="notes">${escapeHtml(handover.notes || 'No additional notes')}</p>
+
+  <div class="signatures">
+    <div>Outgoing: ${escapeHtml(handover.preparedBy)}</div>
+    <div>Incoming: ${escapeHtml(handover.acknowledgedBy || '')}</div>
+  </div>
+</body>
+</html>`;
+
+export const printHandover = (handover: HandoverDocument) =>
+  printHtml(buildHandoverHtml(handover));
@@ -0,0 +1,234 @@
+// =============================================================================
+// TOURIST PROFILE EDIT FORM
+// File path: lib/tourist-profile-form.ts
+// =============================================================================
+
+import { z } from 'zod';
+import type { TouristProfile } from '@/hooks/useTouristManagementApi';
+import { SENSITIVE_FIELDS, isMaskedValue } from '@/lib/sensitive-fields';
+
+type ProfileDetails = NonNullable<TouristProfile['profile']>;
+
+export const PASSPORT_PATTERN = /^[A-Z0-9]{6,9}$/;
+const VISA_PATTERN = /^[A-Z0-9]{6,12}$/;
+const AADHAAR_PATTERN = /^\d{4}\s?\d{4}\s?\d{4}$/;
+// Digits with an optional leading + and common separators; at least 7 digits
+const PHONE_PATTERN = /^\+?[\d\s\-()]+$/;
+const MAX_AGE_YEARS = 120;
+
+const optionalText = z.string().trim();
+const optionalDate = z
+  .string()
+  .trim()
+  .refine((value) => !value || !isNaN(new Date(value).getTime()), 'Enter a valid date');
+const optionalPhone = z
+  .string()
+  .trim()
+  .refine(
+    (value) => !value || (PHONE_PATTERN.test(value) && value.replace(/\D/g, '').length >= 7 && value.replace(/\D/g, '').length <= 15),
+    'Enter a valid phone number, e.g. +91 98765 43210'
+  );
+// A masked value is the stored one, left as the API sent it because the officer has not revealed it
+const optionalDocument = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .refine((value) => !value || isMaskedValue(value) || pattern.test(value), message);
+
+export const touristProfileSchema = z
+  .object({
+    firstName: z.string().trim().min(1, 'First name is required'),
+    lastName: z.string().trim().min(1, 'Last name is required'),
+    dateOfBirth: optionalDate,
+    nationality: optionalText,
+    gender: optionalText,
+    passportNumber: optionalDocument(PASSPORT_PATTERN, 'Passport numbers are 6-9 letters or digits'),
+    passportExpiry: optionalDate,
+    visaNumber: optionalDocument(VISA_PATTERN, 'Visa numbers are 6-12 letters or digits'),
+    visaExpiry: optionalDate,
+    aadhaarNumber: z
+      .string()
+      .trim()
+      .refine((value) => !value || isMaskedValue(value) || AADHAAR_PATTERN.test(value), 'Aadhaar numbers are 12 digits'),
+    emergencyName: optionalText,
+    emergencyRelationship: optionalText,
+    emergencyPhone: optionalPhone,
+    emergencyEmail: z.string().trim().refine((value) => !value || z.string().email().safeParse(value).success, 'Enter a valid email'),
+    localName: optionalText,
+    localPhone: optionalPhone,
+    localAddress: optionalText,
+    medicalConditions: optionalText,
+    allergies: optionalText,
+    medications: optionalText,
+    insuranceProvider: optionalText,
+    insuranceNumber: optionalText,
+  })
+  .superRefine((values, ctx) => {
+    const now = new Date();
+
+    if (values.dateOfBirth) {
+      const dateOfBirth = new Date(values.dateOfBirth);
+      const oldest = new Date(now.getFullYear() - MAX_AGE_YEARS, now.getMonth(), now.getDate());
+      if (dateOfBirth > now || dateOfBirth < oldest) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dateOfBirth'], message: 'Enter a realistic date of birth' });
+      }
+    }
+
+    if (values.passportExpiry && !values.passportNumber) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['passportNumber'], message: 'Enter the passport number for this expiry date' });
+    }
+    if (values.visaExpiry && !values.visaNumber) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['visaNumber'], message: 'Enter the visa number for this expiry date' });
+    }
+    if (values.passportExpiry && values.visaExpiry && new Date(values.visaExpiry) > new Date(values.passportExpiry)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['visaExpiry'], message: 'Visa cannot outlast the passport it is issued in' });
+    }
+
+    // A contact is either left blank or given at least a name and a phone number
+    const contacts = [
+      { prefix: 'emergency', fields: [values.emergencyName, values.emergencyRelationship, values.emergencyPhone, values.emergencyEmail] },
+      { prefix: 'local', fields: [values.localName, values.localPhone, values.localAddress] },
+    ] as const;
+    contacts.forEach(({ prefix, fields }) => {
+      if (!fields.some(Boolean)) return;
+      if (!values[`${prefix}Name`]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [`${prefix}Name`], message: 'Contact name is required' });
+      }
+      if (!values[`${prefix}Phone`]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [`${prefix}Phone`], message: 'Contact phone is required' });
+      }
+    });
+    if (values.emergencyName && !values.emergencyRelationship) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['emergencyRelationship'], message: 'Relationship is required' });
+    }
+
+    if (values.insuranceNumber && !values.insuranceProvider) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['insuranceProvider'], message: 'Enter the insurer for this policy' });
+    }
+  });
+
+export type TouristProfileFormValues = z.infer<typeof touristProfileSchema>;
+export type TouristProfileField = keyof TouristProfileFormValues;
+
+export const PROFILE_SECTIONS = ['personal', 'documents', 'contacts', 'medical', 'insurance'] as const;
+export type ProfileSection = (typeof PROFILE_SECTIONS)[number];
+
+export const PROFILE_FIELDS: { name: TouristProfileField; label: string; section: ProfileSection; type?: 'date' | 'textarea' }[] = [
+  { name: 'firstName', label: 'First Name', section: 'personal' },
+  { name: 'lastName', label: 'Last Name', section: 'personal' },
+  { name: 'dateOfBirth', label: 'Date of Birth', section: 'personal', type: 'date' },
+  { name: 'nationality', label: 'Nationality', section: 'personal' },
+  { name: 'gender', label: 'Gender', section: 'personal' },
+  { name: 'passportNumber', label: 'Passport Number', section: 'documents' },
+  { name: 'passportExpiry', label: 'Passport Expiry', section: 'documents', type: 'date' },
+  { name: 'visaNumber', label: 'Visa Number', section: 'documents' },
+  { name: 'visaExpiry', label: 'Visa Expiry', section: 'documents', type: 'date' },
+  { name: 'aadhaarNumber', label: 'Aadhaar Number', section: 'documents' },
+  { name: 'emergencyName', label: 'Emergency Contact Name', section: 'contacts' },
+  { name: 'emergencyRelationship', label: 'Emergency Contact Relationship', section: 'contacts' },
+  { name: 'emergencyPhone', label: 'Emergency Contact Phone', section: 'contacts' },
+  { name: 'emergencyEmail', label: 'Emergency Contact Email', section: 'contacts' },
+  { name: 'localName', label: 'Local Contact Name', section: 'contacts' },
+  { name: 'localPhone', label: 'Local Contact Phone', section: 'contacts' },
+  { name: 'localAddress', label: 'Local Contact Address', section: 'contacts', type: 'textarea' },
+  { name: 'medicalConditions', label: 'Medical Conditions', section: 'medical', type: 'textarea' },
+  { name: 'allergies', label: 'Allergies', section: 'medical', type: 'textarea' },
+  { name: 'medications', label: 'Current Medications', section: 'medical', type: 'textarea' },
+  { name: 'insuranceProvider', label: 'Insurance Provider', section: 'insurance' },
+  { name: 'insuranceNumber', label: 'Insurance Number', section: 'insurance' },
+];
+
+// Dates are stored as UTC midnight, so the calendar day is read in UTC to avoid shifting a day west of Greenwich
+const toDateInput = (value?: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+export const toProfileFormValues = (tourist: TouristProfile): TouristProfileFormValues => {
+  const profile = tourist.profile || {};
+  return {
+    firstName: profile.firstName || '',
+    lastName: profile.lastName || '',
+    dateOfBirth: toDateInput(profile.dateOfBirth),
+    nationality: profile.nationality || '',
+    gender: profile.gender || '',
+    passportNumber: profile.passportNumber || '',
+    passportExpiry: toDateInput(profile.passportExpiry),
+    visaNumber: profile.visaNumber || '',
+    visaExpiry: toDateInput(profile.visaExpiry),
+    aadhaarNumber: profile.aadhaarNumber || '',
+    emergencyName: profile.emergencyContact?.name || '',
+    emergencyRelationship: profile.emergencyContact?.relationship || '',
+    emergencyPhone: profile.emergencyContact?.phone || '',
+    emergencyEmail: profile.emergencyContact?.email || '',
+    localName: profile.localContact?.name || '',
+    localPhone: profile.localContact?.phone || '',
+    localAddress: profile.localContact?.address || '',
+    medicalConditions: profile.medicalConditions || '',
+    allergies: profile.allergies || '',
+    medications: profile.medications || '',
+    insuranceProvider: profile.insuranceProvider || '',
+    insuranceNumber: profile.insuranceNumber || '',
+  };
+};
+
+// Builds the full profile to save; fields not on the form (photo, location) are kept from `existing`.
+// Protected fields still masked were never revealed, so they are left off and the server keeps its value.
+export const toProfileUpdate = (values: TouristProfileFormValues, existing?: ProfileDetails): ProfileDetails => {
+  const text = (value: string) => value || undefined;
+  const date = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+  const profile: ProfileDetails = {
+    ...existing,
+    firstName: text(values.firstName),
+    lastName: text(values.lastName),
+    dateOfBirth: date(values.dateOfBirth),
+    nationality: text(values.nationality),
+    gender: text(values.gender),
+    passportNumber: text(values.passportNumber),
+    passportExpiry: date(values.passportExpiry),
+    visaNumber: text(values.visaNumber),
+    visaExpiry: date(values.visaExpiry),
+    aadhaarNumber: text(values.aadhaarNumber),
+    emergencyContact: values.emergencyName
+      ? {
+          name: values.emergencyName,
+          relationship: values.emergencyRelationship,
+          phone: values.emergencyPhone,
+          email: values.emergencyEmail,
+        }
+      : undefined,
+    localContact: values.localName
+      ? { name: values.localName, phone: values.localPhone, address: values.localAddress }
+      : undefined,
+    medicalConditions: text(values.medicalConditions),
+    allergies: text(values.allergies),
+    medications: text(values.medications),
+    insuranceProvider: text(values.insuranceProvider),
+    insuranceNumber: text(values.insuranceNumber),
+  };
+  SENSITIVE_FIELDS.forEach((field) => {
+    if (isMaskedValue(profile[field])) delete profile[field];
+  });
+  return profile;
+};
+
+export interface ProfileChange {
+  field: TouristProfileField;
+  label: string;
+  section: ProfileSection;
+  before: string;
+  after: string;
+}
+
+// Field-level changes between the saved profile and the edited values
+export const diffProfile = (before: TouristProfileFormValues, after: TouristProfileFormValues): ProfileChange[] =>
+  PROFILE_FIELDS.filter(({ name }) => (before[name] || '') !== (after[name] || '')).map(({ name, label, section }) => ({
+    field: name,
+    label,
+    section,
+    before: before[name],
+    after: after[name],
+  }));
@@ -0,0 +1,312 @@
+// =============================================================================
+// TOURIST SPREADSHEET IMPORT / EXPORT
+// File path: lib/tourist-spreadsheet.ts
+// =============================================================================
+
+import { z } from 'zod';
+import type { TouristImportRecord, TouristProfile } from '@/hooks/useTouristManagementApi';
+import {
+  PROFILE_FIELDS,
+  toProfileFormValues,
+  toProfileUpdate,
+  touristProfileSchema,
+  type TouristProfileField,
+  type TouristProfileFormValues,
+} from '@/lib/tourist-profile-form';
+
+export type ImportField = 'email' | 'username' | 'phone' | TouristProfileField;
+
+// Account fields first, then the profile fields in the order of the edit form
+export const IMPORT_FIELDS: { name: ImportField; label: string }[] = [
+  { name: 'email', label: 'Email' },
+  { name: 'username', label: 'Username' },
+  { name: 'phone', label: 'Phone' },
+  ...PROFILE_FIELDS.map(({ name, label }) => ({ name, label })),
+];
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['email', 'firstName', 'lastName'];
+
+// Extra header spellings seen in agency and hotel registers
+const FIELD_ALIASES: Partial<Record<ImportField, string[]>> = {
+  email: ['e-mail', 'email address', 'mail'],
+  username: ['user name', 'login'],
+  phone: ['mobile', 'mobile number', 'phone number', 'contact number'],
+  firstName: ['first name', 'given name', 'forename'],
+  lastName: ['last name', 'surname', 'family name'],
+  dateOfBirth: ['dob', 'birth date'],
+  nationality: ['country', 'citizenship'],
+  gender: ['sex'],
+  passportNumber: ['passport', 'passport no'],
+  visaNumber: ['visa', 'visa no'],
+  aadhaarNumber: ['aadhaar', 'aadhar', 'aadhar number'],
+};
+
+export const IMPORT_BATCH_SIZE = 50;
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  // Row number in the spreadsheet of each entry in `rows`, counting the header row
+  rowNumbers: number[];
+}
+
+// Column index -> field it fills, or null when the column is skipped
+export type ColumnMapping = (ImportField | null)[];
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const taken = new Set<ImportField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(
+      ({ name, label }) =>
+        !taken.has(name) &&
+        [name, label, ...(FIELD_ALIASES[name] || [])].some((candidate) => normalizeHeader(candidate) === normalized)
+    );
+    if (!match) return null;
+    taken.add(match.name);
+    return match.name;
+  });
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  REQUIRED_IMPORT_FIELDS.filter((field) => !mapping.includes(field));
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Blank rows are dropped, but the others keep their original row numbers for error messages
+const toSpreadsheetData = (rows: string[][], sheetRowNumbers = rows.map((_, index) => index + 1)): SpreadsheetData => {
+  const [headers = [], ...body] = rows;
+  const kept = body
+    .map((row, index) => ({ row, rowNumber: sheetRowNumbers[index + 1] }))
+    .filter(({ row }) => row.some((cell) => cell.trim()));
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows: kept.map(({ row }) => row),
+    rowNumbers: kept.map(({ rowNumber }) => rowNumber),
+  };
+};
+
+// First worksheet of an .xlsx file, or the whole of a .csv file, as text cells
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    // Strip the byte-order mark Excel adds to UTF-8 CSV files
+    return toSpreadsheetData(parseCsv((await file.text()).replace(/^\uFEFF/, '')));
+  }
+  if (extension !== 'xlsx') {
+    throw new Error('Upload a .csv or .xlsx file');
+  }
+
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  // exceljs types the input as a Node Buffer but accepts an ArrayBuffer in the browser
+  await workbook.xlsx.load((await file.arrayBuffer()) as unknown as Parameters<typeof workbook.xlsx.load>[0]);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) throw new Error('The workbook has no worksheets');
+
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      const cell = row.getCell(column);
+      // exceljs gives date cells as UTC midnight, so the day is read in UTC like profile dates
+      cells.push(cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text);
+    }
+    rows.push(cells);
+    rowNumbers.push(row.number);
+  });
+  return toSpreadsheetData(rows, rowNumbers);
+};
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet, counting the header row
+  row: number;
+  email: string;
+  name: string;
+  record?: TouristImportRecord;
+  errors: string[];
+}
+
+const EMPTY_PROFILE_VALUES = PROFILE_FIELDS.reduce(
+  (values, { name }) => ({ ...values, [name]: '' }),
+  {} as TouristProfileFormValues
+);
+
+const fieldLabel = (field: string) => IMPORT_FIELDS.find(({ name }) => name === field)?.label || field;
+
+// Rows are checked against the same rules as the profile edit form.
+// Blank cells are left out of the record so they do not clear values on existing tourists.
+export const validateImportRows = (data: SpreadsheetData, mapping: ColumnMapping): ImportRow[] => {
+  const seenEmails = new Map<string, number>();
+
+  return data.rows.map((cells, index) => {
+    const row = data.rowNumbers[index];
+    const values: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field) values[field] = (cells[column] || '').trim();
+    });
+
+    const email = (values.email || '').toLowerCase();
+    const errors: string[] = [];
+
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!z.string().email().safeParse(email).success) {
+      errors.push(`"${values.email}" is not a valid email`);
+    } else if (seenEmails.has(email)) {
+      errors.push(`Duplicate of row ${seenEmails.get(email)}`);
+    } else {
+      seenEmails.set(email, row);
+    }
+
+    const parsed = touristProfileSchema.safeParse({ ...EMPTY_PROFILE_VALUES, ...values });
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        errors.push(`${fieldLabel(String(issue.path[0]))}: ${issue.message}`);
+      });
+    }
+
+    const name = [values.firstName, values.lastName].filter(Boolean).join(' ');
+    if (errors.length > 0 || !parsed.success) {
+      return { row, email, name, errors };
+    }
+
+    return {
+      row,
+      email,
+      name,
+      errors,
+      record: {
+        row,
+        email,
+        username: values.username || undefined,
+        phone: values.phone || undefined,
+        profile: toProfileUpdate(parsed.data),
+      },
+    };
+  });
+};
+
+// Personal data replaced in redacted exports; document and medical fields already come masked from the API
+const REDACTED_EXPORT_FIELDS: ImportField[] = [
+  'email',
+  'phone',
+  'dateOfBirth',
+  'emergencyPhone',
+  'emergencyEmail',
+  'localPhone',
+  'localAddress',
+];
+const REDACTED_VALUE = '[REDACTED]';
+
+// Headers match the import labels so an unredacted export can be re-imported as-is
+export const EXPORT_HEADERS = ['Tourist ID', ...IMPORT_FIELDS.map(({ label }) => label), 'Status', 'Registered'];
+
+const toDateCell = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+export const toExportRows = (tourists: TouristProfile[], redact: boolean): string[][] =>
+  tourists.map((tourist) => {
+    const values: Record<ImportField, string> = {
+      ...toProfileFormValues(tourist),
+      email: tourist.email,
+      username: tourist.username,
+      phone: tourist.phone || '',
+    };
+
+    const cells = IMPORT_FIELDS.map(({ name }) => {
+      const value = values[name];
+      return redact && value && REDACTED_EXPORT_FIELDS.includes(name) ? REDACTED_VALUE : value;
+    });
+
+    return [tourist._id, ...cells, tourist.status, toDateCell(tourist.createdAt)];
+  });
+
+// Phone numbers such as +91 98765 43210 start with + but cannot run as a formula, and stay
+// unprefixed so an export can be re-imported
+const PHONE_LIKE = /^\+?[\d\s()-]+$/;
+
+// Quote cells that need it, and keep spreadsheet apps from evaluating cells as formulas
+const toCsvCell = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) && !PHONE_LIKE.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const buildCsv = (headers: string[], rows: string[][]) =>
+  new Blob(['\uFEFF' + [headers, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\r\n')], {
+    type: 'text/csv;charset=utf-8',
+  });
+
+export const buildXlsx = async (headers: string[], rows: string[][], sheetName: string) => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.addRow(headers).font = { bold: true };
+  worksheet.addRows(rows);
+  worksheet.columns.forEach((column) => {
+    column.width = Math.min(40, Math.max(12, ...(column.values || []).map((value) => String(value ?? '').length + 2)));
+  });
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Firefox and Safari cancel a download whose URL is revoked in the same tick as the click
+const REVOKE_DELAY_MS = 10 * 1000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};